@@ -6,8 +6,11 @@
 import { InjectionToken } from '@angular/core';
 import { AppConfig } from '../../shared/models/core.types';
 
-// Configuration injection token
-export const APP_CONFIG = new InjectionToken<AppConfig>('app.config');
+// Configuration injection token, defaulting to the environment configuration
+export const APP_CONFIG = new InjectionToken<AppConfig>('app.config', {
+  providedIn: 'root',
+  factory: () => createAppConfig()
+});
 
 // Application constants
 export const APP_CONSTANTS = {
@@ -0,0 +1,28 @@
+import { Component, ChangeDetectionStrategy, inject } from '@angular/core';
+import { MatButtonModule } from '@angular/material/button';
+import { MAT_DIALOG_DATA, MatDialogModule } from '@angular/material/dialog';
+
+import { FormChange } from '../../../../shared/models';
+import { FormChangesComponent } from '../form-changes/form-changes.component';
+
+export interface ChangeReviewDialogData {
+  changes: FormChange[];
+}
+
+/**
+ * Shows the changes of a form save for review; closes with true when they are to be saved
+ */
+@Component({
+  selector: 'app-change-review-dialog',
+  imports: [
+    MatButtonModule,
+    MatDialogModule,
+    FormChangesComponent
+  ],
+  templateUrl: './change-review-dialog.component.html',
+  styleUrl: './change-review-dialog.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ChangeReviewDialogComponent {
+  readonly data = inject<ChangeReviewDialogData>(MAT_DIALOG_DATA);
+}
@@ -0,0 +1,53 @@
+import { Component, Input, ChangeDetectionStrategy, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatIconModule } from '@angular/material/icon';
+
+import { FormChange, FormChangeType } from '../../../../shared/models';
+import { FormDiffService } from '../../../../shared/services/form-diff.service';
+
+// Badge text and icon of each change type
+const CHANGE_TYPE_DISPLAY: { [type in FormChangeType]: { label: string; icon: string } } = {
+  added: { label: 'Added', icon: 'add_circle_outline' },
+  removed: { label: 'Removed', icon: 'remove_circle_outline' },
+  modified: { label: 'Changed', icon: 'edit' },
+  moved: { label: 'Moved', icon: 'swap_vert' }
+};
+
+/**
+ * Lists the field changes of a form save, as reviewed before saving and kept in the ticket history
+ */
+@Component({
+  selector: 'app-form-changes',
+  imports: [
+    CommonModule,
+    MatIconModule
+  ],
+  templateUrl: './form-changes.component.html',
+  styleUrl: './form-changes.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class FormChangesComponent {
+  @Input() changes: FormChange[] = [];
+  @Input() compact = false; // Smaller type, for the history timeline
+
+  private readonly formDiffService = inject(FormDiffService);
+
+  getTypeLabel(change: FormChange): string {
+    return CHANGE_TYPE_DISPLAY[change.type].label;
+  }
+
+  getTypeIcon(change: FormChange): string {
+    return CHANGE_TYPE_DISPLAY[change.type].icon;
+  }
+
+  /**
+   * Whole rows show a single value: the added, removed or moved row
+   */
+  isRowChange(change: FormChange): boolean {
+    return this.formDiffService.isRowChange(change) && change.type !== 'modified';
+  }
+
+  describe(change: FormChange): string {
+    return this.formDiffService.describe(change);
+  }
+}
@@ -0,0 +1,130 @@
+import { BreakpointObserver, BreakpointState } from '@angular/cdk/layout';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { FormGroup } from '@angular/forms';
+import { By } from '@angular/platform-browser';
+import { provideNoopAnimations } from '@angular/platform-browser/animations';
+import { BehaviorSubject, Observable } from 'rxjs';
+
+import { FormField, FormSection } from '../../../../shared/models';
+import { DynamicFormService } from '../../../../shared/services/dynamic-form.service';
+import { FormSectionComponent } from './form-section.component';
+
+// Screen of a given width; the layout reads breakpoints as min-width media queries
+class TestBreakpointObserver {
+  private width = 1000;
+  private readonly changes = new BehaviorSubject<BreakpointState>({ matches: true, breakpoints: {} });
+
+  observe(): Observable<BreakpointState> {
+    return this.changes;
+  }
+
+  isMatched(query: string): boolean {
+    return this.width >= Number(/\d+/.exec(query)?.[0]);
+  }
+
+  resize(width: number): void {
+    this.width = width;
+    this.changes.next({ matches: true, breakpoints: {} });
+  }
+}
+
+describe('FormSectionComponent', () => {
+  let service: DynamicFormService;
+  let screen: TestBreakpointObserver;
+  let fixture: ComponentFixture<FormSectionComponent>;
+  let form: FormGroup;
+
+  const field = (id: string, extra: Partial<FormField> = {}): FormField => ({ id, label: id, type: 'text', ...extra });
+  const section: FormSection = {
+    id: 'employee',
+    title: 'Employee',
+    layout: { columns: { xs: 1, md: 3 } },
+    groups: [{ id: 'location', title: 'Location' }, { id: 'remote', title: 'Remote Work', divider: true }],
+    fields: [
+      field('name', { layout: { span: { md: 2 } } }),
+      field('email', { layout: { row: 2 } }),
+      field('notes', { type: 'textarea', validators: [{ name: 'maxlength', args: 20, severity: 'warning', message: 'Keep notes short' }] }),
+      field('office', { layout: { group: 'location' } }),
+      field('works_remotely', { type: 'checkbox', layout: { group: 'location' } }),
+      field('home_city', {
+        layout: { group: 'remote' },
+        visibleWhen: [{ fieldId: 'employee.works_remotely', operator: 'equals', value: true }]
+      })
+    ]
+  };
+
+  // Field containers in render order: ungrouped fields, then the location group
+  const container = (fieldId: string) =>
+    fixture.debugElement.queryAll(By.css('.form-field-container'))[['name', 'email', 'notes', 'office'].indexOf(fieldId)]
+      .nativeElement as HTMLElement;
+  const gridColumns = () => (fixture.debugElement.query(By.css('.form-grid')).nativeElement as HTMLElement).style.gridTemplateColumns;
+  const groupTitles = () => fixture.debugElement.queryAll(By.css('.field-group-title'))
+    .map(element => (element.nativeElement as HTMLElement).textContent?.trim());
+
+  beforeEach(() => {
+    screen = new TestBreakpointObserver();
+    TestBed.configureTestingModule({
+      providers: [provideNoopAnimations(), { provide: BreakpointObserver, useValue: screen }]
+    });
+    service = TestBed.inject(DynamicFormService);
+    form = service.createFormFromSchema(
+      { id: 'test', title: 'Test', version: '1.0.0', sections: [section] },
+      { schemaValidation: { enabled: false } }
+    );
+    fixture = TestBed.createComponent(FormSectionComponent);
+    fixture.componentRef.setInput('section', section);
+    fixture.componentRef.setInput('formGroup', form.get('employee'));
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    fixture.destroy();
+    service.destroyForm(form);
+  });
+
+  it('should size the grid and the fields for the current breakpoint', () => {
+    expect(gridColumns()).toContain('repeat(3,');
+    expect(container('name').style.gridColumn).toBe('span 2');
+    expect(container('notes').style.gridColumn).toBe('span 3');
+    expect(container('email').style.gridRow).toContain('2');
+
+    screen.resize(600);
+    fixture.detectChanges();
+
+    expect(gridColumns()).toContain('repeat(1,');
+    expect(container('name').style.gridColumn).toBe('span 1');
+  });
+
+  it('should show groups below the ungrouped fields and hide groups without visible fields', () => {
+    const groups = fixture.debugElement.queryAll(By.css('.field-group'));
+    expect(groups.length).toBe(2);
+    expect(groupTitles()).toEqual(['Location']);
+
+    form.get('employee.works_remotely')!.setValue(true);
+    fixture.detectChanges();
+
+    expect(groupTitles()).toEqual(['Location', 'Remote Work']);
+    const remoteGroup = fixture.debugElement.queryAll(By.css('.field-group'))[2].nativeElement as HTMLElement;
+    expect(remoteGroup.classList).toContain('with-divider');
+  });
+
+  it('should show warnings inline and in the summary until they are acknowledged', () => {
+    const summary = () => fixture.debugElement.query(By.css('.warning-summary'))?.nativeElement as HTMLElement | undefined;
+    expect(summary()).toBeUndefined();
+
+    form.get('employee.notes')!.setValue('Prefers a standing desk by the window');
+    fixture.detectChanges();
+
+    expect(form.valid).toBeTrue();
+    expect(summary()?.textContent).toContain('1 warning to review');
+    expect(summary()?.textContent).toContain('notes: Keep notes short');
+    const warning = fixture.debugElement.query(By.css('.field-warning')).nativeElement as HTMLElement;
+    expect(warning.textContent).toContain('Keep notes short');
+
+    (fixture.debugElement.query(By.css('.acknowledge-button')).nativeElement as HTMLButtonElement).click();
+    fixture.detectChanges();
+
+    expect(summary()).toBeUndefined();
+    expect(warning.classList).toContain('acknowledged');
+  });
+});
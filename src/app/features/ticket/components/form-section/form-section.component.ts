@@ -1,51 +1,78 @@
-import { Component, Input, OnInit, ChangeDetectionStrategy, inject, OnDestroy } from '@angular/core';
+import { Component, Input, OnInit, ChangeDetectionStrategy, ChangeDetectorRef, inject, OnDestroy, Type } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { FormGroup, ReactiveFormsModule, AbstractControl } from '@angular/forms';
+import { FormGroup, ReactiveFormsModule, AbstractControl, StatusChangeEvent, TouchedChangeEvent, ValidationErrors } from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
 import { MatExpansionModule } from '@angular/material/expansion';
-import { MatFormFieldModule } from '@angular/material/form-field';
-import { MatInputModule } from '@angular/material/input';
-import { MatSelectModule } from '@angular/material/select';
-import { MatRadioModule } from '@angular/material/radio';
-import { MatCheckboxModule } from '@angular/material/checkbox';
-import { MatDatepickerModule } from '@angular/material/datepicker';
-import { MatNativeDateModule } from '@angular/material/core';
+import { ErrorStateMatcher } from '@angular/material/core';
 import { MatIconModule } from '@angular/material/icon';
-import { MatButtonModule } from '@angular/material/button';
-import { Subject, takeUntil } from 'rxjs';
+import { Observable, Subject, catchError, combineLatest, debounceTime, distinctUntilChanged, filter, finalize, map, of, startWith, switchMap, takeUntil } from 'rxjs';
+
+import { FormSection, FormField, CrossFieldError, FieldOption, FieldOptionEntry, FieldOptions, FieldOptionsSource, FieldWarning, JsonValue, LayoutBreakpoint } from '../../../../shared/models';
+import { DynamicFormService } from '../../../../shared/services/dynamic-form.service';
+import { OptionsResolverService } from '../../../../shared/services/options-resolver.service';
+import { FieldComponentRegistryService } from '../../../../shared/services/field-component-registry.service';
+import { FormLayoutService, SectionFieldGroup } from '../../../../shared/services/form-layout.service';
+import { BaseFieldComponent, DynamicFormErrorStateMatcher } from '../../../../shared/components/form-fields/base-field.component';
+
+// Search-as-you-type settings for searchable option sources
+const OPTIONS_SEARCH_DEBOUNCE_MS = 300;
+const DEFAULT_MIN_SEARCH_LENGTH = 2;
+
+// Inputs set on the field components that declare them, besides field and formGroup
+const SECTION_INPUTS = ['options', 'optionEntries', 'optionsLoading', 'optionsSearch', 'rendered'] as const;
+type SectionInput = typeof SECTION_INPUTS[number];
 
-import { FormSection, FormField, FieldOption, FieldOptionGroup } from '../../../../shared/models';
+// Shared empty list, so remote fields keep a stable reference while nothing is loaded
+const NO_OPTIONS: FieldOption[] = [];
+
+// Unacknowledged warning of a section field, as listed in the section summary
+interface SectionWarning {
+  field: FormField;
+  warning: FieldWarning;
+}
 
 @Component({
     selector: 'app-form-section',
     imports: [
         CommonModule,
         ReactiveFormsModule,
+        MatButtonModule,
         MatExpansionModule,
-        MatFormFieldModule,
-        MatInputModule,
-        MatSelectModule,
-        MatRadioModule,
-        MatCheckboxModule,
-        MatDatepickerModule,
-        MatNativeDateModule,
-        MatIconModule,
-        MatButtonModule
+        MatIconModule
     ],
     templateUrl: './form-section.component.html',
     styleUrls: ['./form-section.component.scss'],
+    // Material inputs of the fields show errors according to the validation mode
+    providers: [{ provide: ErrorStateMatcher, useClass: DynamicFormErrorStateMatcher }],
     changeDetection: ChangeDetectionStrategy.OnPush
 })
 export class FormSectionComponent implements OnInit, OnDestroy {
   @Input() section!: FormSection;
   @Input() formGroup!: FormGroup;
   @Input() sectionIndex: number = 0;
+  @Input() readOnly: boolean = false; // Renders every field read-only (e.g. wizard review step)
+  @Input() renderRichText: boolean = false; // Shows richtext fields as formatted text instead of the editor
+
+  private readonly dynamicFormService = inject(DynamicFormService);
+  private readonly optionsResolver = inject(OptionsResolverService);
+  private readonly fieldComponentRegistry = inject(FieldComponentRegistryService);
+  private readonly formLayout = inject(FormLayoutService);
+  private readonly cdr = inject(ChangeDetectorRef);
 
   private destroy$ = new Subject<void>();
   private fieldOptionsCache = new Map<string, FieldOption[]>();
+  private optionsSearch$ = new Subject<{ fieldId: string; term: string }>();
+  private loadingOptionFieldIds = new Set<string>();
+  private optionsSearchCallbacks = new Map<string, (term: string) => void>();
+
+  fieldGroups: SectionFieldGroup[] = [];
+  breakpoint: LayoutBreakpoint = this.formLayout.getCurrentBreakpoint();
 
   ngOnInit(): void {
     this.validateInputs();
+    this.fieldGroups = this.formLayout.getFieldGroups(this.section);
     this.setupFormSubscriptions();
+    this.setupOptionSources();
   }
 
   ngOnDestroy(): void {
@@ -76,27 +103,267 @@ export class FormSectionComponent implements OnInit, OnDestroy {
       .subscribe(() => {
         // Could add custom logic here for form state changes
       });
+
+    // Conditional rules update controls silently, so refresh the view when one of ours changes
+    this.dynamicFormService.fieldStateChanges$
+      .pipe(
+        filter(control => control.parent === this.formGroup),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(control => {
+        this.invalidateStaticOptions(control);
+        this.cdr.markForCheck();
+      });
+
+    // Errors show once touched or submitted, and server errors are set, from outside (e.g. validating a wizard step)
+    this.formGroup.events
+      .pipe(
+        filter(event => event instanceof TouchedChangeEvent || event instanceof StatusChangeEvent),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(() => this.cdr.markForCheck());
+
+    this.dynamicFormService.submitted$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.cdr.markForCheck());
+
+    // Column counts and spans may differ per breakpoint
+    this.formLayout.breakpoint$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(breakpoint => {
+        this.breakpoint = breakpoint;
+        this.cdr.markForCheck();
+      });
   }
 
   /**
-   * Get section icon based on section content
+   * Load remote options of every field declaring an optionsSource
    */
-  getSectionIcon(): string {
-    const sectionId = this.section.id.toLowerCase();
-    
-    if (sectionId.includes('basic') || sectionId.includes('general')) {
-      return 'info';
-    } else if (sectionId.includes('employee') || sectionId.includes('personal')) {
-      return 'badge';
-    } else if (sectionId.includes('employment') || sectionId.includes('work')) {
-      return 'business_center';
-    } else if (sectionId.includes('contact')) {
-      return 'contact_mail';
-    } else if (sectionId.includes('address')) {
-      return 'place';
+  private setupOptionSources(): void {
+    this.section.fields
+      .filter(field => field.optionsSource)
+      .forEach(field => this.watchOptionsSource(field, field.optionsSource!));
+  }
+
+  /**
+   * Re-fetches a field's options whenever its parent fields or search term change.
+   * A parent change that removes the selected option clears the field.
+   */
+  private watchOptionsSource(field: FormField, source: FieldOptionsSource): void {
+    let previousParamsKey: string | null = null;
+
+    combineLatest([this.getOptionsParams(source), this.getOptionsSearchTerm(field, source)])
+      .pipe(
+        switchMap(([params, search]) => {
+          const paramsKey = JSON.stringify(params);
+          const parentsChanged = previousParamsKey !== null && previousParamsKey !== paramsKey;
+          previousParamsKey = paramsKey;
+
+          if (parentsChanged) {
+            this.fieldOptionsCache.delete(field.id);
+          }
+
+          // Children of an empty parent have nothing to choose from
+          const hasEmptyParent = Object.values(params).some(value => this.isEmptyValue(value));
+          if (hasEmptyParent) {
+            return of({ options: NO_OPTIONS, parentsChanged });
+          }
+
+          this.setOptionsLoading(field, true);
+          return this.optionsResolver.resolve(source, params, search).pipe(
+            catchError(error => {
+              console.error(`Failed to load options of "${this.section.id}.${field.id}":`, error);
+              return of(NO_OPTIONS);
+            }),
+            map(options => ({ options, parentsChanged })),
+            finalize(() => this.setOptionsLoading(field, false))
+          );
+        }),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(({ options, parentsChanged }) => {
+        this.fieldOptionsCache.set(field.id, this.withSelectedOptions(field, options));
+        if (parentsChanged) {
+          this.clearUnavailableSelection(field, options);
+        }
+        this.cdr.markForCheck();
+      });
+  }
+
+  /**
+   * Current values of the parent fields, keyed by query parameter
+   */
+  private getOptionsParams(source: FieldOptionsSource): Observable<{ [param: string]: JsonValue }> {
+    const dependencies = Object.entries(source.dependsOn || {});
+    if (dependencies.length === 0) {
+      return of({});
+    }
+
+    return combineLatest(dependencies.map(([param, path]) => {
+      const control = this.findParentControl(path);
+      if (!control) {
+        console.warn(`Options parent "${path}" not found`);
+        return of([param, null] as const);
+      }
+      return control.valueChanges.pipe(
+        startWith(control.value),
+        map(value => [param, value as JsonValue] as const)
+      );
+    })).pipe(
+      map(entries => Object.fromEntries(entries)),
+      distinctUntilChanged((previous, current) => JSON.stringify(previous) === JSON.stringify(current))
+    );
+  }
+
+  /**
+   * Debounced search term of a searchable source (empty until minSearchLength characters are typed)
+   */
+  private getOptionsSearchTerm(field: FormField, source: FieldOptionsSource): Observable<string> {
+    if (!source.searchable) {
+      return of('');
+    }
+
+    const minLength = source.minSearchLength ?? DEFAULT_MIN_SEARCH_LENGTH;
+    return this.optionsSearch$.pipe(
+      filter(event => event.fieldId === field.id),
+      map(event => event.term.trim()),
+      debounceTime(OPTIONS_SEARCH_DEBOUNCE_MS),
+      map(term => (term.length >= minLength ? term : '')),
+      startWith(''),
+      distinctUntilChanged()
+    );
+  }
+
+  /**
+   * Parent fields of this section resolve within the section (and row), others from the form root
+   */
+  private findParentControl(path: string): AbstractControl | null {
+    const prefix = `${this.section.id}.`;
+    return path.startsWith(prefix)
+      ? this.formGroup.get(path.slice(prefix.length))
+      : this.formGroup.root.get(path);
+  }
+
+  /**
+   * Keeps the selected options in the list, so a search that excludes them does not blank the field
+   */
+  private withSelectedOptions(field: FormField, options: FieldOption[]): FieldOption[] {
+    const previous = this.fieldOptionsCache.get(field.id) || NO_OPTIONS;
+    const selected = this.getSelectedValues(field)
+      .filter(value => !options.some(option => option.value === value))
+      .map(value => previous.find(option => option.value === value))
+      .filter((option): option is FieldOption => !!option);
+
+    return selected.length ? [...selected, ...options] : options;
+  }
+
+  private clearUnavailableSelection(field: FormField, options: FieldOption[]): void {
+    const control = this.getFieldControl(field.id);
+    if (!control) return;
+
+    const value: unknown = control.value;
+    const available = (entry: unknown) => options.some(option => option.value === entry);
+    if (Array.isArray(value)) {
+      const entries: unknown[] = value;
+      const kept = entries.filter(available);
+      if (kept.length !== entries.length) {
+        control.setValue(kept);
+      }
+    } else if (!this.isEmptyValue(value) && !available(value)) {
+      control.setValue(null);
+    }
+  }
+
+  private getSelectedValues(field: FormField): JsonValue[] {
+    const value: unknown = this.getFieldControl(field.id)?.value;
+    if (Array.isArray(value)) return value as JsonValue[];
+    return this.isEmptyValue(value) ? [] : [value as JsonValue];
+  }
+
+  private isEmptyValue(value: unknown): boolean {
+    return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+  }
+
+  private setOptionsLoading(field: FormField, loading: boolean): void {
+    if (loading) {
+      this.loadingOptionFieldIds.add(field.id);
+    } else {
+      this.loadingOptionFieldIds.delete(field.id);
+    }
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Option and group rules may have changed the available options of the control's field
+   */
+  private invalidateStaticOptions(control: AbstractControl): void {
+    const field = this.section.fields.find(candidate => this.getFieldControl(candidate.id) === control);
+    if (field && !field.optionsSource) {
+      this.fieldOptionsCache.delete(field.id);
+    }
+  }
+
+  /**
+   * Check whether a field's remote options are being loaded
+   */
+  isOptionsLoading(field: FormField): boolean {
+    return this.loadingOptionFieldIds.has(field.id);
+  }
+
+  /**
+   * Get the callback searching a field's searchable option source as the user types (one per field, so it stays stable)
+   */
+  getOptionsSearch(field: FormField): (term: string) => void {
+    let search = this.optionsSearchCallbacks.get(field.id);
+    if (!search) {
+      search = term => this.optionsSearch$.next({ fieldId: field.id, term });
+      this.optionsSearchCallbacks.set(field.id, search);
+    }
+    return search;
+  }
+
+  /**
+   * Get the component registered for a field's type
+   * @returns null for unknown types
+   */
+  getFieldComponent(field: FormField): Type<BaseFieldComponent> | null {
+    return this.fieldComponentRegistry.get(field.type)?.component ?? null;
+  }
+
+  /**
+   * Get the inputs of a field component: field and formGroup, plus the section inputs the component declares
+   */
+  getFieldInputs(field: FormField): { [input: string]: unknown } {
+    const component = this.getFieldComponent(field);
+    const declared = component ? this.fieldComponentRegistry.getInputNames(component) : new Set<string>();
+    const inputs: { [input: string]: unknown } = { field, formGroup: this.formGroup };
+
+    SECTION_INPUTS
+      .filter(input => declared.has(input))
+      .forEach(input => (inputs[input] = this.getSectionInput(field, input)));
+    return inputs;
+  }
+
+  private getSectionInput(field: FormField, input: SectionInput): unknown {
+    switch (input) {
+      case 'options':
+        return this.getFieldOptions(field);
+      case 'optionEntries':
+        return this.getFieldOptionEntries(field);
+      case 'optionsLoading':
+        return this.isOptionsLoading(field);
+      case 'optionsSearch':
+        return this.getOptionsSearch(field);
+      case 'rendered':
+        return this.renderRichText || this.isFieldReadOnly(field);
     }
-    
-    return 'article';
+  }
+
+  /**
+   * Get the section icon, declared in the schema or guessed from the section ID
+   */
+  getSectionIcon(): string {
+    return this.formLayout.getSectionIcon(this.section);
   }
 
   /**
@@ -107,65 +374,112 @@ export class FormSectionComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Check if field has specific error and is touched/dirty
+   * Check if field has specific error, once its validation mode shows errors
    */
   hasFieldError(fieldId: string, errorType: string): boolean {
     const control = this.getFieldControl(fieldId);
-    return !!(control?.hasError(errorType) && (control.dirty || control.touched));
+    return !!control?.hasError(errorType) && this.dynamicFormService.shouldShowErrors(control);
   }
 
   /**
-   * Get validation message for field
+   * Get cross-field validation messages reported on a field by section or form-level validators
    */
-  getValidationMessage(field: FormField, errorType: string): string {
-    const validator = field.validators?.find(v => v.name === errorType);
-    if (validator?.message) {
-      return validator.message;
-    }
-    
-    // Default messages
-    switch (errorType) {
-      case 'required':
-        return `${field.label} is required`;
-      case 'email':
-        return 'Please enter a valid email address';
-      case 'min':
-        return `${field.label} must be greater than minimum value`;
-      case 'max':
-        return `${field.label} must be less than maximum value`;
-      default:
-        return `${field.label} is invalid`;
+  getCrossFieldErrors(field: FormField): string[] {
+    const control = this.getFieldControl(field.id);
+    if (!this.dynamicFormService.shouldShowErrors(control)) {
+      return [];
     }
+
+    const crossFieldErrors = (errors: ValidationErrors | null, path: string) => Object.values(errors || {})
+      .filter((error: unknown): error is CrossFieldError => this.dynamicFormService.isCrossFieldError(error) && error.field === path);
+    const sectionErrors = crossFieldErrors(this.formGroup.errors, field.id);
+    const formErrors = crossFieldErrors(this.formGroup.root.errors, `${this.section.id}.${field.id}`);
+
+    return [...sectionErrors, ...formErrors].map(error => error.message);
+  }
+
+  /**
+   * Get the server-side validation message of a field, set when a save was rejected
+   */
+  getServerError(field: FormField): string | null {
+    const control = this.getFieldControl(field.id);
+    return this.dynamicFormService.shouldShowErrors(control) ? this.dynamicFormService.getServerError(control) : null;
+  }
+
+  /**
+   * Get the warnings and info messages of a field's advisory validators
+   */
+  getFieldWarnings(field: FormField): FieldWarning[] {
+    return this.dynamicFormService.getWarnings(this.getFieldControl(field.id));
   }
 
   /**
-   * Get CSS grid class for field layout
+   * Get the unacknowledged warnings of the visible fields, for the section summary
    */
-  getFieldGridClass(field: FormField): string {
-    if (field.type === 'textarea' || field.type === 'radio') {
-      return 'full-width';
+  get sectionWarnings(): SectionWarning[] {
+    return this.section.fields
+      .filter(field => this.isFieldVisible(field))
+      .flatMap(field => this.getFieldWarnings(field)
+        .filter(warning => warning.severity === 'warning' && !warning.acknowledged)
+        .map(warning => ({ field, warning })));
+  }
+
+  acknowledgeWarning(field: FormField, warning: FieldWarning): void {
+    const control = this.getFieldControl(field.id);
+    if (control) {
+      this.dynamicFormService.acknowledgeWarning(control, warning.key);
     }
-    return 'half-width';
+  }
+
+  acknowledgeAllWarnings(): void {
+    this.sectionWarnings.forEach(({ field, warning }) => this.acknowledgeWarning(field, warning));
   }
 
   /**
-   * TrackBy function for fields
+   * TrackBy function for section warnings
    */
-  trackByFieldId(index: number, field: FormField): string {
-    return field.id;
+  trackBySectionWarning(index: number, entry: SectionWarning): string {
+    return `${entry.field.id}.${entry.warning.key}`;
+  }
+
+  /**
+   * Get the grid-template-columns of the section grid at the current breakpoint
+   */
+  getGridColumns(): string {
+    return `repeat(${this.formLayout.getColumns(this.section, this.breakpoint)}, minmax(0, 1fr))`;
   }
 
   /**
-   * TrackBy function for options
+   * Get the grid-column of a field at the current breakpoint
    */
-  trackByOptionValue(index: number, option: any): any {
-    return option.value;
+  getFieldGridColumn(field: FormField): string {
+    return `span ${this.formLayout.getFieldSpan(field, this.section, this.breakpoint)}`;
   }
 
   /**
-   * Get field options with caching for performance
+   * Check if a group has a visible field, so groups whose fields are all hidden lose their heading too
+   */
+  hasVisibleFields(fieldGroup: SectionFieldGroup): boolean {
+    return fieldGroup.fields.some(field => this.isFieldVisible(field));
+  }
+
+  /**
+   * TrackBy function for fields
+   */
+  trackByFieldId(index: number, field: FormField): string {
+    return field.id;
+  }
+
+  /**
+   * Get field options with caching for performance, groups flattened.
+   * Remote options are cached as they load and dropped when parent fields change;
+   * static options are dropped when option rules change what is available.
    */
   getFieldOptions(field: FormField): FieldOption[] {
+    if (field.optionsSource) {
+      return this.fieldOptionsCache.get(field.id) || NO_OPTIONS;
+    }
+
     if (!field.options) {
       return [];
     }
@@ -176,16 +490,23 @@ export class FormSectionComponent implements OnInit, OnDestroy {
       return this.fieldOptionsCache.get(cacheKey)!;
     }
 
-    let options: FieldOption[] = [];
-
-    // Since we simplified the interface, field.options is always FieldOption[]
-    options = Array.isArray(field.options) ? field.options : [];
+    const options = FieldOptions.flatten(this.getFieldOptionEntries(field));
 
     // Cache the result
     this.fieldOptionsCache.set(cacheKey, options);
     return options;
   }
 
+  /**
+   * Get the options and option groups currently offered by a field, for grouped rendering
+   */
+  getFieldOptionEntries(field: FormField): FieldOptionEntry[] {
+    if (field.optionsSource) {
+      return this.getFieldOptions(field);
+    }
+    return this.dynamicFormService.getAvailableOptions(this.getFieldControl(field.id), field);
+  }
+
   /**
    * Get field by ID for type safety
    */
@@ -201,7 +522,7 @@ export class FormSectionComponent implements OnInit, OnDestroy {
     
     return this.section.fields.some(field => {
       const control = this.getFieldControl(field.id);
-      return control && control.invalid && (control.dirty || control.touched);
+      return !!control?.invalid && this.dynamicFormService.shouldShowErrors(control);
     });
   }
 
@@ -213,7 +534,7 @@ export class FormSectionComponent implements OnInit, OnDestroy {
     
     return this.section.fields.reduce((count, field) => {
       const control = this.getFieldControl(field.id);
-      if (control && control.invalid && (control.dirty || control.touched)) {
+      if (control?.invalid && this.dynamicFormService.shouldShowErrors(control)) {
         return count + Object.keys(control.errors || {}).length;
       }
       return count;
@@ -221,23 +542,18 @@ export class FormSectionComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Get field input type with fallback
-   */
-  getInputType(field: FormField): string {
-    return (field as any).inputType || 'text';
-  }
-
-  /**
-   * Check if field is disabled with proper boolean handling
+   * Check if field is read-only, statically, through readOnlyWhen or because it is calculated
    */
-  isFieldDisabled(field: FormField): boolean {
-    return field.readOnly === true;
+  isFieldReadOnly(field: FormField): boolean {
+    const state = this.dynamicFormService.getFieldState(this.getFieldControl(field.id));
+    return this.readOnly || field.readOnly === true || !!field.calculated || !!state?.readOnly;
   }
 
   /**
-   * Get field attribute with type safety
+   * Check if field is currently visible according to visibleWhen
    */
-  getFieldAttribute(field: FormField, attributeName: string): any {
-    return field.attributes?.[attributeName] || null;
+  isFieldVisible(field: FormField): boolean {
+    const state = this.dynamicFormService.getFieldState(this.getFieldControl(field.id));
+    return state?.visible ?? true;
   }
 }
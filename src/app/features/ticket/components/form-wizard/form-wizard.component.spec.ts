@@ -0,0 +1,148 @@
+import { Component } from '@angular/core';
+import { ComponentFixture, TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { AbstractControl, FormGroup, ReactiveFormsModule } from '@angular/forms';
+import { By } from '@angular/platform-browser';
+import { provideNoopAnimations } from '@angular/platform-browser/animations';
+import { of, timer, map } from 'rxjs';
+
+import { FormField, FormSchema, FormSection } from '../../../../shared/models';
+import { DynamicFormService } from '../../../../shared/services/dynamic-form.service';
+import { ValidatorRegistryService } from '../../../../shared/services/validator-registry.service';
+import { FormWizardComponent, WIZARD_REMAINING_STEP_ID, WIZARD_REVIEW_STEP_ID } from './form-wizard.component';
+
+// The wizard is rendered inside the ticket form, like on the ticket detail page
+@Component({
+  imports: [ReactiveFormsModule, FormWizardComponent],
+  template: '<form [formGroup]="form"><app-form-wizard [schema]="schema" [form]="form" /></form>'
+})
+class WizardHostComponent {
+  schema!: FormSchema;
+  form!: FormGroup;
+}
+
+describe('FormWizardComponent', () => {
+  let service: DynamicFormService;
+  let fixture: ComponentFixture<WizardHostComponent>;
+  let component: FormWizardComponent;
+  let form: FormGroup;
+
+  const field = (id: string, extra: Partial<FormField> = {}): FormField => ({ id, label: id, type: 'text', ...extra });
+  const section = (id: string, fields: FormField[], extra: Partial<FormSection> = {}): FormSection =>
+    ({ id, title: id, fields, ...extra });
+
+  const createWizard = (sections: FormSection[], extra: Partial<FormSchema> = {}) => {
+    const schema: FormSchema = { id: 'test', title: 'Test', version: '1.0.0', presentation: 'wizard', sections, ...extra };
+    form = service.createFormFromSchema(schema, { schemaValidation: { enabled: false } });
+    fixture = TestBed.createComponent(WizardHostComponent);
+    fixture.componentInstance.schema = schema;
+    fixture.componentInstance.form = form;
+    fixture.detectChanges();
+    component = fixture.debugElement.query(By.directive(FormWizardComponent)).componentInstance as FormWizardComponent;
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [WizardHostComponent],
+      providers: [provideNoopAnimations()]
+    });
+    service = TestBed.inject(DynamicFormService);
+  });
+
+  afterEach(() => {
+    fixture.destroy();
+    service.destroyForm(form);
+  });
+
+  it('should stay on a step until it is valid and go back to the previous one', async () => {
+    createWizard([
+      section('employee', [field('name', { validators: [{ name: 'required' }] })]),
+      section('equipment', [field('laptop')])
+    ]);
+
+    await component.next();
+    expect(component.currentStepId).toBe('employee');
+
+    form.get('employee.name')!.setValue('Ada');
+    await component.next();
+    expect(component.currentStepId).toBe('equipment');
+    expect(component.getStepState('employee')).toBe('completed');
+
+    component.back();
+    expect(component.currentStepId).toBe('employee');
+  });
+
+  it('should skip steps whose sections are hidden', async () => {
+    createWizard([
+      section('employee', [field('remote', { type: 'checkbox' })]),
+      section('office', [field('desk')], { visibleWhen: [{ fieldId: 'employee.remote', operator: 'equals', value: false }] }),
+      section('equipment', [field('laptop')])
+    ]);
+
+    form.get('employee.remote')!.setValue(true);
+    expect(component.visibleSteps.map(step => step.id)).toEqual(['employee', 'equipment']);
+
+    await component.next();
+    expect(component.currentStepId).toBe('equipment');
+    await component.next();
+    expect(component.currentStepId).toBe(WIZARD_REVIEW_STEP_ID);
+  });
+
+  it('should put sections no step lists in a step after the declared ones', () => {
+    createWizard(
+      [section('employee', [field('name')]), section('equipment', [field('laptop')]), section('notes', [field('comment')])],
+      { steps: [{ id: 'start', title: 'Start', sections: ['employee', 'equipment'] }] }
+    );
+
+    expect(component.visibleSteps.map(step => step.id)).toEqual(['start', WIZARD_REMAINING_STEP_ID]);
+    expect(component.visibleSteps[1].sections.map(item => item.id)).toEqual(['notes']);
+  });
+
+  it('should re-validate every step on submit and return to the first invalid one', async () => {
+    const submitted = jasmine.createSpy('submitForm');
+    createWizard([
+      section('employee', [field('name', { validators: [{ name: 'required' }] })]),
+      section('equipment', [field('laptop')])
+    ]);
+    component.submitForm.subscribe(submitted);
+
+    form.get('employee.name')!.setValue('Ada');
+    await component.next();
+    await component.next();
+    expect(component.isReviewStep).toBeTrue();
+
+    form.get('employee.name')!.setValue('');
+    await component.submit();
+    expect(component.currentStepId).toBe('employee');
+    expect(submitted).not.toHaveBeenCalled();
+
+    form.get('employee.name')!.setValue('Ada');
+    await component.next();
+    await component.next();
+    await component.submit();
+    expect(submitted).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for pending async validators before moving on', fakeAsync(() => {
+    TestBed.inject(ValidatorRegistryService).registerAsync('uniqueName', {
+      factory: () => (control: AbstractControl) =>
+        (control.value === 'taken' ? timer(500).pipe(map(() => ({ uniqueName: true }))) : of(null))
+    });
+    createWizard([
+      section('employee', [field('name', { validators: [{ name: 'uniqueName' }] })]),
+      section('equipment', [field('laptop')])
+    ]);
+
+    form.get('employee.name')!.setValue('taken');
+    tick(300);
+    expect(form.get('employee')!.pending).toBeTrue();
+
+    void component.next();
+    tick();
+    expect(component.isValidating).toBeTrue();
+    expect(component.currentStepId).toBe('employee');
+
+    tick(500);
+    expect(component.isValidating).toBeFalse();
+    expect(component.currentStepId).toBe('employee');
+  }));
+});
@@ -0,0 +1,329 @@
+import { Component, Input, Output, EventEmitter, OnInit, OnDestroy, ChangeDetectionStrategy, ChangeDetectorRef, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { AbstractControl, FormControlStatus, FormGroup, FormGroupDirective } from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { Subject, filter, firstValueFrom, takeUntil } from 'rxjs';
+
+import { FormSchema, FormSection } from '../../../../shared/models';
+import { DynamicFormService } from '../../../../shared/services/dynamic-form.service';
+import { FormSectionComponent } from '../form-section/form-section.component';
+
+// Wizard step with its sections resolved from the schema
+export interface WizardStep {
+  id: string;
+  title: string;
+  description?: string;
+  sections: FormSection[];
+}
+
+export type WizardStepState = 'completed' | 'current' | 'pending';
+
+// ID of the read-only review step appended after the schema steps
+export const WIZARD_REVIEW_STEP_ID = '__review__';
+
+// ID of the step holding the sections that no schema step lists
+export const WIZARD_REMAINING_STEP_ID = '__remaining__';
+
+@Component({
+  selector: 'app-form-wizard',
+  imports: [
+    CommonModule,
+    MatButtonModule,
+    MatIconModule,
+    FormSectionComponent
+  ],
+  templateUrl: './form-wizard.component.html',
+  styleUrls: ['./form-wizard.component.scss'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class FormWizardComponent implements OnInit, OnDestroy {
+  @Input() schema!: FormSchema;
+  @Input() form!: FormGroup;
+  @Input() isSaving: boolean = false;
+
+  /** Emits the ID of the step the user moved to */
+  @Output() stepChange = new EventEmitter<string>();
+  /** Emits when the user submits from the review step */
+  @Output() submitForm = new EventEmitter<void>();
+
+  private readonly dynamicFormService = inject(DynamicFormService);
+  private readonly cdr = inject(ChangeDetectorRef);
+  // Directive binding the form around the wizard, which commits the values of onSubmit fields
+  private readonly formDirective = inject(FormGroupDirective, { optional: true });
+
+  private destroy$ = new Subject<void>();
+  private completedStepIds = new Set<string>();
+
+  readonly reviewStepId = WIZARD_REVIEW_STEP_ID;
+  steps: WizardStep[] = [];
+  currentStepId = '';
+  // True while a step waits for its async validators before moving on
+  isValidating = false;
+
+  ngOnInit(): void {
+    this.validateInputs();
+    this.steps = this.buildSteps();
+    this.currentStepId = this.visibleSteps[0]?.id ?? WIZARD_REVIEW_STEP_ID;
+
+    // Section visibility changes can add or remove steps
+    this.dynamicFormService.fieldStateChanges$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => {
+        if (!this.isReviewStep && !this.visibleSteps.some(step => step.id === this.currentStepId)) {
+          this.currentStepId = this.findNextVisibleStepId(this.currentStepId);
+        }
+        this.cdr.markForCheck();
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Steps that contain at least one visible section
+   */
+  get visibleSteps(): WizardStep[] {
+    return this.steps.filter(step => this.getVisibleSections(step).length > 0);
+  }
+
+  get isReviewStep(): boolean {
+    return this.currentStepId === WIZARD_REVIEW_STEP_ID;
+  }
+
+  get currentStep(): WizardStep | undefined {
+    return this.steps.find(step => step.id === this.currentStepId);
+  }
+
+  get isFirstStep(): boolean {
+    return this.visibleSteps[0]?.id === this.currentStepId;
+  }
+
+  /**
+   * Current position for the progress indicator (1-based, review step included)
+   */
+  get currentStepNumber(): number {
+    return this.isReviewStep
+      ? this.visibleSteps.length + 1
+      : this.visibleSteps.findIndex(step => step.id === this.currentStepId) + 1;
+  }
+
+  get totalStepCount(): number {
+    return this.visibleSteps.length + 1;
+  }
+
+  /**
+   * Get the visible sections of a step
+   */
+  getVisibleSections(step: WizardStep): FormSection[] {
+    return step.sections.filter(section => this.dynamicFormService.isSectionVisible(this.form.get(section.id)));
+  }
+
+  /**
+   * Get all visible sections, for the review step
+   */
+  getReviewSections(): FormSection[] {
+    return this.visibleSteps.flatMap(step => this.getVisibleSections(step));
+  }
+
+  /**
+   * Get section FormGroup with proper type casting
+   */
+  getSectionFormGroup(section: FormSection): FormGroup {
+    return this.form.get(section.id) as FormGroup || new FormGroup({});
+  }
+
+  /**
+   * Get the progress state of a step
+   */
+  getStepState(stepId: string): WizardStepState {
+    if (stepId === this.currentStepId) return 'current';
+    return this.completedStepIds.has(stepId) ? 'completed' : 'pending';
+  }
+
+  /**
+   * Check whether a step can be opened from the progress indicator
+   */
+  canGoToStep(stepId: string): boolean {
+    if (stepId === WIZARD_REVIEW_STEP_ID) {
+      return this.visibleSteps.every(step => this.completedStepIds.has(step.id));
+    }
+    return this.completedStepIds.has(stepId) || this.isBeforeCurrent(stepId);
+  }
+
+  /**
+   * Validate the current step and move to the next one
+   */
+  async next(): Promise<void> {
+    const step = this.currentStep;
+    if (!step || this.isValidating) return;
+
+    this.commitPendingValues();
+    if (!await this.validateSteps([step])) {
+      this.cdr.markForCheck();
+      return;
+    }
+
+    this.completedStepIds.add(step.id);
+    this.moveTo(this.findNextVisibleStepId(step.id));
+  }
+
+  /**
+   * Move to the previous visible step
+   */
+  back(): void {
+    const visibleSteps = this.visibleSteps;
+    const index = this.isReviewStep
+      ? visibleSteps.length
+      : visibleSteps.findIndex(step => step.id === this.currentStepId);
+
+    if (index > 0) {
+      this.moveTo(visibleSteps[index - 1].id);
+    }
+  }
+
+  /**
+   * Open a step from the progress indicator
+   */
+  goToStep(stepId: string): void {
+    if (stepId !== this.currentStepId && this.canGoToStep(stepId)) {
+      this.moveTo(stepId);
+    }
+  }
+
+  /**
+   * Submit from the review step, re-validating every step first
+   */
+  async submit(): Promise<void> {
+    if (this.isValidating) return;
+
+    this.commitPendingValues();
+    const steps = this.visibleSteps;
+    if (!await this.validateSteps(steps)) {
+      const invalidStep = steps.find(step => !this.isStepValid(step));
+      if (invalidStep) {
+        this.completedStepIds.delete(invalidStep.id);
+        this.moveTo(invalidStep.id);
+      }
+      this.cdr.markForCheck();
+      return;
+    }
+
+    this.submitForm.emit();
+  }
+
+  // === PRIVATE HELPER METHODS ===
+
+  private validateInputs(): void {
+    if (!this.schema) {
+      throw new Error('FormWizardComponent: schema input is required');
+    }
+    if (!this.form) {
+      throw new Error('FormWizardComponent: form input is required');
+    }
+  }
+
+  /**
+   * Resolves schema steps, defaulting to one step per section
+   */
+  private buildSteps(): WizardStep[] {
+    if (!this.schema.steps?.length) {
+      return this.schema.sections.map(section => ({ id: section.id, title: section.title, sections: [section] }));
+    }
+
+    const steps: WizardStep[] = this.schema.steps.map(step => ({
+      id: step.id,
+      title: step.title,
+      description: step.description,
+      sections: this.schema.sections.filter(section => step.sections.includes(section.id))
+    }));
+
+    // Sections no step lists are still validated with the form, so they get a step of their own
+    const steppedSectionIds = new Set(this.schema.steps.flatMap(step => step.sections));
+    const remainingSections = this.schema.sections.filter(section => !steppedSectionIds.has(section.id));
+    if (remainingSections.length) {
+      steps.push({ id: WIZARD_REMAINING_STEP_ID, title: 'Additional Information', sections: remainingSections });
+    }
+
+    return steps;
+  }
+
+  /**
+   * Values of fields validated on submit stay in their inputs until the form is submitted
+   */
+  private commitPendingValues(): void {
+    this.formDirective?.onSubmit(new Event('submit'));
+  }
+
+  /**
+   * Marks the steps' sections as submitted, showing their errors, and checks them once their async validators finish
+   */
+  private async validateSteps(steps: WizardStep[]): Promise<boolean> {
+    const sections = steps.flatMap(step => this.getVisibleSections(step))
+      .map(section => this.form.get(section.id))
+      .filter((control): control is AbstractControl => !!control);
+    sections.forEach(control => this.dynamicFormService.markAsSubmitted(control));
+
+    // A pending section is neither valid nor invalid: wait for it like a form submit does
+    this.isValidating = true;
+    this.cdr.markForCheck();
+    try {
+      await Promise.all(sections.map(control => this.settledStatus(control)));
+    } finally {
+      this.isValidating = false;
+    }
+
+    return steps.every(step => this.isStepValid(step));
+  }
+
+  /**
+   * Checks that a step's sections are valid and no form-level error points into them
+   */
+  private isStepValid(step: WizardStep): boolean {
+    const sections = this.getVisibleSections(step);
+    const sectionsValid = sections.every(section => {
+      const status = this.form.get(section.id)?.status;
+      return status !== 'INVALID' && status !== 'PENDING';
+    });
+    const hasFormErrors = Object.values(this.form.errors || {}).some(error =>
+      this.dynamicFormService.isCrossFieldError(error)
+      && sections.some(section => error.field.startsWith(`${section.id}.`))
+    );
+
+    return sectionsValid && !hasFormErrors;
+  }
+
+  /**
+   * Resolves with the status of a control once it is no longer pending (still pending if the wizard is destroyed first)
+   */
+  private settledStatus(control: AbstractControl): Promise<FormControlStatus> {
+    if (!control.pending) return Promise.resolve(control.status);
+    return firstValueFrom(
+      control.statusChanges.pipe(filter(status => status !== 'PENDING'), takeUntil(this.destroy$)),
+      { defaultValue: 'PENDING' as const }
+    );
+  }
+
+  /**
+   * Finds the next visible step in schema order, falling back to the review step
+   */
+  private findNextVisibleStepId(stepId: string): string {
+    const index = this.steps.findIndex(step => step.id === stepId);
+    const next = this.steps.slice(index + 1).find(step => this.getVisibleSections(step).length > 0);
+    return next?.id ?? WIZARD_REVIEW_STEP_ID;
+  }
+
+  private isBeforeCurrent(stepId: string): boolean {
+    if (this.isReviewStep) return true;
+    const ids = this.steps.map(step => step.id);
+    return ids.indexOf(stepId) < ids.indexOf(this.currentStepId);
+  }
+
+  private moveTo(stepId: string): void {
+    this.currentStepId = stepId;
+    this.stepChange.emit(stepId);
+    this.cdr.markForCheck();
+  }
+}
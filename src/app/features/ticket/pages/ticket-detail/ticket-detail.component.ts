@@ -1,7 +1,7 @@
 import { Component, OnInit, OnDestroy, inject, ChangeDetectionStrategy, ViewChild, ElementRef, ChangeDetectorRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { ActivatedRoute, Router, RouterModule } from '@angular/router';
-import { FormGroup, ReactiveFormsModule } from '@angular/forms';
+import { FormGroup, FormGroupDirective, ReactiveFormsModule } from '@angular/forms';
 import { FormsModule } from '@angular/forms';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { MatSnackBarModule, MatSnackBar } from '@angular/material/snack-bar';
@@ -20,15 +20,19 @@ import { MatCardModule } from '@angular/material/card';
 import { MatChipsModule } from '@angular/material/chips';
 import { MatTooltipModule } from '@angular/material/tooltip';
 import { MatMenuModule } from '@angular/material/menu';
-import { MatDialogModule } from '@angular/material/dialog';
-import { Subject, takeUntil, debounceTime, distinctUntilChanged, Observable } from 'rxjs';
+import { MatDialog, MatDialogModule } from '@angular/material/dialog';
+import { Subject, takeUntil, debounceTime, distinctUntilChanged, Observable, filter, firstValueFrom } from 'rxjs';
 
 import { FormSectionComponent } from '../../components/form-section/form-section.component';
+import { FormWizardComponent } from '../../components/form-wizard/form-wizard.component';
 import { TicketSummaryComponent } from '../../components/ticket-summary/ticket-summary.component';
 import { TicketHeaderComponent } from '../../components/ticket-header/ticket-header.component';
+import { FormChangesComponent } from '../../components/form-changes/form-changes.component';
+import { ChangeReviewDialogComponent, ChangeReviewDialogData } from '../../components/change-review-dialog/change-review-dialog.component';
 import { TicketDetailSkeletonComponent } from '../../../../shared/components/skeleton/ticket-detail-skeleton.component';
 
 import { DynamicFormService } from '../../../../shared/services/dynamic-form.service';
+import { FormDiffService } from '../../../../shared/services/form-diff.service';
 import { HistoryService } from '../../../../shared/services/history.service';
 import { CommentService } from '../../../../shared/services/comment.service';
 import { TicketService } from '../../../../shared/services/ticket.service';
@@ -39,7 +43,13 @@ import {
   FormSubmissionData, 
   AsyncOperation,
   Comment,
-  CreateCommentRequest
+  CreateCommentRequest,
+  FieldOptions,
+  FormField,
+  JsonValue,
+  ApiResponse,
+  ValidationError,
+  FormChange
 } from '../../../../shared/models';
 import { HistoryItem } from '../../../../shared/models/history.interface';
 
@@ -69,8 +79,10 @@ import { HistoryItem } from '../../../../shared/models/history.interface';
         MatMenuModule,
         MatDialogModule,
         FormSectionComponent,
+        FormWizardComponent,
         TicketSummaryComponent,
         TicketHeaderComponent,
+        FormChangesComponent,
         TicketDetailSkeletonComponent
     ],
     templateUrl: './ticket-detail.component.html',
@@ -80,17 +92,20 @@ import { HistoryItem } from '../../../../shared/models/history.interface';
 export class TicketDetailComponent implements OnInit, OnDestroy {
   private destroy$ = new Subject<void>();
   private dynamicFormService = inject(DynamicFormService);
+  private formDiffService = inject(FormDiffService);
   private historyService = inject(HistoryService);
   private ticketService = inject(TicketService);
   private commentService = inject(CommentService);
   private route = inject(ActivatedRoute);
   private router = inject(Router);
   private snackBar = inject(MatSnackBar);
+  private dialog = inject(MatDialog);
   private cdr = inject(ChangeDetectorRef);
 
   @ViewChild('formContainer', { static: false }) formContainer!: ElementRef;
   @ViewChild('summaryContainer', { static: false }) summaryContainer!: ElementRef;
   @ViewChild('tabsContainer', { static: false }) tabsContainer!: ElementRef;
+  @ViewChild('formDirective') formDirective?: FormGroupDirective;
 
   // Component state
   ticketId!: string;
@@ -104,6 +119,7 @@ export class TicketDetailComponent implements OnInit, OnDestroy {
   dynamicForm?: FormGroup;
   formSchema?: FormSchema;
   ticket?: Ticket;
+  formErrors: ValidationError[] = []; // Server errors of the last save matching no field, shown in a banner
   
   // UI state
   selectedTabIndex = 0;
@@ -126,6 +142,10 @@ export class TicketDetailComponent implements OnInit, OnDestroy {
   get isSaving(): boolean {
     return this.saveOperation.isLoading;
   }
+
+  get isWizardMode(): boolean {
+    return this.formSchema?.presentation === 'wizard';
+  }
   
   // Draft saving state
   isDraftSaving = false;
@@ -172,6 +192,9 @@ export class TicketDetailComponent implements OnInit, OnDestroy {
   ngOnDestroy(): void {
     this.destroy$.next();
     this.destroy$.complete();
+    if (this.dynamicForm) {
+      this.dynamicFormService.destroyForm(this.dynamicForm);
+    }
   }
 
   /**
@@ -297,13 +320,18 @@ export class TicketDetailComponent implements OnInit, OnDestroy {
    */
   private createDynamicForm(): void {
     if (!this.formSchema) return;
+
+    // Rules of a previous form would keep running otherwise
+    if (this.dynamicForm) {
+      this.dynamicFormService.destroyForm(this.dynamicForm);
+    }
+    this.formErrors = [];
     
     this.dynamicForm = this.dynamicFormService.createFormFromSchema(
       this.formSchema,
       {
         validation: {
-          mode: 'onChange',
-          debounceTime: 300
+          mode: 'onChange'
         },
         conditionalLogic: {
           enabled: true
@@ -325,7 +353,8 @@ export class TicketDetailComponent implements OnInit, OnDestroy {
         distinctUntilChanged((prev, curr) => JSON.stringify(prev) === JSON.stringify(curr))
       )
       .subscribe(value => {
-        if (this.dynamicForm?.dirty && this.dynamicForm?.valid) {
+        // Wizard drafts are partial by nature, so later steps may still be invalid
+        if (this.dynamicForm?.dirty && (this.dynamicForm?.valid || this.isWizardMode)) {
           this.saveDraft();
         }
       });
@@ -370,27 +399,94 @@ export class TicketDetailComponent implements OnInit, OnDestroy {
   async onSubmit(): Promise<void> {
     if (!this.dynamicForm || !this.formSchema) return;
 
+    // Commit the values of fields validated on submit, then show their errors
+    this.formErrors = [];
+    this.formDirective?.onSubmit(new Event('submit'));
+    this.dynamicFormService.markAsSubmitted(this.dynamicForm);
+
+    // A pending form is neither valid nor invalid: wait for the async validators to finish
+    if (this.dynamicForm.pending) {
+      const status = await firstValueFrom(
+        this.dynamicForm.statusChanges.pipe(filter(status => status !== 'PENDING'), takeUntil(this.destroy$)),
+        { defaultValue: 'PENDING' as const }
+      );
+      if (status === 'PENDING') return;
+    }
+
     if (this.dynamicForm.invalid) {
       const errors = this.dynamicFormService.getValidationErrors(this.dynamicForm, this.formSchema);
       this.showValidationErrors(errors);
       return;
     }
 
+    // Review the changes against the saved data before saving them
+    const formData = this.dynamicFormService.convertToSubmissionData(this.dynamicForm);
+    this.formDiffService.diff(this.formSchema, this.ticket?.formData ?? {}, formData).subscribe({
+      next: (changes) => {
+        if (!changes.length) {
+          this.dynamicForm!.markAsPristine();
+          this.showInfo('No changes to save');
+          if (this.isEditMode) {
+            this.exitEditMode();
+          }
+          this.cdr.detectChanges();
+          return;
+        }
+
+        this.reviewChanges(formData, changes);
+      },
+      error: (error) => this.handleError('Failed to compare the changes', error)
+    });
+  }
+
+  /**
+   * Show the changes for review, and save them once confirmed (going back returns to editing)
+   */
+  private reviewChanges(formData: FormSubmissionData, changes: FormChange[]): void {
+    this.dialog.open<ChangeReviewDialogComponent, ChangeReviewDialogData, boolean>(ChangeReviewDialogComponent, {
+      data: { changes },
+      width: '42rem',
+      maxWidth: '90vw'
+    }).afterClosed().pipe(takeUntil(this.destroy$)).subscribe(confirmed => {
+      if (confirmed) {
+        this.saveChanges(formData, changes);
+      }
+    });
+  }
+
+  /**
+   * Save the form data with its change set using TicketService
+   */
+  private saveChanges(formData: FormSubmissionData, changes: FormChange[]): void {
+    // Warnings never block saving; unacknowledged ones are mentioned in the confirmation
+    const unacknowledgedWarnings = this.dynamicFormService.getValidationWarnings(this.dynamicForm!, this.formSchema!)
+      .filter(warning => warning.severity === 'warning' && !warning.acknowledged).length;
+
     try {
       this.saveOperation = { isLoading: true };
       
-      const formData = this.dynamicFormService.convertToSubmissionData(this.dynamicForm);
-      
       // Use TicketService to save ticket
-      this.ticketService.saveTicket(this.ticketId, formData).subscribe({
+      this.ticketService.saveTicket(this.ticketId, formData, changes).subscribe({
         next: (updatedTicket) => {
           this.ticket = updatedTicket;
           this.saveOperation = { isLoading: false, data: updatedTicket };
           this.dynamicForm!.markAsPristine();
-          this.showSuccess('Ticket saved successfully');
+          this.showSuccess(unacknowledgedWarnings
+            ? `Ticket saved with ${unacknowledgedWarnings} unacknowledged warning(s)`
+            : 'Ticket saved successfully');
+          if (this.isEditMode) {
+            this.exitEditMode();
+          }
           this.cdr.detectChanges();
         },
         error: (error) => {
+          if (ApiResponse.isValidationFailure(error)) {
+            this.saveOperation = { isLoading: false };
+            this.showServerValidationErrors(error.errors);
+            this.cdr.detectChanges();
+            return;
+          }
+
           this.saveOperation = { 
             isLoading: false, 
             error: {
@@ -455,6 +551,15 @@ export class TicketDetailComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Save progress as a draft whenever the wizard moves to another step
+   */
+  onWizardStepChange(): void {
+    if (this.dynamicForm?.dirty) {
+      void this.saveDraft();
+    }
+  }
+
   /**
    * Cancel/reset form
    */
@@ -533,6 +638,21 @@ export class TicketDetailComponent implements OnInit, OnDestroy {
     this.showError(message);
   }
 
+  /**
+   * Show the errors of a save rejected by the server on their fields; the others go to the form banner
+   */
+  private showServerValidationErrors(errors: ValidationError[]): void {
+    this.formErrors = this.dynamicFormService.applyServerErrors(this.dynamicForm!, errors);
+    this.showError(`The server rejected ${errors.length} value(s); please review the highlighted fields`);
+  }
+
+  /**
+   * Dismiss the form-level server errors
+   */
+  dismissFormErrors(): void {
+    this.formErrors = [];
+  }
+
   /**
    * Error handler
    */
@@ -637,37 +757,6 @@ export class TicketDetailComponent implements OnInit, OnDestroy {
     return control as FormGroup || new FormGroup({});
   }
 
-  /**
-   * Get section icon based on section content
-   */
-  getSectionIcon(sectionId: string): string {
-    const sectionLower = sectionId.toLowerCase();
-    
-    if (sectionLower.includes('basic') || sectionLower.includes('general')) {
-      return 'info';
-    } else if (sectionLower.includes('employee') || sectionLower.includes('personal')) {
-      return 'badge';
-    } else if (sectionLower.includes('employment') || sectionLower.includes('work')) {
-      return 'business_center';
-    } else if (sectionLower.includes('contact')) {
-      return 'contact_mail';
-    } else if (sectionLower.includes('address')) {
-      return 'place';
-    }
-    
-    return 'article';
-  }
-  
-  /**
-   * Get CSS grid class for field layout
-   */
-  getFieldGridClass(field: any): string {
-    if (field.type === 'textarea' || field.type === 'radio') {
-      return 'full-width';
-    }
-    return 'half-width';
-  }
-  
   /**
    * Get validation message for field
    */
@@ -807,10 +896,8 @@ export class TicketDetailComponent implements OnInit, OnDestroy {
    * Handle save changes action
    */
   async handleSaveChanges(): Promise<void> {
+    // Edit mode is left once the reviewed changes are saved
     await this.onSubmit();
-    if (!this.saveOperation.error) {
-      this.exitEditMode();
-    }
   }
 
   /**
@@ -833,6 +920,7 @@ export class TicketDetailComponent implements OnInit, OnDestroy {
       this.dynamicFormService.populateForm(this.dynamicForm, this.ticket.formData);
       this.dynamicForm.markAsPristine();
     }
+    this.formErrors = [];
     this.showCancelConfirmation = false;
     this.exitEditMode();
   }
@@ -916,25 +1004,25 @@ export class TicketDetailComponent implements OnInit, OnDestroy {
   /**
    * Get select option label for display
    */
-  getSelectOptionLabel(field: any, value: any): string {
+  getSelectOptionLabel(field: FormField, value: JsonValue | undefined): string {
     if (!value || !field.options) {
-      return field.default || '-';
+      return field.default ? String(field.default) : '-';
     }
     
-    const option = field.options.find((opt: any) => opt.value === value);
-    return option?.label || value || '-';
+    const option = FieldOptions.flatten(field.options).find(opt => opt.value === value);
+    return option?.label || String(value);
   }
   
   /**
    * Get radio option label for display
    */
-  getRadioOptionLabel(field: any, value: any): string {
+  getRadioOptionLabel(field: FormField, value: JsonValue | undefined): string {
     if (!value || !field.options) {
-      return field.default || '-';
+      return field.default ? String(field.default) : '-';
     }
     
-    const option = field.options.find((opt: any) => opt.value === value);
-    return option?.label || value || '-';
+    const option = FieldOptions.flatten(field.options).find(opt => opt.value === value);
+    return option?.label || String(value);
   }
   
   /**
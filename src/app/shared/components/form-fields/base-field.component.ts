@@ -1,12 +1,39 @@
-import { Component, Input, Output, EventEmitter, ChangeDetectionStrategy } from '@angular/core';
-import { FormGroup, AbstractControl } from '@angular/forms';
-import { FormField } from '../../models';
+import { Component, Input, Output, EventEmitter, ChangeDetectionStrategy, Injectable, Provider, inject } from '@angular/core';
+import { FormGroup, AbstractControl, ControlContainer } from '@angular/forms';
+import { ErrorStateMatcher } from '@angular/material/core';
+import { FieldValidators, FormField } from '../../models';
+import { DynamicFormService } from '../../services/dynamic-form.service';
+import { ValidatorRegistryService } from '../../services/validator-registry.service';
 
 export interface ValidationEvent {
   field: FormField;
   errorType: string;
 }
 
+/**
+ * Error state of Material inputs following the validation mode of their control (see DynamicFormService.shouldShowErrors).
+ * Provided by the views rendering field components, in place of Material's "touched or submitted" default.
+ */
+@Injectable()
+export class DynamicFormErrorStateMatcher implements ErrorStateMatcher {
+  private readonly dynamicFormService = inject(DynamicFormService);
+
+  isErrorState(control: AbstractControl | null): boolean {
+    return !!control?.invalid && this.dynamicFormService.shouldShowErrors(control);
+  }
+}
+
+/**
+ * View providers of field components binding inputs with formControlName. Field components are created
+ * inside the form group directive of the view rendering them, which formControlName can't see past its host.
+ */
+export const FIELD_VIEW_PROVIDERS: Provider[] = [
+  { provide: ControlContainer, useFactory: () => inject(ControlContainer, { skipSelf: true }) }
+];
+
+// Suffix of the label IDs of field components, unique across sections and table rows
+let nextLabelId = 0;
+
 @Component({
   selector: 'app-base-field',
   template: '',
@@ -17,6 +44,12 @@ export abstract class BaseFieldComponent {
   @Input() formGroup!: FormGroup;
   @Output() validationMessage = new EventEmitter<ValidationEvent>();
 
+  protected readonly dynamicFormService = inject(DynamicFormService);
+  protected readonly validatorRegistry = inject(ValidatorRegistryService);
+
+  /** ID of the field label, for fields labelling a group of controls with aria-labelledby */
+  readonly labelId = `field-label-${nextLabelId++}`;
+
   /**
    * Get the form control for this field
    */
@@ -25,10 +58,10 @@ export abstract class BaseFieldComponent {
   }
 
   /**
-   * Check if field has specific error
+   * Check if field has specific error, once the validation mode shows errors
    */
   hasError(errorType: string): boolean {
-    return this.control?.hasError(errorType) && (this.control?.dirty || this.control?.touched) || false;
+    return !!this.control?.hasError(errorType) && this.dynamicFormService.shouldShowErrors(this.control);
   }
 
   /**
@@ -37,7 +70,7 @@ export abstract class BaseFieldComponent {
   getValidationMessage(errorType: string): string {
     this.validationMessage.emit({ field: this.field, errorType });
     
-    const validator = this.field.validators?.find(v => v.name === errorType);
+    const validator = FieldValidators.find(this.field.validators, errorType);
     if (validator?.message) {
       return validator.message;
     }
@@ -48,24 +81,32 @@ export abstract class BaseFieldComponent {
         return `${this.field.label} is required`;
       case 'email':
         return 'Please enter a valid email address';
-      case 'min':
-        return `${this.field.label} must be greater than minimum value`;
-      case 'max':
-        return `${this.field.label} must be less than maximum value`;
-      case 'minlength':
-        return `${this.field.label} must be at least ${validator?.args} characters`;
-      case 'maxlength':
-        return `${this.field.label} must not exceed ${validator?.args} characters`;
       default:
-        return `${this.field.label} is invalid`;
+        return this.validatorRegistry.getDefaultMessage(errorType, this.field.label, this.control?.getError(errorType)) || `${this.field.label} is invalid`;
     }
   }
 
+  /**
+   * Get validator names of the field not among the error keys a template shows explicitly (registry validators)
+   */
+  getCustomErrorKeys(shownKeys: readonly string[]): string[] {
+    return (this.field.validators || [])
+      .map(validator => validator.name)
+      .filter(name => !shownKeys.includes(name));
+  }
+
   /**
    * Check if field is disabled
    */
   get isDisabled(): boolean {
-    return this.field.readOnly || this.control?.disabled || false;
+    return this.isReadOnly || this.control?.disabled || false;
+  }
+
+  /**
+   * Check if field is read-only, statically, through readOnlyWhen or because it is calculated
+   */
+  get isReadOnly(): boolean {
+    return this.field.readOnly || !!this.field.calculated || !!this.dynamicFormService.getFieldState(this.control)?.readOnly;
   }
 
   /**
@@ -3,7 +3,7 @@ import { CommonModule } from '@angular/common';
 import { ReactiveFormsModule } from '@angular/forms';
 import { MatCheckboxModule } from '@angular/material/checkbox';
 
-import { BaseFieldComponent } from './base-field.component';
+import { BaseFieldComponent, FIELD_VIEW_PROVIDERS } from './base-field.component';
 
 @Component({
   selector: 'app-checkbox-field',
@@ -13,6 +13,7 @@ import { BaseFieldComponent } from './base-field.component';
     ReactiveFormsModule,
     MatCheckboxModule
   ],
+  viewProviders: FIELD_VIEW_PROVIDERS,
   template: `
     <div class="checkbox-field">
       <mat-checkbox 
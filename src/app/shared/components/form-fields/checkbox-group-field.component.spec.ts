@@ -0,0 +1,49 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { FormControl, FormGroup } from '@angular/forms';
+import { By } from '@angular/platform-browser';
+
+import { JsonValue } from '../../models';
+import { CheckboxGroupFieldComponent } from './checkbox-group-field.component';
+
+describe('CheckboxGroupFieldComponent', () => {
+  let fixture: ComponentFixture<CheckboxGroupFieldComponent>;
+  let component: CheckboxGroupFieldComponent;
+  let control: FormControl<JsonValue>;
+
+  beforeEach(() => {
+    control = new FormControl<JsonValue>(['vpn']);
+    fixture = TestBed.createComponent(CheckboxGroupFieldComponent);
+    component = fixture.componentInstance;
+    component.field = { id: 'access', label: 'Access', type: 'checkbox-group' };
+    component.formGroup = new FormGroup({ access: control });
+    component.options = [
+      { value: 'email', label: 'Email' },
+      { value: 'vpn', label: 'VPN' },
+      { value: 'admin', label: 'Admin', disabled: true }
+    ];
+    fixture.detectChanges();
+  });
+
+  it('should keep selected values in option order', () => {
+    component.toggle(component.options[0], true);
+    expect(control.value as unknown).toEqual(['email', 'vpn']);
+    expect(control.dirty).toBeTrue();
+
+    component.toggle(component.options[1], false);
+    expect(control.value as unknown).toEqual(['email']);
+    expect(component.isSelected(component.options[1])).toBeFalse();
+  });
+
+  it('should ignore a non-array control value', () => {
+    control.setValue('vpn');
+    expect(component.selectedValues as unknown).toEqual([]);
+  });
+
+  it('should label the group with the field label', () => {
+    const group = fixture.debugElement.query(By.css('[role="group"]')).nativeElement as HTMLElement;
+    const label = fixture.debugElement.query(By.css('.field-label')).nativeElement as HTMLElement;
+
+    expect(group.getAttribute('aria-labelledby')).toBe(label.id);
+    expect(label.textContent?.trim()).toBe('Access');
+  });
+});
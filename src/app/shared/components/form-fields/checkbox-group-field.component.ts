@@ -0,0 +1,117 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule } from '@angular/forms';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+
+import { BaseFieldComponent } from './base-field.component';
+import { FieldOption, JsonValue } from '../../models';
+
+@Component({
+  selector: 'app-checkbox-group-field',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatCheckboxModule
+  ],
+  template: `
+    <div class="checkbox-group full-width" role="group" [attr.aria-labelledby]="labelId">
+      <span class="field-label" [id]="labelId">{{ field.label }}</span>
+      <div class="checkbox-group-content">
+        <mat-checkbox 
+          *ngFor="let option of options; trackBy: trackByOptionValue"
+          [checked]="isSelected(option)"
+          [disabled]="isDisabled || !!option.disabled"
+          (change)="toggle(option, $event.checked)"
+          class="checkbox-option">
+          {{ option.label }}
+        </mat-checkbox>
+      </div>
+      
+      <div *ngIf="hasHint" class="field-hint">{{ hint }}</div>
+      
+      <!-- Error Messages -->
+      <div *ngIf="hasError('required')" class="field-error">
+        {{ getValidationMessage('required') }}
+      </div>
+      <div *ngIf="hasError('minItems')" class="field-error">
+        {{ getValidationMessage('minItems') }}
+      </div>
+      <div *ngIf="hasError('maxItems')" class="field-error">
+        {{ getValidationMessage('maxItems') }}
+      </div>
+    </div>
+  `,
+  styles: [`
+    .checkbox-group {
+      margin-bottom: 16px;
+    }
+    
+    .field-label {
+      display: block;
+      font-size: 14px;
+      font-weight: 500;
+      color: rgba(0, 0, 0, 0.87);
+      margin-bottom: 8px;
+    }
+    
+    .checkbox-group-content {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+    }
+    
+    .field-hint {
+      font-size: 12px;
+      color: rgba(0, 0, 0, 0.6);
+      margin-top: 4px;
+    }
+    
+    .field-error {
+      font-size: 12px;
+      color: #f44336;
+      margin-top: 4px;
+    }
+  `]
+})
+export class CheckboxGroupFieldComponent extends BaseFieldComponent {
+  @Input() options: FieldOption[] = [];
+
+  /**
+   * Get the selected option values
+   */
+  get selectedValues(): JsonValue[] {
+    const value: unknown = this.control?.value;
+    return Array.isArray(value) ? value as JsonValue[] : [];
+  }
+
+  /**
+   * Check if an option is selected
+   */
+  isSelected(option: FieldOption): boolean {
+    return this.selectedValues.includes(option.value);
+  }
+
+  /**
+   * Add or remove an option, keeping the values in option order
+   */
+  toggle(option: FieldOption, checked: boolean): void {
+    const selected = new Set(this.selectedValues);
+    if (checked) {
+      selected.add(option.value);
+    } else {
+      selected.delete(option.value);
+    }
+
+    this.control?.setValue(this.options.map(o => o.value).filter(value => selected.has(value)));
+    this.control?.markAsDirty();
+    this.control?.markAsTouched();
+  }
+
+  /**
+   * TrackBy function for options
+   */
+  trackByOptionValue(index: number, option: FieldOption): FieldOption['value'] {
+    return option.value;
+  }
+}
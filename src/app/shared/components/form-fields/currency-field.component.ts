@@ -0,0 +1,138 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule } from '@angular/forms';
+import { ErrorStateMatcher } from '@angular/material/core';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+
+import { BaseFieldComponent } from './base-field.component';
+import { FieldFormatService } from '../../services/field-format.service';
+
+// Errors shown below the input, in order
+const CURRENCY_ERROR_KEYS = ['required', 'min', 'max'];
+
+@Component({
+  selector: 'app-currency-field',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatFormFieldModule,
+    MatInputModule
+  ],
+  template: `
+    <mat-form-field appearance="outline" class="form-field">
+      <mat-label>{{ field.label }}</mat-label>
+      <!-- Formatted while not focused, plain locale number while editing -->
+      <input
+        matInput
+        inputmode="decimal"
+        [value]="inputValue"
+        [placeholder]="placeholder"
+        [readonly]="isDisabled"
+        [errorStateMatcher]="errorStateMatcher"
+        (focus)="onFocus()"
+        (input)="onInput($event)"
+        (blur)="onBlur()">
+      <span matTextSuffix>
+        <select
+          *ngIf="currencies.length > 1; else currencyCode"
+          class="currency-select"
+          [attr.aria-label]="field.label + ' currency'"
+          [value]="currency"
+          [disabled]="isDisabled"
+          (change)="onCurrencyChange($event)">
+          <option *ngFor="let code of currencies" [value]="code">{{ code }}</option>
+        </select>
+        <ng-template #currencyCode>&nbsp;{{ currency }}</ng-template>
+      </span>
+      <mat-hint *ngIf="hasHint">{{ hint }}</mat-hint>
+
+      <!-- Error Messages -->
+      <ng-container *ngFor="let errorKey of errorKeys">
+        <mat-error *ngIf="hasError(errorKey)">
+          {{ getValidationMessage(errorKey) }}
+        </mat-error>
+      </ng-container>
+    </mat-form-field>
+  `,
+  styles: [`
+    .currency-select {
+      margin-left: 4px;
+      border: none;
+      background: transparent;
+      color: inherit;
+      font: inherit;
+    }
+  `]
+})
+export class CurrencyFieldComponent extends BaseFieldComponent {
+  private readonly fieldFormatService = inject(FieldFormatService);
+
+  readonly errorKeys = CURRENCY_ERROR_KEYS;
+
+  /** The input is not bound to the control, so errors follow the field control */
+  readonly errorStateMatcher: ErrorStateMatcher = {
+    isErrorState: () => !!this.control?.invalid && this.dynamicFormService.shouldShowErrors(this.control)
+  };
+
+  private editing = false;
+  private editText = '';
+  private selectedCurrency?: string; // Kept while the amount is empty
+
+  get currencies(): string[] {
+    return this.fieldFormatService.getCurrencies(this.field);
+  }
+
+  /**
+   * Currency of the stored value, or the one picked for an empty amount
+   */
+  get currency(): string {
+    const defaultCurrency = this.selectedCurrency ?? this.fieldFormatService.getDefaultCurrency(this.field);
+    return this.fieldFormatService.toCurrencyValue(this.control?.value, defaultCurrency)?.currency ?? defaultCurrency;
+  }
+
+  get inputValue(): string {
+    if (this.editing) return this.editText;
+    return this.fieldFormatService.formatCurrency(this.fieldFormatService.toCurrencyValue(this.control?.value, this.currency));
+  }
+
+  onFocus(): void {
+    if (this.isDisabled) return;
+    const amount = this.fieldFormatService.toCurrencyValue(this.control?.value, this.currency)?.amount;
+    this.editText = this.fieldFormatService.formatNumberForInput(amount);
+    this.editing = true;
+  }
+
+  onInput(event: Event): void {
+    this.editText = (event.target as HTMLInputElement).value;
+    this.setAmount(this.fieldFormatService.parseNumber(this.editText), this.currency);
+  }
+
+  /**
+   * Round to the currency's minor unit and show the formatted amount again
+   */
+  onBlur(): void {
+    if (!this.editing) return;
+    this.editing = false;
+    this.control?.markAsTouched();
+
+    const value = this.fieldFormatService.toCurrencyValue(this.control?.value);
+    const rounded = value && this.fieldFormatService.roundAmount(value.amount, value.currency);
+    if (value && rounded !== value.amount) {
+      this.setAmount(rounded, value.currency);
+    }
+  }
+
+  onCurrencyChange(event: Event): void {
+    this.selectedCurrency = (event.target as HTMLSelectElement).value;
+    const amount = this.fieldFormatService.toCurrencyValue(this.control?.value)?.amount ?? null;
+    this.setAmount(amount, this.selectedCurrency);
+  }
+
+  // An empty amount stores null so that "required" applies
+  private setAmount(amount: number | null, currency: string): void {
+    this.control?.setValue(amount === null ? null : { amount, currency });
+    this.control?.markAsDirty();
+  }
+}
@@ -1,4 +1,4 @@
-import { Component } from '@angular/core';
+import { Component, OnInit, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { ReactiveFormsModule } from '@angular/forms';
 import { MatFormFieldModule } from '@angular/material/form-field';
@@ -6,7 +6,11 @@ import { MatInputModule } from '@angular/material/input';
 import { MatDatepickerModule } from '@angular/material/datepicker';
 import { MatNativeDateModule } from '@angular/material/core';
 
-import { BaseFieldComponent } from './base-field.component';
+import { BaseFieldComponent, FIELD_VIEW_PROVIDERS } from './base-field.component';
+import { DateConstraints, DateTimeService } from '../../services/date-time.service';
+
+// Errors with dedicated messages; validator errors (minDate, weekdaysOnly, ...) follow them
+const DATE_ERROR_KEYS = ['required', 'matDatepickerMin', 'matDatepickerMax'];
 
 @Component({
   selector: 'app-date-field',
@@ -19,16 +23,18 @@ import { BaseFieldComponent } from './base-field.component';
     MatDatepickerModule,
     MatNativeDateModule
   ],
+  viewProviders: FIELD_VIEW_PROVIDERS,
   template: `
     <mat-form-field appearance="outline" class="form-field">
       <mat-label>{{ field.label }}</mat-label>
       <input 
         matInput 
         [matDatepicker]="picker"
+        [matDatepickerFilter]="dateFilter"
         [formControlName]="field.id"
         [readonly]="isDisabled"
-        [min]="field.attributes?.min"
-        [max]="field.attributes?.max">
+        [min]="minDate"
+        [max]="maxDate">
       <mat-datepicker-toggle matIconSuffix [for]="picker"></mat-datepicker-toggle>
       <mat-datepicker #picker></mat-datepicker>
       <mat-hint *ngIf="hasHint">{{ hint }}</mat-hint>
@@ -43,7 +49,35 @@ import { BaseFieldComponent } from './base-field.component';
       <mat-error *ngIf="hasError('matDatepickerMax')">
         Date must be before maximum allowed date
       </mat-error>
+      <ng-container *ngFor="let errorKey of customErrorKeys">
+        <mat-error *ngIf="hasError(errorKey)">
+          {{ getValidationMessage(errorKey) }}
+        </mat-error>
+      </ng-container>
     </mat-form-field>
   `
 })
-export class DateFieldComponent extends BaseFieldComponent {}
+export class DateFieldComponent extends BaseFieldComponent implements OnInit {
+  private readonly dateTimeService = inject(DateTimeService);
+  private constraints!: DateConstraints;
+
+  customErrorKeys: string[] = [];
+  minDate: Date | null = null;
+  maxDate: Date | null = null;
+
+  /** Picker filter from the weekdaysOnly and blackoutDates validators */
+  readonly dateFilter = (date: Date | null): boolean => {
+    const isoDate = this.dateTimeService.toIsoDate(date);
+    return !isoDate || this.constraints.filter(isoDate);
+  };
+
+  /**
+   * Picker bounds come from the minDate/maxDate validators, else from attributes.min/max
+   */
+  ngOnInit(): void {
+    this.constraints = this.dateTimeService.getDateConstraints(this.field);
+    this.minDate = this.dateTimeService.parseIsoDate(this.constraints.min ?? this.field.attributes?.['min']);
+    this.maxDate = this.dateTimeService.parseIsoDate(this.constraints.max ?? this.field.attributes?.['max']);
+    this.customErrorKeys = this.getCustomErrorKeys(DATE_ERROR_KEYS);
+  }
+}
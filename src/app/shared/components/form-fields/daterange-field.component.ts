@@ -0,0 +1,119 @@
+import { Component, DoCheck, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormControl, FormGroup, ReactiveFormsModule } from '@angular/forms';
+import { ErrorStateMatcher, MatNativeDateModule } from '@angular/material/core';
+import { MatDatepickerModule } from '@angular/material/datepicker';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+
+import { BaseFieldComponent } from './base-field.component';
+import { DateConstraints, DateTimeService } from '../../services/date-time.service';
+import { DateRangeValue } from '../../models';
+
+// Errors shown below the inputs, in order
+const DATERANGE_ERROR_KEYS = ['required', 'dateRange', 'minDate', 'maxDate', 'weekdaysOnly', 'blackoutDates'];
+
+@Component({
+  selector: 'app-daterange-field',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatDatepickerModule,
+    MatNativeDateModule
+  ],
+  template: `
+    <mat-form-field appearance="outline" class="form-field">
+      <mat-label>{{ field.label }}</mat-label>
+      <mat-date-range-input
+        [formGroup]="range"
+        [rangePicker]="picker"
+        [min]="minDate"
+        [max]="maxDate"
+        [dateFilter]="dateFilter"
+        [disabled]="isDisabled">
+        <input matStartDate formControlName="start" placeholder="Start date" [errorStateMatcher]="errorStateMatcher" (blur)="control?.markAsTouched()">
+        <input matEndDate formControlName="end" placeholder="End date" [errorStateMatcher]="errorStateMatcher" (blur)="control?.markAsTouched()">
+      </mat-date-range-input>
+      <mat-datepicker-toggle matIconSuffix [for]="picker"></mat-datepicker-toggle>
+      <mat-date-range-picker #picker></mat-date-range-picker>
+      <mat-hint *ngIf="hasHint">{{ hint }}</mat-hint>
+      
+      <!-- Error Messages -->
+      <ng-container *ngFor="let errorKey of errorKeys">
+        <mat-error *ngIf="hasError(errorKey)">
+          {{ getValidationMessage(errorKey) }}
+        </mat-error>
+      </ng-container>
+    </mat-form-field>
+  `
+})
+export class DateRangeFieldComponent extends BaseFieldComponent implements OnInit, DoCheck {
+  private readonly dateTimeService = inject(DateTimeService);
+  private constraints!: DateConstraints;
+
+  readonly errorKeys = DATERANGE_ERROR_KEYS;
+
+  /** Picker-facing copy of the field value, holding local Date objects */
+  readonly range = new FormGroup({
+    start: new FormControl<Date | null>(null),
+    end: new FormControl<Date | null>(null)
+  });
+
+  /** The inputs are bound to the picker copy, so errors follow the field control */
+  readonly errorStateMatcher: ErrorStateMatcher = {
+    isErrorState: () => !!this.control?.invalid && this.dynamicFormService.shouldShowErrors(this.control)
+  };
+
+  minDate: Date | null = null;
+  maxDate: Date | null = null;
+
+  readonly dateFilter = (date: Date | null): boolean => {
+    const isoDate = this.dateTimeService.toIsoDate(date);
+    return !isoDate || this.constraints.filter(isoDate);
+  };
+
+  ngOnInit(): void {
+    this.constraints = this.dateTimeService.getDateConstraints(this.field);
+    this.minDate = this.dateTimeService.parseIsoDate(this.constraints.min);
+    this.maxDate = this.dateTimeService.parseIsoDate(this.constraints.max);
+    this.syncFromControl();
+
+    this.range.valueChanges.subscribe(() => {
+      const value = this.toRangeValue();
+      this.control?.setValue(value.start || value.end ? value : null);
+      this.control?.markAsDirty();
+    });
+  }
+
+  /**
+   * Picks up values written to the field control without events (e.g. when a ticket is loaded)
+   */
+  ngDoCheck(): void {
+    if (this.range && this.control) {
+      this.syncFromControl();
+    }
+  }
+
+  // === PRIVATE HELPER METHODS ===
+
+  private syncFromControl(): void {
+    const stored = this.dateTimeService.toDateRange(this.control?.value);
+    const current = this.toRangeValue();
+    if (stored.start !== current.start || stored.end !== current.end) {
+      this.range.setValue({
+        start: this.dateTimeService.parseIsoDate(stored.start),
+        end: this.dateTimeService.parseIsoDate(stored.end)
+      }, { emitEvent: false });
+    }
+  }
+
+  private toRangeValue(): DateRangeValue {
+    return {
+      start: this.dateTimeService.toIsoDate(this.range.controls.start.value),
+      end: this.dateTimeService.toIsoDate(this.range.controls.end.value)
+    };
+  }
+}
@@ -0,0 +1,85 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule } from '@angular/forms';
+import { ErrorStateMatcher } from '@angular/material/core';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+
+import { BaseFieldComponent } from './base-field.component';
+import { DateTimeService } from '../../services/date-time.service';
+
+// Errors shown below the input, in order
+const DATETIME_ERROR_KEYS = ['required', 'minDate', 'maxDate', 'weekdaysOnly', 'blackoutDates'];
+
+@Component({
+  selector: 'app-datetime-field',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatFormFieldModule,
+    MatInputModule
+  ],
+  template: `
+    <mat-form-field appearance="outline" class="form-field">
+      <mat-label>{{ field.label }}</mat-label>
+      <!-- Edited as wall time in the configured time zone, stored as a UTC instant -->
+      <input 
+        matInput 
+        type="datetime-local"
+        [value]="inputValue"
+        [readonly]="isDisabled"
+        [min]="minInputValue"
+        [max]="maxInputValue"
+        [errorStateMatcher]="errorStateMatcher"
+        (change)="onInputChange($event)"
+        (blur)="control?.markAsTouched()">
+      <mat-hint *ngIf="hasHint">{{ hint }}</mat-hint>
+      <mat-hint align="end">{{ timeZone }}</mat-hint>
+      
+      <!-- Error Messages -->
+      <ng-container *ngFor="let errorKey of errorKeys">
+        <mat-error *ngIf="hasError(errorKey)">
+          {{ getValidationMessage(errorKey) }}
+        </mat-error>
+      </ng-container>
+    </mat-form-field>
+  `
+})
+export class DateTimeFieldComponent extends BaseFieldComponent {
+  private readonly dateTimeService = inject(DateTimeService);
+
+  readonly errorKeys = DATETIME_ERROR_KEYS;
+
+  /** The input is not bound to the control, so errors follow the field control */
+  readonly errorStateMatcher: ErrorStateMatcher = {
+    isErrorState: () => !!this.control?.invalid && this.dynamicFormService.shouldShowErrors(this.control)
+  };
+
+  get timeZone(): string {
+    return this.dateTimeService.timeZone;
+  }
+
+  get inputValue(): string {
+    return this.dateTimeService.toZonedInputValue(this.control?.value);
+  }
+
+  get minInputValue(): string | null {
+    const min = this.dateTimeService.getDateConstraints(this.field).min;
+    return min ? `${min}T00:00` : null;
+  }
+
+  get maxInputValue(): string | null {
+    const max = this.dateTimeService.getDateConstraints(this.field).max;
+    return max ? `${max}T23:59` : null;
+  }
+
+  /**
+   * Store the entered wall time as an ISO instant
+   */
+  onInputChange(event: Event): void {
+    const value = (event.target as HTMLInputElement).value;
+    this.control?.setValue(this.dateTimeService.fromZonedInputValue(value));
+    this.control?.markAsDirty();
+  }
+}
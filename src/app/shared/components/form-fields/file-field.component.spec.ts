@@ -0,0 +1,118 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { FormControl, FormGroup } from '@angular/forms';
+import { Observable, Subject, of } from 'rxjs';
+
+import { FileUploadEvent, FormField } from '../../models';
+import { FileUploadService } from '../../services/file-upload.service';
+import { FileFieldComponent } from './file-field.component';
+
+// Upload service whose uploads are driven by the test
+class TestFileUploadService extends FileUploadService {
+  readonly uploads: Subject<FileUploadEvent>[] = [];
+  readonly deleted: string[] = [];
+
+  upload(): Observable<FileUploadEvent> {
+    const upload = new Subject<FileUploadEvent>();
+    this.uploads.push(upload);
+    return upload;
+  }
+
+  delete(fileId: string): Observable<void> {
+    this.deleted.push(fileId);
+    return of(undefined);
+  }
+}
+
+describe('FileFieldComponent', () => {
+  let fixture: ComponentFixture<FileFieldComponent>;
+  let component: FileFieldComponent;
+  let uploadService: TestFileUploadService;
+  let control: FormControl;
+
+  const pdf = (name = 'contract.pdf', size = 1024) => new File(['x'.repeat(size)], name, { type: 'application/pdf' });
+  const complete = (upload: Subject<FileUploadEvent>, fileId: string) => {
+    upload.next({
+      type: 'complete',
+      response: { fileId, url: `blob:${fileId}`, fileName: 'contract.pdf', fileSize: 1024, mimeType: 'application/pdf', uploadedAt: new Date() }
+    });
+    upload.complete();
+  };
+
+  const createField = (attributes: FormField['attributes'] = {}) => {
+    control = new FormControl(null);
+    fixture = TestBed.createComponent(FileFieldComponent);
+    component = fixture.componentInstance;
+    component.field = { id: 'attachment', label: 'Attachment', type: 'file', attributes: { accept: 'application/pdf', ...attributes } };
+    component.formGroup = new FormGroup({ attachment: control });
+    fixture.detectChanges();
+  };
+
+  beforeEach(() => {
+    uploadService = new TestFileUploadService();
+    TestBed.configureTestingModule({
+      imports: [FileFieldComponent],
+      providers: [{ provide: FileUploadService, useValue: uploadService }]
+    });
+  });
+
+  afterEach(() => fixture.destroy());
+
+  it('should keep the control invalid while uploading and store the uploaded file', () => {
+    createField();
+
+    component.addFiles([pdf()]);
+    expect(control.hasError('uploading')).toBeTrue();
+    expect(component.items[0].status).toBe('uploading');
+
+    uploadService.uploads[0].next({
+      type: 'progress',
+      progress: { loaded: 512, total: 1024, percentage: 50, speed: 1024, remainingTime: 0.5 }
+    });
+    expect(component.items[0].progress).toBe(50);
+
+    complete(uploadService.uploads[0], 'file-1');
+    expect(control.hasError('uploading')).toBeFalse();
+    expect(control.value).toEqual(jasmine.objectContaining({ fileId: 'file-1', fileName: 'contract.pdf' }));
+  });
+
+  it('should retry a failed upload', () => {
+    createField();
+
+    component.addFiles([pdf()]);
+    uploadService.uploads[0].error(new Error('Network down'));
+    expect(component.items[0].status).toBe('error');
+    expect(component.items[0].error).toBe('Network down');
+    expect(control.hasError('uploading')).toBeFalse();
+
+    component.retry(component.items[0]);
+    expect(uploadService.uploads.length).toBe(2);
+    expect(control.hasError('uploading')).toBeTrue();
+
+    complete(uploadService.uploads[1], 'file-2');
+    expect(component.items[0].status).toBe('done');
+    expect(control.value).toEqual(jasmine.objectContaining({ fileId: 'file-2' }));
+  });
+
+  it('should reject files of other types and over the size limit', () => {
+    createField({ maxSize: 2048 });
+
+    component.addFiles([new File(['x'], 'notes.exe', { type: 'application/x-msdownload' })]);
+    expect(component.rejections).toEqual(['notes.exe: file type is not allowed']);
+
+    component.addFiles([pdf('large.pdf', 4096)]);
+    expect(component.rejections).toEqual(['large.pdf: file exceeds 2.0 KB']);
+    expect(uploadService.uploads.length).toBe(0);
+    expect(component.items).toEqual([]);
+  });
+
+  it('should delete a file uploaded in this session when it is replaced', () => {
+    createField();
+
+    component.addFiles([pdf()]);
+    complete(uploadService.uploads[0], 'file-1');
+    component.addFiles([pdf('amended.pdf')]);
+
+    expect(uploadService.deleted).toEqual(['file-1']);
+    expect(component.items.map(item => item.fileName)).toEqual(['amended.pdf']);
+  });
+});
@@ -0,0 +1,504 @@
+import { Component, OnInit, OnDestroy, ChangeDetectorRef, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule, ValidatorFn } from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { Subscription } from 'rxjs';
+
+import { BaseFieldComponent } from './base-field.component';
+import { APP_CONSTANTS } from '../../../core/config/app.config';
+import { FileFieldValue } from '../../models';
+import { FileUploadService } from '../../services/file-upload.service';
+
+// Error set on the control while uploads are running, so the form cannot be saved without their files
+const UPLOADING_ERROR_KEY = 'uploading';
+
+// File shown in the field: uploading, uploaded, or failed
+export interface FileFieldItem {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  status: 'uploading' | 'done' | 'error';
+  progress: number;
+  thumbnailUrl: string | null;
+  error?: string;
+  file?: File; // Only set for files picked in this session (enables retry)
+  value?: FileFieldValue; // Set once uploaded
+}
+
+@Component({
+  selector: 'app-file-field',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressBarModule
+  ],
+  template: `
+    <div class="file-field" role="group" [attr.aria-labelledby]="labelId">
+      <span class="field-label" [id]="labelId">{{ field.label }}</span>
+
+      <!-- Drop Zone -->
+      <div
+        class="drop-zone"
+        [class.drag-over]="isDragOver"
+        [class.disabled]="isDisabled || isFull"
+        role="button"
+        tabindex="0"
+        (click)="fileInput.click()"
+        (keydown.enter)="fileInput.click()"
+        (dragover)="onDragOver($event)"
+        (dragleave)="isDragOver = false"
+        (drop)="onDrop($event)">
+        <mat-icon>cloud_upload</mat-icon>
+        <span>Drop {{ multiple ? 'files' : 'a file' }} here or <strong>browse</strong></span>
+        <span class="drop-zone-hint">{{ acceptLabel }} · up to {{ formatFileSize(maxSize) }}</span>
+        <input
+          #fileInput
+          type="file"
+          hidden
+          [accept]="accept.join(',')"
+          [multiple]="multiple"
+          [disabled]="isDisabled || isFull"
+          (change)="onFileInputChange($event)">
+      </div>
+
+      <!-- Rejected Files -->
+      <div *ngFor="let rejection of rejections" class="field-error">{{ rejection }}</div>
+
+      <!-- File List -->
+      <ul *ngIf="items.length" class="file-list">
+        <li *ngFor="let item of items; trackBy: trackByItemId" class="file-item" [class.failed]="item.status === 'error'">
+          <img *ngIf="item.thumbnailUrl; else fileIcon" class="file-thumbnail" [src]="item.thumbnailUrl" [alt]="item.fileName">
+          <ng-template #fileIcon><mat-icon class="file-icon">description</mat-icon></ng-template>
+
+          <div class="file-details">
+            <span class="file-name">{{ item.fileName }}</span>
+            <span class="file-meta">
+              {{ formatFileSize(item.fileSize) }}
+              <ng-container *ngIf="item.status === 'uploading'"> · {{ item.progress }}%</ng-container>
+              <ng-container *ngIf="item.status === 'error'"> · {{ item.error }}</ng-container>
+            </span>
+            <mat-progress-bar *ngIf="item.status === 'uploading'" mode="determinate" [value]="item.progress"></mat-progress-bar>
+          </div>
+
+          <button *ngIf="item.status === 'uploading'" mat-icon-button type="button" aria-label="Cancel upload" (click)="cancel(item)">
+            <mat-icon>close</mat-icon>
+          </button>
+          <button *ngIf="item.status === 'error' && item.file" mat-icon-button type="button" aria-label="Retry upload" (click)="retry(item)">
+            <mat-icon>refresh</mat-icon>
+          </button>
+          <button *ngIf="item.status !== 'uploading' && !isDisabled" mat-icon-button type="button" aria-label="Remove file" (click)="remove(item)">
+            <mat-icon>delete</mat-icon>
+          </button>
+        </li>
+      </ul>
+
+      <div *ngIf="hasHint" class="field-hint">{{ hint }}</div>
+
+      <!-- Error Messages -->
+      <div *ngIf="hasError('required')" class="field-error">
+        {{ getValidationMessage('required') }}
+      </div>
+      <div *ngIf="hasError('uploading')" class="field-error">
+        Wait for uploads to finish
+      </div>
+    </div>
+  `,
+  styles: [`
+    .file-field {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      margin-bottom: 16px;
+    }
+
+    .field-label {
+      font-size: 14px;
+      color: var(--mat-sys-on-surface-variant);
+    }
+
+    .drop-zone {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 4px;
+      padding: 20px;
+      border: 2px dashed var(--mat-sys-outline-variant);
+      border-radius: 12px;
+      color: var(--mat-sys-on-surface-variant);
+      text-align: center;
+      cursor: pointer;
+    }
+
+    .drop-zone.drag-over {
+      border-color: var(--mat-sys-primary);
+      background: var(--mat-sys-primary-container);
+    }
+
+    .drop-zone.disabled {
+      opacity: 0.6;
+      cursor: default;
+      pointer-events: none;
+    }
+
+    .drop-zone-hint {
+      font-size: 12px;
+    }
+
+    .file-list {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      margin: 0;
+      padding: 0;
+      list-style: none;
+    }
+
+    .file-item {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      padding: 8px;
+      border: 1px solid var(--mat-sys-outline-variant);
+      border-radius: 8px;
+    }
+
+    .file-item.failed {
+      border-color: var(--mat-sys-error);
+    }
+
+    .file-thumbnail {
+      width: 40px;
+      height: 40px;
+      object-fit: cover;
+      border-radius: 4px;
+    }
+
+    .file-icon {
+      width: 40px;
+      color: var(--mat-sys-primary);
+    }
+
+    .file-details {
+      display: flex;
+      flex: 1;
+      flex-direction: column;
+      gap: 4px;
+      min-width: 0;
+    }
+
+    .file-name {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .file-meta,
+    .field-hint {
+      font-size: 12px;
+      color: var(--mat-sys-on-surface-variant);
+    }
+
+    .field-error {
+      font-size: 12px;
+      color: var(--mat-sys-error);
+    }
+  `]
+})
+export class FileFieldComponent extends BaseFieldComponent implements OnInit, OnDestroy {
+  private readonly fileUploadService = inject(FileUploadService);
+  private readonly cdr = inject(ChangeDetectorRef);
+
+  private readonly uploads = new Map<string, Subscription>();
+  private readonly previewUrls = new Set<string>();
+  private nextItemId = 0;
+
+  private readonly uploadingValidator: ValidatorFn = () =>
+    this.uploads.size > 0 ? { [UPLOADING_ERROR_KEY]: true } : null;
+
+  items: FileFieldItem[] = [];
+  rejections: string[] = [];
+  isDragOver = false;
+
+  ngOnInit(): void {
+    this.items = this.readControlValue().map(value => ({
+      id: this.createItemId(),
+      fileName: value.fileName,
+      fileSize: value.fileSize,
+      mimeType: value.mimeType,
+      status: 'done',
+      progress: 100,
+      thumbnailUrl: value.thumbnailUrl,
+      value
+    }));
+    this.control?.addValidators(this.uploadingValidator);
+  }
+
+  ngOnDestroy(): void {
+    this.uploads.forEach(subscription => subscription.unsubscribe());
+    this.uploads.clear();
+    this.control?.removeValidators(this.uploadingValidator);
+    this.control?.updateValueAndValidity();
+    this.previewUrls.forEach(url => URL.revokeObjectURL(url));
+    this.previewUrls.clear();
+  }
+
+  /**
+   * Whether the field accepts several files (attributes.multiple)
+   */
+  get multiple(): boolean {
+    return !!this.field.attributes?.['multiple'];
+  }
+
+  /**
+   * Allowed MIME types (attributes.accept), defaulting to APP_CONSTANTS.FORMS.ALLOWED_FILE_TYPES
+   */
+  get accept(): string[] {
+    const accept: unknown = this.field.attributes?.['accept'];
+    if (Array.isArray(accept)) return accept.filter((type): type is string => typeof type === 'string');
+    if (typeof accept === 'string') return accept.split(',').map(type => type.trim());
+    return [...APP_CONSTANTS.FORMS.ALLOWED_FILE_TYPES];
+  }
+
+  /**
+   * Maximum size per file in bytes (attributes.maxSize), defaulting to APP_CONSTANTS.FORMS.MAX_FILE_SIZE
+   */
+  get maxSize(): number {
+    const maxSize: unknown = this.field.attributes?.['maxSize'];
+    return typeof maxSize === 'number' && maxSize > 0 ? maxSize : APP_CONSTANTS.FORMS.MAX_FILE_SIZE;
+  }
+
+  /**
+   * Maximum number of files (attributes.maxFiles, always 1 for single file fields)
+   */
+  get maxFiles(): number {
+    const maxFiles: unknown = this.field.attributes?.['maxFiles'];
+    if (!this.multiple) return 1;
+    return typeof maxFiles === 'number' && maxFiles > 0 ? maxFiles : Infinity;
+  }
+
+  get isFull(): boolean {
+    return this.items.filter(item => item.status !== 'error').length >= this.maxFiles;
+  }
+
+  get acceptLabel(): string {
+    return this.accept.map(type => type.split('/')[1]?.toUpperCase() || type).join(', ');
+  }
+
+  onDragOver(event: DragEvent): void {
+    event.preventDefault();
+    this.isDragOver = !this.isDisabled;
+  }
+
+  onDrop(event: DragEvent): void {
+    event.preventDefault();
+    this.isDragOver = false;
+    if (!this.isDisabled && event.dataTransfer?.files) {
+      this.addFiles(Array.from(event.dataTransfer.files));
+    }
+  }
+
+  onFileInputChange(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    this.addFiles(Array.from(input.files || []));
+    input.value = ''; // Allow picking the same file again
+  }
+
+  /**
+   * Validate and start uploading picked files
+   */
+  addFiles(files: File[]): void {
+    this.rejections = [];
+
+    (this.multiple ? files : files.slice(0, 1)).forEach(file => {
+      const rejection = this.validateFile(file);
+      if (rejection) {
+        this.rejections.push(rejection);
+        return;
+      }
+
+      // A single file field replaces its current file
+      if (!this.multiple) {
+        [...this.items].forEach(existing => this.remove(existing));
+      }
+
+      const item: FileFieldItem = {
+        id: this.createItemId(),
+        fileName: file.name,
+        fileSize: file.size,
+        mimeType: file.type,
+        status: 'uploading',
+        progress: 0,
+        thumbnailUrl: this.createPreviewUrl(file),
+        file
+      };
+      this.items = [...this.items, item];
+      this.startUpload(item);
+    });
+
+    this.control?.markAsTouched();
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Cancel an upload in progress
+   */
+  cancel(item: FileFieldItem): void {
+    this.discard(item);
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Retry a failed upload
+   */
+  retry(item: FileFieldItem): void {
+    if (!item.file) return;
+
+    item.status = 'uploading';
+    item.progress = 0;
+    item.error = undefined;
+    this.startUpload(item);
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Remove a file from the field
+   */
+  remove(item: FileFieldItem): void {
+    // Files uploaded in this session are not referenced anywhere else yet
+    if (item.file && item.value) {
+      this.fileUploadService.delete(item.value.fileId).subscribe({
+        error: error => console.error('Failed to delete removed file:', error)
+      });
+    }
+
+    this.discard(item);
+    this.updateControlValue();
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Format a byte count for display
+   */
+  formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  trackByItemId(index: number, item: FileFieldItem): string {
+    return item.id;
+  }
+
+  // === PRIVATE HELPER METHODS ===
+
+  private validateFile(file: File): string | null {
+    if (!this.isAcceptedType(file.type)) {
+      return `${file.name}: file type is not allowed`;
+    }
+    if (file.size > this.maxSize) {
+      return `${file.name}: file exceeds ${this.formatFileSize(this.maxSize)}`;
+    }
+    if (this.multiple && this.isFull) {
+      return `${file.name}: no more than ${this.maxFiles} files allowed`;
+    }
+    return null;
+  }
+
+  /**
+   * Matches exact MIME types and wildcards such as "image/*"
+   */
+  private isAcceptedType(mimeType: string): boolean {
+    return this.accept.some(type => type.endsWith('/*')
+      ? mimeType.startsWith(type.slice(0, -1))
+      : type === mimeType);
+  }
+
+  private startUpload(item: FileFieldItem): void {
+    if (!item.file) return;
+
+    const subscription = this.fileUploadService.upload(item.file).subscribe({
+      next: event => {
+        if (event.type === 'progress') {
+          item.progress = event.progress.percentage;
+        } else {
+          const { fileId, fileName, fileSize, mimeType, url, thumbnailUrl } = event.response;
+          item.status = 'done';
+          item.progress = 100;
+          item.value = { fileId, fileName, fileSize, mimeType, url, thumbnailUrl: thumbnailUrl ?? null };
+          this.updateControlValue();
+        }
+        this.cdr.markForCheck();
+      },
+      error: error => {
+        item.status = 'error';
+        item.error = error instanceof Error ? error.message : 'Upload failed';
+        this.endUpload(item);
+        this.cdr.markForCheck();
+      },
+      complete: () => this.endUpload(item)
+    });
+
+    // Uploads settling synchronously have already ended
+    if (!subscription.closed) {
+      this.uploads.set(item.id, subscription);
+      this.control?.updateValueAndValidity();
+    }
+  }
+
+  /**
+   * Forgets an upload and revalidates the control once no upload is running
+   */
+  private endUpload(item: FileFieldItem): void {
+    if (this.uploads.delete(item.id)) {
+      this.control?.updateValueAndValidity();
+    }
+  }
+
+  /**
+   * Drops an item, cancelling its upload if still running and releasing its preview
+   */
+  private discard(item: FileFieldItem): void {
+    this.uploads.get(item.id)?.unsubscribe();
+    this.endUpload(item);
+    this.items = this.items.filter(existing => existing !== item);
+
+    if (item.thumbnailUrl && this.previewUrls.delete(item.thumbnailUrl)) {
+      URL.revokeObjectURL(item.thumbnailUrl);
+    }
+  }
+
+  private updateControlValue(): void {
+    const values = this.items
+      .map(item => item.value)
+      .filter((value): value is FileFieldValue => !!value);
+
+    this.control?.setValue(this.multiple ? values : values[0] ?? null);
+    this.control?.markAsDirty();
+  }
+
+  private readControlValue(): FileFieldValue[] {
+    const value: unknown = this.control?.value;
+    const values: unknown[] = Array.isArray(value) ? value : value ? [value] : [];
+    return values.filter((entry): entry is FileFieldValue =>
+      typeof entry === 'object' && entry !== null && !Array.isArray(entry) && typeof (entry as FileFieldValue).fileId === 'string'
+    );
+  }
+
+  private createPreviewUrl(file: File): string | null {
+    if (!file.type.startsWith('image/')) return null;
+
+    const url = URL.createObjectURL(file);
+    this.previewUrls.add(url);
+    return url;
+  }
+
+  private createItemId(): string {
+    return `${this.field.id}-${this.nextItemId++}`;
+  }
+}
@@ -9,3 +9,18 @@ export * from './radio-field.component';
 export * from './number-field.component';
 export * from './date-field.component';
 export * from './checkbox-field.component';
+export * from './file-field.component';
+export * from './multiselect-field.component';
+export * from './checkbox-group-field.component';
+export * from './tags-field.component';
+export * from './datetime-field.component';
+export * from './time-field.component';
+export * from './daterange-field.component';
+export * from './richtext-field.component';
+export * from './currency-field.component';
+export * from './percentage-field.component';
+export * from './phone-field.component';
+export * from './url-field.component';
+export * from './masked-field.component';
+export * from './table-field.component';
+export * from './lookup-field.component';
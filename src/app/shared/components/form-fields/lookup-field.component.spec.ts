@@ -0,0 +1,121 @@
+import { Component } from '@angular/core';
+import { ComponentFixture, TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { FormControl, FormGroup, ReactiveFormsModule } from '@angular/forms';
+import { By } from '@angular/platform-browser';
+import { provideNoopAnimations } from '@angular/platform-browser/animations';
+import { Observable, of } from 'rxjs';
+
+import { FormField, User } from '../../models';
+import { DirectoryService, UserSearchFilter } from '../../services/directory.service';
+import { LookupFieldComponent } from './lookup-field.component';
+
+const user = (id: string, name: string, isActive = true): User => ({
+  id,
+  createdAt: new Date(),
+  createdBy: 'system',
+  updatedAt: new Date(),
+  version: 1,
+  username: id,
+  email: `${id}@example.com`,
+  firstName: name.split(' ')[0],
+  lastName: name.split(' ')[1],
+  displayName: name,
+  name,
+  roles: ['user'],
+  department: 'Engineering',
+  isActive
+});
+
+// Directory that answers at once and records the searches it gets
+class TestDirectoryService extends DirectoryService {
+  readonly users = [user('ada', 'Ada Lovelace'), user('alan', 'Alan Turing', false)];
+  readonly searches: { term: string; filter: UserSearchFilter }[] = [];
+
+  override searchUsers(term: string, filter: UserSearchFilter = {}): Observable<User[]> {
+    this.searches.push({ term, filter });
+    return of(this.users.filter(candidate => candidate.isActive));
+  }
+
+  override getUsers(ids: string[]): Observable<User[]> {
+    return of(this.users.filter(candidate => ids.includes(candidate.id)));
+  }
+}
+
+// Pickers are rendered inside the section's form group, like in the form section
+@Component({
+  imports: [ReactiveFormsModule, LookupFieldComponent],
+  template: '<form [formGroup]="form"><app-lookup-field [field]="field" [formGroup]="form" /></form>'
+})
+class LookupHostComponent {
+  field!: FormField;
+  form!: FormGroup;
+}
+
+describe('LookupFieldComponent', () => {
+  let fixture: ComponentFixture<LookupHostComponent>;
+  let component: LookupFieldComponent;
+  let directory: TestDirectoryService;
+  let control: FormControl;
+
+  const createField = (value: unknown, attributes: FormField['attributes'] = {}, extra: Partial<FormField> = {}) => {
+    control = new FormControl(value);
+    fixture = TestBed.createComponent(LookupHostComponent);
+    fixture.componentInstance.field = { id: 'buddy', label: 'Buddy', type: 'user-picker', attributes, ...extra };
+    fixture.componentInstance.form = new FormGroup({ buddy: control });
+    fixture.detectChanges();
+    component = fixture.debugElement.query(By.directive(LookupFieldComponent)).componentInstance as LookupFieldComponent;
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [LookupHostComponent],
+      providers: [provideNoopAnimations(), { provide: DirectoryService, useClass: TestDirectoryService }]
+    });
+    directory = TestBed.inject(DirectoryService) as TestDirectoryService;
+  });
+
+  afterEach(() => fixture.destroy());
+
+  it('should search once typing settles, within the configured department', fakeAsync(() => {
+    createField(null, { department: 'Engineering' });
+
+    component.onSearch('a');
+    component.onSearch('ad');
+    tick(300);
+
+    expect(directory.searches).toEqual([{ term: 'ad', filter: { department: 'Engineering' } }]);
+    expect(component.searchResults.map(item => item.label)).toEqual(['Ada Lovelace']);
+    expect(component.searched).toBeTrue();
+  }));
+
+  it('should replace the selection of a single picker and add to a multiple one', () => {
+    const input = document.createElement('input');
+    createField('alan');
+    component.select({ id: 'ada', label: 'Ada Lovelace', description: '' }, input);
+    expect(control.value).toBe('ada');
+    expect(control.dirty).toBeTrue();
+
+    fixture.destroy();
+    createField(['alan'], { multiple: true });
+    component.select({ id: 'ada', label: 'Ada Lovelace', description: '' }, input);
+    expect(control.value).toEqual(['alan', 'ada']);
+
+    component.remove('alan');
+    expect(control.value).toEqual(['ada']);
+  });
+
+  it('should show the names of stored IDs and keep unknown IDs removable', () => {
+    createField(['alan', 'grace'], { multiple: true });
+
+    expect(component.selectedItems.map(item => item.label)).toEqual(['Alan Turing', 'Unknown user (grace)']);
+    expect(component.selectedItems[0].description).toBe('Inactive');
+  });
+
+  it('should stop searching once maxItems are selected', () => {
+    createField(['ada'], { multiple: true }, { validators: [{ name: 'maxItems', args: 2 }] });
+    expect(component.canSelectMore).toBeTrue();
+
+    control.setValue(['ada', 'alan']);
+    expect(component.canSelectMore).toBeFalse();
+  });
+});
@@ -0,0 +1,299 @@
+import { Component, OnInit, OnDestroy, ChangeDetectorRef, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule } from '@angular/forms';
+import { MatAutocompleteModule } from '@angular/material/autocomplete';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatIconModule } from '@angular/material/icon';
+import { Observable, Subject, catchError, debounceTime, distinctUntilChanged, filter, map, of, startWith, switchMap, takeUntil, tap } from 'rxjs';
+
+import { BaseFieldComponent, FIELD_VIEW_PROVIDERS } from './base-field.component';
+import { FieldValidators, TicketReference, User } from '../../models';
+import { DirectoryService } from '../../services/directory.service';
+import { UtilsService } from '../../services/utils.service';
+
+// Errors shown below the input, in order
+const LOOKUP_ERROR_KEYS = ['required', 'minItems', 'maxItems'];
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// User (user-picker) or ticket (ticket-picker) as shown in the chips and the search results
+interface LookupItem {
+  id: string;
+  label: string;
+  description: string;
+  initials?: string; // Users
+  color?: string; // Users
+  ticketNumber?: string; // Tickets
+}
+
+@Component({
+  selector: 'app-lookup-field',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatAutocompleteModule,
+    MatChipsModule,
+    MatFormFieldModule,
+    MatIconModule
+  ],
+  viewProviders: FIELD_VIEW_PROVIDERS,
+  template: `
+    <mat-form-field appearance="outline" class="form-field">
+      <mat-label>{{ field.label }}</mat-label>
+      <mat-chip-grid #chipGrid [formControlName]="field.id" [disabled]="isDisabled">
+        <mat-chip-row
+          *ngFor="let item of selectedItems; trackBy: trackByItemId"
+          [removable]="!isDisabled"
+          (removed)="remove(item.id)">
+          <span *ngIf="item.initials" matChipAvatar class="lookup-avatar" [style.background-color]="item.color">
+            {{ item.initials }}
+          </span>
+          <span *ngIf="item.ticketNumber" class="ticket-number">{{ item.ticketNumber }}</span>
+          {{ item.label }}
+          <button *ngIf="!isDisabled" matChipRemove [attr.aria-label]="'Remove ' + item.label">
+            <mat-icon>cancel</mat-icon>
+          </button>
+        </mat-chip-row>
+        <input
+          #searchInput
+          [placeholder]="canSelectMore ? placeholder || searchPlaceholder : ''"
+          [readonly]="isDisabled || !canSelectMore"
+          [matChipInputFor]="chipGrid"
+          [matAutocomplete]="results"
+          (focus)="onSearch(searchInput.value)"
+          (input)="onSearch(searchInput.value)">
+      </mat-chip-grid>
+      <mat-autocomplete #results="matAutocomplete" (optionSelected)="select($event.option.value, searchInput)">
+        <mat-option *ngIf="searching" disabled>Searching...</mat-option>
+        <ng-container *ngIf="!searching">
+          <mat-option
+            *ngFor="let item of searchResults; trackBy: trackByItemId"
+            class="lookup-option"
+            [value]="item"
+            [disabled]="isSelected(item.id)">
+            <span *ngIf="item.initials" class="lookup-avatar" [style.background-color]="item.color">{{ item.initials }}</span>
+            <span *ngIf="item.ticketNumber" class="ticket-number">{{ item.ticketNumber }}</span>
+            <span class="lookup-text">
+              <span class="lookup-label">{{ item.label }}</span>
+              <span class="lookup-description">{{ item.description }}</span>
+            </span>
+          </mat-option>
+          <mat-option *ngIf="searched && !searchResults.length" disabled>No matches</mat-option>
+        </ng-container>
+      </mat-autocomplete>
+      <mat-hint *ngIf="hasHint">{{ hint }}</mat-hint>
+
+      <!-- Error Messages -->
+      <ng-container *ngFor="let errorKey of errorKeys">
+        <mat-error *ngIf="hasError(errorKey)">
+          {{ getValidationMessage(errorKey) }}
+        </mat-error>
+      </ng-container>
+    </mat-form-field>
+  `,
+  styles: [`
+    .lookup-avatar {
+      display: inline-flex;
+      align-items: center;
+      justify-content: center;
+      flex-shrink: 0;
+      width: 24px;
+      height: 24px;
+      border-radius: 50%;
+      font-size: 11px;
+      font-weight: 600;
+      color: #fff;
+    }
+
+    .ticket-number {
+      margin-right: 6px;
+      font-family: monospace;
+      font-size: 12px;
+      color: var(--mat-sys-primary);
+    }
+
+    ::ng-deep .lookup-option .mdc-list-item__primary-text {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+
+    .lookup-text {
+      display: flex;
+      flex-direction: column;
+      line-height: 1.3;
+    }
+
+    .lookup-description {
+      font-size: 12px;
+      color: var(--mat-sys-on-surface-variant);
+    }
+  `]
+})
+export class LookupFieldComponent extends BaseFieldComponent implements OnInit, OnDestroy {
+  private readonly directoryService = inject(DirectoryService);
+  private readonly utilsService = inject(UtilsService);
+  private readonly cdr = inject(ChangeDetectorRef);
+  private readonly search$ = new Subject<string>();
+  private readonly destroy$ = new Subject<void>();
+  // Users and tickets seen in search results or resolved from stored IDs
+  private readonly knownItems = new Map<string, LookupItem>();
+
+  readonly errorKeys = LOOKUP_ERROR_KEYS;
+  searchResults: LookupItem[] = [];
+  searching = false;
+  searched = false;
+
+  ngOnInit(): void {
+    this.search$.pipe(
+      debounceTime(SEARCH_DEBOUNCE_MS),
+      map(term => term.trim()),
+      distinctUntilChanged(),
+      tap(() => {
+        this.searching = true;
+        this.cdr.markForCheck();
+      }),
+      switchMap(term => this.searchDirectory(term).pipe(catchError(() => of([])))),
+      takeUntil(this.destroy$)
+    ).subscribe(items => {
+      items.forEach(item => this.knownItems.set(item.id, item));
+      this.searchResults = items;
+      this.searching = false;
+      this.searched = true;
+      this.cdr.markForCheck();
+    });
+
+    // Stored IDs (populated data, resets, programmatic changes) are resolved to show their names
+    this.control?.valueChanges.pipe(
+      startWith(this.control.value),
+      map(() => this.selectedIds.filter(id => !this.knownItems.has(id))),
+      filter(ids => ids.length > 0),
+      switchMap(ids => this.resolveDirectory(ids).pipe(
+        catchError(() => of([])),
+        map(items => ({ ids, items }))
+      )),
+      takeUntil(this.destroy$)
+    ).subscribe(({ ids, items }) => {
+      ids.forEach(id => this.knownItems.set(id, items.find(item => item.id === id) ?? this.createUnknownItem(id)));
+      this.cdr.markForCheck();
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  get isTicketPicker(): boolean {
+    return this.field.type === 'ticket-picker';
+  }
+
+  get multiple(): boolean {
+    return !!this.field.attributes?.['multiple'];
+  }
+
+  get searchPlaceholder(): string {
+    return this.isTicketPicker ? 'Search tickets...' : 'Search people...';
+  }
+
+  /**
+   * Selected IDs, whether the field holds one ID or an array
+   */
+  get selectedIds(): string[] {
+    const value: unknown = this.control?.value;
+    return (Array.isArray(value) ? value : [value]).filter((id): id is string => typeof id === 'string' && id !== '');
+  }
+
+  get selectedItems(): LookupItem[] {
+    return this.selectedIds.map(id => this.knownItems.get(id) ?? { id, label: id, description: '' });
+  }
+
+  /**
+   * Single pickers replace their selection, so they can always search
+   */
+  get canSelectMore(): boolean {
+    const maxItems = FieldValidators.find(this.field.validators, 'maxItems')?.args;
+    return !this.multiple || typeof maxItems !== 'number' || this.selectedIds.length < maxItems;
+  }
+
+  onSearch(term: string): void {
+    this.search$.next(term);
+  }
+
+  isSelected(id: string): boolean {
+    return this.selectedIds.includes(id);
+  }
+
+  /**
+   * Select a search result; single pickers replace the current selection
+   */
+  select(item: LookupItem, input: HTMLInputElement): void {
+    input.value = '';
+    this.onSearch('');
+    this.knownItems.set(item.id, item);
+    this.updateValue(this.multiple ? [...this.selectedIds.filter(id => id !== item.id), item.id] : item.id);
+  }
+
+  remove(id: string): void {
+    this.updateValue(this.multiple ? this.selectedIds.filter(selected => selected !== id) : null);
+  }
+
+  /**
+   * TrackBy function for users and tickets
+   */
+  trackByItemId(index: number, item: LookupItem): string {
+    return item.id;
+  }
+
+  // === PRIVATE HELPER METHODS ===
+
+  private searchDirectory(term: string): Observable<LookupItem[]> {
+    if (this.isTicketPicker) {
+      return this.directoryService.searchTickets(term).pipe(map(tickets => tickets.map(ticket => this.toTicketItem(ticket))));
+    }
+    const department: unknown = this.field.attributes?.['department'];
+    return this.directoryService.searchUsers(term, { department: typeof department === 'string' ? department : undefined })
+      .pipe(map(users => users.map(user => this.toUserItem(user))));
+  }
+
+  private resolveDirectory(ids: string[]): Observable<LookupItem[]> {
+    if (this.isTicketPicker) {
+      return this.directoryService.getTickets(ids).pipe(map(tickets => tickets.map(ticket => this.toTicketItem(ticket))));
+    }
+    return this.directoryService.getUsers(ids).pipe(map(users => users.map(user => this.toUserItem(user))));
+  }
+
+  private toUserItem(user: User): LookupItem {
+    return {
+      id: user.id,
+      label: user.name,
+      description: user.isActive ? [user.email, user.department].filter(Boolean).join(' · ') : 'Inactive',
+      initials: this.utilsService.getInitials(user.name),
+      color: this.utilsService.getAvatarColor(user.name)
+    };
+  }
+
+  private toTicketItem(ticket: TicketReference): LookupItem {
+    return {
+      id: ticket.id,
+      label: ticket.title,
+      description: this.utilsService.getStatusLabel(ticket.status),
+      ticketNumber: ticket.ticketNumber
+    };
+  }
+
+  /**
+   * Stored IDs missing from the directory stay visible, so they can be removed
+   */
+  private createUnknownItem(id: string): LookupItem {
+    return { id, label: this.isTicketPicker ? `Unknown ticket (${id})` : `Unknown user (${id})`, description: '' };
+  }
+
+  private updateValue(value: string | string[] | null): void {
+    this.control?.setValue(value);
+    this.control?.markAsDirty();
+    this.control?.markAsTouched();
+  }
+}
@@ -0,0 +1,75 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule } from '@angular/forms';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+
+import { BaseFieldComponent, FIELD_VIEW_PROVIDERS } from './base-field.component';
+import { FieldFormatService } from '../../services/field-format.service';
+
+// Errors shown below the input, in order
+const MASKED_ERROR_KEYS = ['required', 'mask', 'pattern'];
+
+@Component({
+  selector: 'app-masked-field',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatFormFieldModule,
+    MatInputModule
+  ],
+  viewProviders: FIELD_VIEW_PROVIDERS,
+  template: `
+    <mat-form-field appearance="outline" class="form-field">
+      <mat-label>{{ field.label }}</mat-label>
+      <!-- Literals of the mask are inserted while typing -->
+      <input
+        matInput
+        autocomplete="off"
+        [formControlName]="field.id"
+        [placeholder]="placeholder || maskPlaceholder"
+        [readonly]="isDisabled"
+        [attr.maxlength]="mask.length || null"
+        (input)="onInput($event)">
+      <mat-hint *ngIf="hasHint; else maskHint">{{ hint }}</mat-hint>
+      <ng-template #maskHint><mat-hint>Format: {{ maskPlaceholder }}</mat-hint></ng-template>
+
+      <!-- Error Messages -->
+      <ng-container *ngFor="let errorKey of errorKeys">
+        <mat-error *ngIf="hasError(errorKey)">
+          {{ getValidationMessage(errorKey) }}
+        </mat-error>
+      </ng-container>
+    </mat-form-field>
+  `
+})
+export class MaskedFieldComponent extends BaseFieldComponent {
+  private readonly fieldFormatService = inject(FieldFormatService);
+
+  readonly errorKeys = MASKED_ERROR_KEYS;
+
+  get mask(): string {
+    const mask: unknown = this.field.attributes?.['mask'];
+    return this.fieldFormatService.isValidMask(mask) ? mask : '';
+  }
+
+  /**
+   * Mask shown to the user, with "_" for every character to enter
+   */
+  get maskPlaceholder(): string {
+    return this.mask.replace(/[#A*]/g, '_');
+  }
+
+  /**
+   * Fit the typed text into the mask
+   */
+  onInput(event: Event): void {
+    if (!this.mask) return;
+    const input = event.target as HTMLInputElement;
+    const masked = this.fieldFormatService.applyMask(input.value, this.mask);
+    if (masked !== input.value) {
+      this.control?.setValue(masked);
+    }
+  }
+}
@@ -4,7 +4,7 @@ import { ReactiveFormsModule } from '@angular/forms';
 import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatInputModule } from '@angular/material/input';
 
-import { BaseFieldComponent } from './base-field.component';
+import { BaseFieldComponent, FIELD_VIEW_PROVIDERS } from './base-field.component';
 
 @Component({
   selector: 'app-number-field',
@@ -15,6 +15,7 @@ import { BaseFieldComponent } from './base-field.component';
     MatFormFieldModule,
     MatInputModule
   ],
+  viewProviders: FIELD_VIEW_PROVIDERS,
   template: `
     <mat-form-field appearance="outline" class="form-field">
       <mat-label>{{ field.label }}</mat-label>
@@ -24,9 +25,9 @@ import { BaseFieldComponent } from './base-field.component';
         [formControlName]="field.id"
         [placeholder]="placeholder"
         [readonly]="isDisabled"
-        [min]="field.attributes?.min"
-        [max]="field.attributes?.max"
-        [step]="field.attributes?.step">
+        [min]="field.attributes?.['min']"
+        [max]="field.attributes?.['max']"
+        [step]="field.attributes?.['step']">
       <mat-hint *ngIf="hasHint">{{ hint }}</mat-hint>
       
       <!-- Error Messages -->
@@ -0,0 +1,94 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule } from '@angular/forms';
+import { ErrorStateMatcher } from '@angular/material/core';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+
+import { BaseFieldComponent } from './base-field.component';
+import { FieldFormatService } from '../../services/field-format.service';
+
+// Errors shown below the input, in order
+const PERCENTAGE_ERROR_KEYS = ['required', 'min', 'max'];
+
+@Component({
+  selector: 'app-percentage-field',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatFormFieldModule,
+    MatInputModule
+  ],
+  template: `
+    <mat-form-field appearance="outline" class="form-field">
+      <mat-label>{{ field.label }}</mat-label>
+      <!-- Entered in percentage points, stored as a fraction -->
+      <input
+        matInput
+        inputmode="decimal"
+        [value]="inputValue"
+        [placeholder]="placeholder"
+        [readonly]="isDisabled"
+        [errorStateMatcher]="errorStateMatcher"
+        (focus)="onFocus()"
+        (input)="onInput($event)"
+        (blur)="onBlur()">
+      <span *ngIf="editing" matTextSuffix>%</span>
+      <mat-hint *ngIf="hasHint">{{ hint }}</mat-hint>
+
+      <!-- Error Messages -->
+      <ng-container *ngFor="let errorKey of errorKeys">
+        <mat-error *ngIf="hasError(errorKey)">
+          {{ getValidationMessage(errorKey) }}
+        </mat-error>
+      </ng-container>
+    </mat-form-field>
+  `
+})
+export class PercentageFieldComponent extends BaseFieldComponent {
+  private readonly fieldFormatService = inject(FieldFormatService);
+
+  readonly errorKeys = PERCENTAGE_ERROR_KEYS;
+
+  /** The input is not bound to the control, so errors follow the field control */
+  readonly errorStateMatcher: ErrorStateMatcher = {
+    isErrorState: () => !!this.control?.invalid && this.dynamicFormService.shouldShowErrors(this.control)
+  };
+
+  editing = false;
+  private editText = '';
+
+  /**
+   * Maximum number of decimals shown (attributes.decimals, default 2)
+   */
+  get decimals(): number {
+    const decimals: unknown = this.field.attributes?.['decimals'];
+    return typeof decimals === 'number' ? decimals : 2;
+  }
+
+  get inputValue(): string {
+    return this.editing ? this.editText : this.fieldFormatService.formatPercentage(this.control?.value, this.decimals);
+  }
+
+  onFocus(): void {
+    if (this.isDisabled) return;
+    const value: unknown = this.control?.value;
+    this.editText = typeof value === 'number'
+      ? this.fieldFormatService.formatNumberForInput(this.fieldFormatService.toPercentagePoints(value), this.decimals)
+      : '';
+    this.editing = true;
+  }
+
+  onInput(event: Event): void {
+    this.editText = (event.target as HTMLInputElement).value;
+    const points = this.fieldFormatService.parseNumber(this.editText);
+    this.control?.setValue(points === null ? null : this.fieldFormatService.fromPercentagePoints(points));
+    this.control?.markAsDirty();
+  }
+
+  onBlur(): void {
+    this.editing = false;
+    this.control?.markAsTouched();
+  }
+}
@@ -0,0 +1,89 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule } from '@angular/forms';
+import { ErrorStateMatcher } from '@angular/material/core';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatIconModule } from '@angular/material/icon';
+import { MatInputModule } from '@angular/material/input';
+
+import { BaseFieldComponent } from './base-field.component';
+import { FieldFormatService } from '../../services/field-format.service';
+
+// Errors shown below the input, in order
+const PHONE_ERROR_KEYS = ['required', 'e164'];
+
+@Component({
+  selector: 'app-phone-field',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatFormFieldModule,
+    MatIconModule,
+    MatInputModule
+  ],
+  template: `
+    <mat-form-field appearance="outline" class="form-field">
+      <mat-label>{{ field.label }}</mat-label>
+      <mat-icon matPrefix>phone</mat-icon>
+      <!-- Stored as E.164; national numbers are completed with the default country's calling code -->
+      <input
+        matInput
+        type="tel"
+        autocomplete="tel"
+        [value]="inputValue"
+        [placeholder]="placeholder"
+        [readonly]="isDisabled"
+        [errorStateMatcher]="errorStateMatcher"
+        (focus)="onFocus()"
+        (input)="onInput($event)"
+        (blur)="onBlur()">
+      <mat-hint *ngIf="hasHint">{{ hint }}</mat-hint>
+
+      <!-- Error Messages -->
+      <ng-container *ngFor="let errorKey of errorKeys">
+        <mat-error *ngIf="hasError(errorKey)">
+          {{ getValidationMessage(errorKey) }}
+        </mat-error>
+      </ng-container>
+    </mat-form-field>
+  `
+})
+export class PhoneFieldComponent extends BaseFieldComponent {
+  private readonly fieldFormatService = inject(FieldFormatService);
+
+  readonly errorKeys = PHONE_ERROR_KEYS;
+
+  /** The input is not bound to the control, so errors follow the field control */
+  readonly errorStateMatcher: ErrorStateMatcher = {
+    isErrorState: () => !!this.control?.invalid && this.dynamicFormService.shouldShowErrors(this.control)
+  };
+
+  private editing = false;
+  private editText = '';
+
+  get inputValue(): string {
+    return this.editing ? this.editText : this.fieldFormatService.formatPhone(this.control?.value);
+  }
+
+  onFocus(): void {
+    if (this.isDisabled) return;
+    this.editText = this.fieldFormatService.formatPhone(this.control?.value);
+    this.editing = true;
+  }
+
+  /**
+   * Store the E.164 number, or the typed text when it cannot be normalized (reported by the e164 validator)
+   */
+  onInput(event: Event): void {
+    this.editText = (event.target as HTMLInputElement).value;
+    const text = this.editText.trim();
+    this.control?.setValue(text ? this.fieldFormatService.toE164(text, this.fieldFormatService.getDefaultCountry(this.field)) ?? text : '');
+    this.control?.markAsDirty();
+  }
+
+  onBlur(): void {
+    this.editing = false;
+    this.control?.markAsTouched();
+  }
+}
@@ -3,7 +3,7 @@ import { CommonModule } from '@angular/common';
 import { ReactiveFormsModule } from '@angular/forms';
 import { MatRadioModule } from '@angular/material/radio';
 
-import { BaseFieldComponent } from './base-field.component';
+import { BaseFieldComponent, FIELD_VIEW_PROVIDERS } from './base-field.component';
 import { FieldOption } from '../../models';
 
 @Component({
@@ -14,6 +14,7 @@ import { FieldOption } from '../../models';
     ReactiveFormsModule,
     MatRadioModule
   ],
+  viewProviders: FIELD_VIEW_PROVIDERS,
   template: `
     <div class="radio-group full-width">
       <label class="field-label">{{ field.label }}</label>
@@ -30,6 +31,7 @@ import { FieldOption } from '../../models';
         </mat-radio-button>
       </mat-radio-group>
       
+      <div *ngIf="optionsLoading" class="field-hint">Loading options...</div>
       <div *ngIf="hasHint" class="field-hint">{{ hint }}</div>
       
       <!-- Error Messages -->
@@ -76,6 +78,7 @@ import { FieldOption } from '../../models';
 })
 export class RadioFieldComponent extends BaseFieldComponent {
   @Input() options: FieldOption[] = [];
+  @Input() optionsLoading = false;
 
   /**
    * TrackBy function for options
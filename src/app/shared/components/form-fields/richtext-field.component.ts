@@ -0,0 +1,285 @@
+import { Component, ElementRef, Input, ViewChild, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule } from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatIconModule } from '@angular/material/icon';
+import { MatInputModule } from '@angular/material/input';
+import { MatTooltipModule } from '@angular/material/tooltip';
+
+import { BaseFieldComponent, FIELD_VIEW_PROVIDERS } from './base-field.component';
+import { FieldValidators } from '../../models';
+import { MarkdownService } from '../../services/markdown.service';
+
+// Toolbar button: wraps the selection in markers, or prefixes every selected line for block formats
+export interface RichtextToolbarAction {
+  icon: string;
+  label: string;
+  prefix: string;
+  suffix?: string;
+  block?: boolean;
+  numbered?: boolean; // Block prefix is replaced by "1. ", "2. ", ...
+  placeholder?: string; // Inserted when nothing is selected
+}
+
+@Component({
+  selector: 'app-richtext-field',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatButtonModule,
+    MatFormFieldModule,
+    MatIconModule,
+    MatInputModule,
+    MatTooltipModule
+  ],
+  viewProviders: FIELD_VIEW_PROVIDERS,
+  template: `
+    <div class="richtext-field">
+      <!-- Rendered (read-only) -->
+      <ng-container *ngIf="rendered; else editor">
+        <span class="field-label" [id]="labelId">{{ field.label }}</span>
+        <div *ngIf="html; else emptyValue" class="richtext-content" [attr.aria-labelledby]="labelId" [innerHTML]="html"></div>
+        <ng-template #emptyValue><div class="richtext-empty" [attr.aria-labelledby]="labelId">Not provided</div></ng-template>
+      </ng-container>
+
+      <ng-template #editor>
+        <!-- Toolbar -->
+        <div class="richtext-toolbar" role="toolbar" [attr.aria-label]="field.label + ' formatting'">
+          <button
+            *ngFor="let action of toolbarActions"
+            mat-icon-button
+            type="button"
+            [matTooltip]="action.label"
+            [attr.aria-label]="action.label"
+            [disabled]="isDisabled || mode === 'preview'"
+            (click)="applyAction(action)">
+            <mat-icon>{{ action.icon }}</mat-icon>
+          </button>
+          <span class="toolbar-spacer"></span>
+          <button mat-button type="button" [class.active]="mode === 'write'" (click)="mode = 'write'">Write</button>
+          <button mat-button type="button" [class.active]="mode === 'preview'" (click)="mode = 'preview'">Preview</button>
+        </div>
+
+        <mat-form-field appearance="outline" class="form-field full-width" [class.hidden]="mode === 'preview'">
+          <mat-label>{{ field.label }}</mat-label>
+          <textarea
+            #editorInput
+            matInput
+            [formControlName]="field.id"
+            [placeholder]="placeholder"
+            [readonly]="isDisabled"
+            [rows]="field.attributes?.['rows'] || 6">
+          </textarea>
+          <mat-hint *ngIf="hasHint">{{ hint }}</mat-hint>
+          <mat-hint align="end" [class.over-limit]="isOverLimit">
+            {{ visibleLength }}<ng-container *ngIf="maxLength !== null"> / {{ maxLength }}</ng-container>
+          </mat-hint>
+
+          <!-- Error Messages -->
+          <mat-error *ngIf="hasError('required')">
+            {{ getValidationMessage('required') }}
+          </mat-error>
+          <mat-error *ngIf="hasError('minlength')">
+            {{ getValidationMessage('minlength') }}
+          </mat-error>
+          <mat-error *ngIf="hasError('maxlength')">
+            {{ getValidationMessage('maxlength') }}
+          </mat-error>
+        </mat-form-field>
+
+        <!-- Preview -->
+        <div *ngIf="mode === 'preview'" class="richtext-preview">
+          <div *ngIf="html; else emptyPreview" class="richtext-content" [innerHTML]="html"></div>
+          <ng-template #emptyPreview><div class="richtext-empty">Nothing to preview</div></ng-template>
+        </div>
+      </ng-template>
+    </div>
+  `,
+  styles: [`
+    .richtext-field {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+    }
+
+    .field-label {
+      font-size: 14px;
+      color: var(--mat-sys-on-surface-variant);
+    }
+
+    .richtext-toolbar {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 2px;
+    }
+
+    .toolbar-spacer {
+      flex: 1;
+    }
+
+    .richtext-toolbar .active {
+      background: var(--mat-sys-secondary-container);
+    }
+
+    .hidden {
+      display: none;
+    }
+
+    .over-limit {
+      color: var(--mat-sys-error);
+    }
+
+    .richtext-preview {
+      min-height: 120px;
+      margin-bottom: 16px;
+      padding: 12px 16px;
+      border: 1px solid var(--mat-sys-outline-variant);
+      border-radius: 4px;
+    }
+
+    .richtext-content {
+      overflow-wrap: anywhere;
+    }
+
+    .richtext-content :is(h1, h2, h3, h4, h5, h6) {
+      margin: 12px 0 8px;
+    }
+
+    .richtext-content p,
+    .richtext-content ul,
+    .richtext-content ol {
+      margin: 0 0 8px;
+    }
+
+    .richtext-content blockquote {
+      margin: 0 0 8px;
+      padding-left: 12px;
+      border-left: 3px solid var(--mat-sys-outline-variant);
+      color: var(--mat-sys-on-surface-variant);
+    }
+
+    .richtext-content code {
+      padding: 1px 4px;
+      border-radius: 4px;
+      background: var(--mat-sys-surface-container-high);
+      font-family: monospace;
+    }
+
+    .richtext-content pre {
+      overflow-x: auto;
+      padding: 8px 12px;
+      border-radius: 4px;
+      background: var(--mat-sys-surface-container-high);
+    }
+
+    .richtext-content pre code {
+      padding: 0;
+    }
+
+    .richtext-empty {
+      font-style: italic;
+      color: var(--mat-sys-on-surface-variant);
+    }
+  `]
+})
+export class RichtextFieldComponent extends BaseFieldComponent {
+  @Input() rendered = false; // Shows the sanitized HTML instead of the editor
+
+  @ViewChild('editorInput') private editorInput?: ElementRef<HTMLTextAreaElement>;
+
+  private readonly markdownService = inject(MarkdownService);
+  private renderedSource?: string;
+  private renderedHtml = '';
+  private visibleTextSource?: string;
+  private visibleText = '';
+
+  readonly toolbarActions: RichtextToolbarAction[] = [
+    { icon: 'format_bold', label: 'Bold', prefix: '**', suffix: '**', placeholder: 'bold text' },
+    { icon: 'format_italic', label: 'Italic', prefix: '_', suffix: '_', placeholder: 'italic text' },
+    { icon: 'title', label: 'Heading', prefix: '## ', block: true, placeholder: 'Heading' },
+    { icon: 'format_list_bulleted', label: 'Bulleted list', prefix: '- ', block: true, placeholder: 'List item' },
+    { icon: 'format_list_numbered', label: 'Numbered list', prefix: '1. ', block: true, numbered: true, placeholder: 'List item' },
+    { icon: 'format_quote', label: 'Quote', prefix: '> ', block: true, placeholder: 'Quote' },
+    { icon: 'code', label: 'Code', prefix: '`', suffix: '`', placeholder: 'code' },
+    { icon: 'link', label: 'Link', prefix: '[', suffix: '](https://)', placeholder: 'link text' }
+  ];
+
+  mode: 'write' | 'preview' = 'write';
+
+  /**
+   * Get the current markdown
+   */
+  get markdown(): string {
+    const value: unknown = this.control?.value;
+    return typeof value === 'string' ? value : '';
+  }
+
+  /**
+   * Get the sanitized HTML of the current markdown (re-rendered only when it changes)
+   */
+  get html(): string {
+    if (this.renderedSource !== this.markdown) {
+      this.renderedSource = this.markdown;
+      this.renderedHtml = this.markdownService.toHtml(this.markdown);
+    }
+    return this.renderedHtml;
+  }
+
+  /**
+   * Get the number of visible characters, the count that minlength/maxlength apply to
+   */
+  get visibleLength(): number {
+    if (this.visibleTextSource !== this.markdown) {
+      this.visibleTextSource = this.markdown;
+      this.visibleText = this.markdownService.toPlainText(this.markdown);
+    }
+    return this.visibleText.length;
+  }
+
+  /**
+   * Get the maximum number of visible characters, from the maxlength validator or attribute
+   */
+  get maxLength(): number | null {
+    const limit: unknown = FieldValidators.find(this.field.validators, 'maxlength')?.args ?? this.field.attributes?.['maxlength'];
+    return typeof limit === 'number' ? limit : null;
+  }
+
+  get isOverLimit(): boolean {
+    return this.maxLength !== null && this.visibleLength > this.maxLength;
+  }
+
+  /**
+   * Apply a toolbar action to the editor selection and keep the affected text selected
+   */
+  applyAction(action: RichtextToolbarAction): void {
+    const textarea = this.editorInput?.nativeElement;
+    if (!textarea || !this.control || this.isDisabled) return;
+
+    const value = this.markdown;
+    const { selectionStart, selectionEnd } = textarea;
+    let start: number;
+    let replacement: string;
+    let selection: [number, number];
+
+    if (action.block) {
+      // Block formats apply to whole lines
+      start = value.lastIndexOf('\n', selectionStart - 1) + 1;
+      const lines = (value.slice(start, selectionEnd) || action.placeholder || '').split('\n');
+      replacement = lines.map((line, index) => `${action.numbered ? `${index + 1}. ` : action.prefix}${line}`).join('\n');
+      selection = [start, start + replacement.length];
+    } else {
+      start = selectionStart;
+      const selected = value.slice(selectionStart, selectionEnd) || action.placeholder || '';
+      replacement = `${action.prefix}${selected}${action.suffix ?? ''}`;
+      selection = [start + action.prefix.length, start + action.prefix.length + selected.length];
+    }
+
+    this.control.setValue(value.slice(0, start) + replacement + value.slice(selectionEnd));
+    this.control.markAsDirty();
+    textarea.focus();
+    textarea.setSelectionRange(...selection);
+  }
+}
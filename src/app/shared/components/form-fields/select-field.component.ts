@@ -4,8 +4,8 @@ import { ReactiveFormsModule } from '@angular/forms';
 import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatSelectModule } from '@angular/material/select';
 
-import { BaseFieldComponent } from './base-field.component';
-import { FieldOption } from '../../models';
+import { BaseFieldComponent, FIELD_VIEW_PROVIDERS } from './base-field.component';
+import { FieldOption, FieldOptionEntry, FieldOptionGroup, FieldOptions, JsonValue } from '../../models';
 
 @Component({
   selector: 'app-select-field',
@@ -16,18 +16,44 @@ import { FieldOption } from '../../models';
     MatFormFieldModule,
     MatSelectModule
   ],
+  viewProviders: FIELD_VIEW_PROVIDERS,
   template: `
     <mat-form-field appearance="outline" class="form-field">
       <mat-label>{{ field.label }}</mat-label>
-      <mat-select [formControlName]="field.id" [disabled]="isDisabled">
-        <mat-option 
-          *ngFor="let option of options; trackBy: trackByOptionValue" 
-          [value]="option.value"
-          [disabled]="option.disabled">
-          {{ option.label }}
+      <mat-select
+        [formControlName]="field.id"
+        [disabled]="isDisabled"
+        [panelClass]="searchable ? 'options-search-panel' : ''">
+        <!-- Keys typed in the search box must not reach the select's own keyboard navigation -->
+        <div *ngIf="searchable" class="options-search">
+          <input
+            type="search"
+            placeholder="Search..."
+            [attr.aria-label]="'Search ' + field.label"
+            (keydown)="$event.stopPropagation()"
+            (input)="onSearch($event)">
+        </div>
+        <ng-container *ngFor="let entry of optionEntries; trackBy: trackByOptionEntry">
+          <mat-optgroup *ngIf="isOptionGroup(entry); else singleOption" [label]="entry.label" [disabled]="!!entry.disabled">
+            <mat-option
+              *ngFor="let option of entry.options; trackBy: trackByOptionValue"
+              [value]="option.value"
+              [disabled]="option.disabled">
+              {{ option.label }}
+            </mat-option>
+          </mat-optgroup>
+          <ng-template #singleOption>
+            <mat-option [value]="asOption(entry).value" [disabled]="asOption(entry).disabled">
+              {{ entry.label }}
+            </mat-option>
+          </ng-template>
+        </ng-container>
+        <mat-option *ngIf="!optionEntries.length && field.optionsSource && !optionsLoading" disabled>
+          No options available
         </mat-option>
       </mat-select>
       <mat-hint *ngIf="hasHint">{{ hint }}</mat-hint>
+      <mat-hint *ngIf="optionsLoading" align="end">Loading options...</mat-hint>
       
       <!-- Error Messages -->
       <mat-error *ngIf="hasError('required')">
@@ -37,12 +63,37 @@ import { FieldOption } from '../../models';
   `
 })
 export class SelectFieldComponent extends BaseFieldComponent {
-  @Input() options: FieldOption[] = [];
+  @Input() optionEntries: FieldOptionEntry[] = []; // Options and option groups, rendered as mat-optgroup
+  @Input() optionsLoading = false;
+  @Input() optionsSearch?: (term: string) => void; // Queries a searchable option source
+
+  get searchable(): boolean {
+    return !!this.field.optionsSource?.searchable;
+  }
+
+  onSearch(event: Event): void {
+    this.optionsSearch?.((event.target as HTMLInputElement).value);
+  }
+
+  isOptionGroup(entry: FieldOptionEntry): entry is FieldOptionGroup {
+    return FieldOptions.isGroup(entry);
+  }
+
+  asOption(entry: FieldOptionEntry): FieldOption {
+    return entry as FieldOption;
+  }
+
+  /**
+   * TrackBy function for option entries (groups are tracked by label)
+   */
+  trackByOptionEntry(index: number, entry: FieldOptionEntry): JsonValue {
+    return FieldOptions.isGroup(entry) ? `group:${entry.label}` : entry.value;
+  }
 
   /**
    * TrackBy function for options
    */
-  trackByOptionValue(index: number, option: FieldOption): any {
+  trackByOptionValue(index: number, option: FieldOption): FieldOption['value'] {
     return option.value;
   }
 }
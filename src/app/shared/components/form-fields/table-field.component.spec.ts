@@ -0,0 +1,97 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { FormArray, FormGroup } from '@angular/forms';
+import { By } from '@angular/platform-browser';
+import { provideNoopAnimations } from '@angular/platform-browser/animations';
+
+import { FormField } from '../../models';
+import { DynamicFormService } from '../../services/dynamic-form.service';
+import { TableFieldComponent } from './table-field.component';
+
+describe('TableFieldComponent', () => {
+  let service: DynamicFormService;
+  let fixture: ComponentFixture<TableFieldComponent>;
+  let component: TableFieldComponent;
+  let form: FormGroup;
+
+  const item: FormField = { id: 'item', label: 'Item', type: 'text', validators: [{ name: 'required' }] };
+  const quantity: FormField = { id: 'quantity', label: 'Quantity', type: 'number', attributes: { total: true } };
+  const equipment: FormField = {
+    id: 'equipment',
+    label: 'Equipment',
+    type: 'table',
+    columns: [item, quantity],
+    validators: [{ name: 'minItems', args: 1 }, { name: 'maxItems', args: 3 }]
+  };
+
+  const table = () => form.get('order.equipment') as FormArray;
+  const addRowButton = () => fixture.debugElement.queryAll(By.css('.table-footer button'))[0].nativeElement as HTMLButtonElement;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideNoopAnimations()] });
+    service = TestBed.inject(DynamicFormService);
+    form = service.createFormFromSchema(
+      { id: 'test', title: 'Test', version: '1.0.0', sections: [{ id: 'order', title: 'Order', fields: [equipment] }] },
+      { schemaValidation: { enabled: false } }
+    );
+    fixture = TestBed.createComponent(TableFieldComponent);
+    component = fixture.componentInstance;
+    component.field = equipment;
+    component.formGroup = form.get('order') as FormGroup;
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    fixture.destroy();
+    service.destroyForm(form);
+  });
+
+  it('should start with the minimum rows and keep the row count within its limits', () => {
+    expect(component.rows.length).toBe(1);
+    expect(component.canRemoveRow).toBeFalse();
+
+    component.addRow();
+    component.addRow();
+    component.addRow();
+    fixture.detectChanges();
+
+    expect(table().length).toBe(3);
+    expect(table().dirty).toBeTrue();
+    expect(component.rowCountLabel).toBe('3 rows (1–3)');
+    expect(addRowButton().disabled).toBeTrue();
+
+    component.removeRow(0);
+    fixture.detectChanges();
+    expect(table().length).toBe(2);
+    expect(addRowButton().disabled).toBeFalse();
+  });
+
+  it('should move rows and total the columns that declare a total', () => {
+    service.populateForm(form, { order: { equipment: [{ item: 'Laptop', quantity: 2 }, { item: 'Monitor', quantity: 3 }] } });
+    fixture.detectChanges();
+
+    component.moveRow(0, 1);
+    fixture.detectChanges();
+
+    expect(table().getRawValue() as unknown).toEqual([{ item: 'Monitor', quantity: 3 }, { item: 'Laptop', quantity: 2 }]);
+    expect(component.getColumnTotal(quantity)).toBe('5');
+    const footer = fixture.debugElement.query(By.css('tfoot')).nativeElement as HTMLElement;
+    expect(footer.textContent).toContain('Total');
+    expect(footer.textContent).toContain('5');
+  });
+
+  it('should show the message of the first error of a cell', () => {
+    const row = component.rows[0];
+    expect(component.getCellError(row, item)).toBe('Item is required');
+
+    row.get('item')!.setValue('Laptop');
+    expect(component.getCellError(row, item)).toBeNull();
+  });
+
+  it('should label the table with the field label', () => {
+    const grid = fixture.debugElement.query(By.css('table')).nativeElement as HTMLElement;
+    const label = fixture.debugElement.query(By.css('.field-label')).nativeElement as HTMLElement;
+
+    expect(grid.getAttribute('aria-labelledby')).toBe(label.id);
+    expect(label.textContent?.trim()).toBe('Equipment');
+  });
+});
@@ -0,0 +1,368 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormArray, FormControl, FormGroup, ReactiveFormsModule } from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatNativeDateModule } from '@angular/material/core';
+import { MatDatepickerModule } from '@angular/material/datepicker';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatIconModule } from '@angular/material/icon';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatTooltipModule } from '@angular/material/tooltip';
+
+import { BaseFieldComponent } from './base-field.component';
+import { CurrencyFieldComponent } from './currency-field.component';
+import { PercentageFieldComponent } from './percentage-field.component';
+import { FieldOption, FieldOptions, FieldValidators, FormField } from '../../models';
+import { FieldFormatService } from '../../services/field-format.service';
+
+// Table-level errors shown below the table, in order
+const TABLE_ERROR_KEYS = ['required', 'minItems', 'maxItems'];
+
+@Component({
+  selector: 'app-table-field',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatButtonModule,
+    MatCheckboxModule,
+    MatDatepickerModule,
+    MatFormFieldModule,
+    MatIconModule,
+    MatInputModule,
+    MatNativeDateModule,
+    MatSelectModule,
+    MatTooltipModule,
+    CurrencyFieldComponent,
+    PercentageFieldComponent
+  ],
+  template: `
+    <div class="table-field">
+      <span class="field-label" [id]="labelId">{{ field.label }}</span>
+
+      <div class="table-scroll">
+        <table class="table-grid" [attr.aria-labelledby]="labelId">
+          <thead>
+            <tr>
+              <th *ngFor="let column of columns; trackBy: trackByColumnId" scope="col">
+                {{ column.label }}<span *ngIf="isColumnRequired(column)" aria-hidden="true"> *</span>
+              </th>
+              <th *ngIf="!isDisabled" class="row-actions-header"><span class="visually-hidden">Row actions</span></th>
+            </tr>
+          </thead>
+
+          <tbody>
+            <tr *ngFor="let row of rows; let rowIndex = index; let first = first; let last = last">
+              <td *ngFor="let column of columns; trackBy: trackByColumnId" [class.numeric]="isNumericColumn(column)">
+                <ng-container [ngSwitch]="column.type">
+                  <mat-checkbox
+                    *ngSwitchCase="'checkbox'"
+                    [formControl]="getCellControl(row, column)"
+                    [attr.aria-label]="column.label + ', row ' + (rowIndex + 1)">
+                  </mat-checkbox>
+
+                  <app-currency-field *ngSwitchCase="'currency'" class="table-cell" [field]="column" [formGroup]="row"></app-currency-field>
+                  <app-percentage-field *ngSwitchCase="'percentage'" class="table-cell" [field]="column" [formGroup]="row"></app-percentage-field>
+
+                  <mat-form-field *ngSwitchCase="'select'" appearance="outline" class="table-cell" subscriptSizing="dynamic">
+                    <mat-select [formControl]="getCellControl(row, column)" [attr.aria-label]="column.label + ', row ' + (rowIndex + 1)">
+                      <mat-option *ngFor="let option of getColumnOptions(column)" [value]="option.value" [disabled]="option.disabled">
+                        {{ option.label }}
+                      </mat-option>
+                    </mat-select>
+                    <mat-error *ngIf="getCellError(row, column) as error">{{ error }}</mat-error>
+                  </mat-form-field>
+
+                  <mat-form-field *ngSwitchCase="'date'" appearance="outline" class="table-cell" subscriptSizing="dynamic">
+                    <input
+                      matInput
+                      [matDatepicker]="picker"
+                      [formControl]="getCellControl(row, column)"
+                      [readonly]="isDisabled"
+                      [attr.aria-label]="column.label + ', row ' + (rowIndex + 1)">
+                    <mat-datepicker-toggle matIconSuffix [for]="picker"></mat-datepicker-toggle>
+                    <mat-datepicker #picker></mat-datepicker>
+                    <mat-error *ngIf="getCellError(row, column) as error">{{ error }}</mat-error>
+                  </mat-form-field>
+
+                  <mat-form-field *ngSwitchCase="'number'" appearance="outline" class="table-cell" subscriptSizing="dynamic">
+                    <input
+                      matInput
+                      type="number"
+                      [formControl]="getCellControl(row, column)"
+                      [placeholder]="column.placeholder || ''"
+                      [readonly]="isDisabled || !!column.readOnly"
+                      [attr.aria-label]="column.label + ', row ' + (rowIndex + 1)">
+                    <mat-error *ngIf="getCellError(row, column) as error">{{ error }}</mat-error>
+                  </mat-form-field>
+
+                  <mat-form-field *ngSwitchDefault appearance="outline" class="table-cell" subscriptSizing="dynamic">
+                    <input
+                      matInput
+                      [type]="column.type === 'email' ? 'email' : 'text'"
+                      [formControl]="getCellControl(row, column)"
+                      [placeholder]="column.placeholder || ''"
+                      [readonly]="isDisabled || !!column.readOnly"
+                      [attr.aria-label]="column.label + ', row ' + (rowIndex + 1)">
+                    <mat-error *ngIf="getCellError(row, column) as error">{{ error }}</mat-error>
+                  </mat-form-field>
+                </ng-container>
+              </td>
+
+              <td *ngIf="!isDisabled" class="row-actions">
+                <button mat-icon-button type="button" [disabled]="first" matTooltip="Move up"
+                  [attr.aria-label]="'Move row ' + (rowIndex + 1) + ' up'" (click)="moveRow(rowIndex, rowIndex - 1)">
+                  <mat-icon>arrow_upward</mat-icon>
+                </button>
+                <button mat-icon-button type="button" [disabled]="last" matTooltip="Move down"
+                  [attr.aria-label]="'Move row ' + (rowIndex + 1) + ' down'" (click)="moveRow(rowIndex, rowIndex + 1)">
+                  <mat-icon>arrow_downward</mat-icon>
+                </button>
+                <button mat-icon-button type="button" [disabled]="!canRemoveRow" matTooltip="Remove row"
+                  [attr.aria-label]="'Remove row ' + (rowIndex + 1)" (click)="removeRow(rowIndex)">
+                  <mat-icon>delete</mat-icon>
+                </button>
+              </td>
+            </tr>
+
+            <tr *ngIf="!rows.length">
+              <td class="empty-row" [attr.colspan]="columns.length + (isDisabled ? 0 : 1)">No rows</td>
+            </tr>
+          </tbody>
+
+          <tfoot *ngIf="hasTotals">
+            <tr>
+              <td *ngFor="let column of columns; let firstColumn = first; trackBy: trackByColumnId" [class.numeric]="isNumericColumn(column)">
+                <ng-container *ngIf="isTotalColumn(column); else totalLabel">{{ getColumnTotal(column) }}</ng-container>
+                <ng-template #totalLabel><strong *ngIf="firstColumn">Total</strong></ng-template>
+              </td>
+              <td *ngIf="!isDisabled"></td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      <div class="table-footer">
+        <button *ngIf="!isDisabled" mat-stroked-button type="button" [disabled]="!canAddRow" (click)="addRow()">
+          <mat-icon>add</mat-icon>
+          Add row
+        </button>
+        <span class="row-count">{{ rowCountLabel }}</span>
+      </div>
+
+      <div *ngIf="hasHint" class="field-hint">{{ hint }}</div>
+
+      <!-- Error Messages -->
+      <ng-container *ngFor="let errorKey of errorKeys">
+        <div *ngIf="hasError(errorKey)" class="field-error">
+          {{ getValidationMessage(errorKey) }}
+        </div>
+      </ng-container>
+    </div>
+  `,
+  styles: [`
+    .table-field {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      margin-bottom: 16px;
+    }
+
+    .field-label {
+      font-size: 14px;
+      color: var(--mat-sys-on-surface-variant);
+    }
+
+    .table-scroll {
+      overflow-x: auto;
+      border: 1px solid var(--mat-sys-outline-variant);
+      border-radius: 8px;
+    }
+
+    .table-grid {
+      width: 100%;
+      border-collapse: collapse;
+    }
+
+    .table-grid th,
+    .table-grid td {
+      padding: 4px 8px;
+      text-align: left;
+      vertical-align: top;
+    }
+
+    .table-grid th {
+      font-size: 12px;
+      font-weight: 500;
+      color: var(--mat-sys-on-surface-variant);
+      border-bottom: 1px solid var(--mat-sys-outline-variant);
+    }
+
+    .table-grid .numeric {
+      text-align: right;
+    }
+
+    .table-grid tfoot td {
+      padding: 8px;
+      border-top: 1px solid var(--mat-sys-outline-variant);
+    }
+
+    .table-cell {
+      display: block;
+      min-width: 120px;
+    }
+
+    .row-actions,
+    .row-actions-header {
+      width: 1%;
+      white-space: nowrap;
+    }
+
+    .empty-row {
+      padding: 16px;
+      text-align: center;
+      font-style: italic;
+      color: var(--mat-sys-on-surface-variant);
+    }
+
+    .table-footer {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 8px;
+    }
+
+    .row-count,
+    .field-hint {
+      font-size: 12px;
+      color: var(--mat-sys-on-surface-variant);
+    }
+
+    .field-error {
+      font-size: 12px;
+      color: var(--mat-sys-error);
+    }
+
+    .visually-hidden {
+      position: absolute;
+      width: 1px;
+      height: 1px;
+      overflow: hidden;
+      clip: rect(0 0 0 0);
+    }
+  `]
+})
+export class TableFieldComponent extends BaseFieldComponent {
+  private readonly fieldFormatService = inject(FieldFormatService);
+
+  readonly errorKeys = TABLE_ERROR_KEYS;
+
+  get columns(): FormField[] {
+    return this.field.columns || [];
+  }
+
+  get table(): FormArray | null {
+    return this.control instanceof FormArray ? this.control : null;
+  }
+
+  get rows(): FormGroup[] {
+    return (this.table?.controls || []) as FormGroup[];
+  }
+
+  get canAddRow(): boolean {
+    return this.dynamicFormService.canAddTableRow(this.control, this.field);
+  }
+
+  get canRemoveRow(): boolean {
+    return this.dynamicFormService.canRemoveTableRow(this.control, this.field);
+  }
+
+  get hasTotals(): boolean {
+    return this.columns.some(column => this.isTotalColumn(column));
+  }
+
+  get rowCountLabel(): string {
+    const { min, max } = this.dynamicFormService.getTableRowLimits(this.field);
+    const count = `${this.rows.length} ${this.rows.length === 1 ? 'row' : 'rows'}`;
+    if (max !== null) return `${count} (${min ? `${min}–` : 'up to '}${max})`;
+    return min ? `${count} (at least ${min})` : count;
+  }
+
+  addRow(): void {
+    this.dynamicFormService.addTableRow(this.control, this.field);
+  }
+
+  removeRow(index: number): void {
+    this.dynamicFormService.removeTableRow(this.control, this.field, index);
+  }
+
+  moveRow(fromIndex: number, toIndex: number): void {
+    this.dynamicFormService.moveTableRow(this.control, fromIndex, toIndex);
+  }
+
+  getCellControl(row: FormGroup, column: FormField): FormControl {
+    return row.get(column.id) as FormControl;
+  }
+
+  /**
+   * Get the message of the first error of a cell
+   */
+  getCellError(row: FormGroup, column: FormField): string | null {
+    const cell = row.get(column.id);
+    const errorKey = Object.keys(cell?.errors || {})[0];
+    if (!errorKey) return null;
+    return this.dynamicFormService.getServerError(cell)
+      || FieldValidators.find(column.validators, errorKey)?.message
+      || this.validatorRegistry.getDefaultMessage(errorKey, column.label, cell?.getError(errorKey))
+      || `${column.label} is invalid`;
+  }
+
+  getColumnOptions(column: FormField): FieldOption[] {
+    return FieldOptions.flatten(column.options || []);
+  }
+
+  isColumnRequired(column: FormField): boolean {
+    return !!FieldValidators.find(column.validators, 'required');
+  }
+
+  isNumericColumn(column: FormField): boolean {
+    return column.type === 'number' || column.type === 'currency' || column.type === 'percentage';
+  }
+
+  /**
+   * Check if a column declares a total (attributes.total on number and currency columns)
+   */
+  isTotalColumn(column: FormField): boolean {
+    return !!column.attributes?.['total'] && (column.type === 'number' || column.type === 'currency');
+  }
+
+  /**
+   * Get the formatted sum of a column; currency columns mixing currencies have no total
+   */
+  getColumnTotal(column: FormField): string {
+    const values = this.rows.map(row => row.get(column.id)?.value as unknown);
+
+    if (column.type === 'currency') {
+      const amounts = values
+        .map(value => this.fieldFormatService.toCurrencyValue(value))
+        .filter(value => value !== null);
+      const currencies = new Set(amounts.map(value => value.currency));
+      if (currencies.size > 1) return 'Mixed currencies';
+      const currency = [...currencies][0] ?? this.fieldFormatService.getDefaultCurrency(column);
+      const sum = amounts.reduce((total, value) => total + value.amount, 0);
+      return this.fieldFormatService.formatCurrency({ amount: this.fieldFormatService.roundAmount(sum, currency), currency });
+    }
+
+    const sum = values.reduce((total: number, value) => total + (typeof value === 'number' && isFinite(value) ? value : 0), 0);
+    return new Intl.NumberFormat(this.fieldFormatService.locale).format(sum);
+  }
+
+  /**
+   * TrackBy function for columns
+   */
+  trackByColumnId(index: number, column: FormField): string {
+    return column.id;
+  }
+}
@@ -0,0 +1,97 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule } from '@angular/forms';
+import { COMMA, ENTER } from '@angular/cdk/keycodes';
+import { MatChipInputEvent, MatChipsModule } from '@angular/material/chips';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatIconModule } from '@angular/material/icon';
+
+import { BaseFieldComponent, FIELD_VIEW_PROVIDERS } from './base-field.component';
+
+@Component({
+  selector: 'app-tags-field',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatChipsModule,
+    MatFormFieldModule,
+    MatIconModule
+  ],
+  viewProviders: FIELD_VIEW_PROVIDERS,
+  template: `
+    <mat-form-field appearance="outline" class="form-field">
+      <mat-label>{{ field.label }}</mat-label>
+      <mat-chip-grid #chipGrid [formControlName]="field.id" [disabled]="isDisabled">
+        <mat-chip-row *ngFor="let tag of tags; trackBy: trackByTag" (removed)="removeTag(tag)">
+          {{ tag }}
+          <button matChipRemove [attr.aria-label]="'Remove ' + tag">
+            <mat-icon>cancel</mat-icon>
+          </button>
+        </mat-chip-row>
+        <input
+          [placeholder]="placeholder"
+          [matChipInputFor]="chipGrid"
+          [matChipInputSeparatorKeyCodes]="separatorKeyCodes"
+          [matChipInputAddOnBlur]="true"
+          (matChipInputTokenEnd)="addTag($event)">
+      </mat-chip-grid>
+      <mat-hint *ngIf="hasHint">{{ hint }}</mat-hint>
+      
+      <!-- Error Messages -->
+      <mat-error *ngIf="hasError('required')">
+        {{ getValidationMessage('required') }}
+      </mat-error>
+      <mat-error *ngIf="hasError('minItems')">
+        {{ getValidationMessage('minItems') }}
+      </mat-error>
+      <mat-error *ngIf="hasError('maxItems')">
+        {{ getValidationMessage('maxItems') }}
+      </mat-error>
+    </mat-form-field>
+  `
+})
+export class TagsFieldComponent extends BaseFieldComponent {
+  readonly separatorKeyCodes = [ENTER, COMMA] as const;
+
+  /**
+   * Get the current tags
+   */
+  get tags(): string[] {
+    const value: unknown = this.control?.value;
+    return Array.isArray(value) ? value.map(tag => String(tag)) : [];
+  }
+
+  /**
+   * Add a tag from the chip input (trimmed, case-insensitive duplicates ignored)
+   */
+  addTag(event: MatChipInputEvent): void {
+    const tag = event.value.trim();
+    event.chipInput.clear();
+
+    if (!tag || this.tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+      return;
+    }
+    this.updateTags([...this.tags, tag]);
+  }
+
+  /**
+   * Remove a tag
+   */
+  removeTag(tag: string): void {
+    this.updateTags(this.tags.filter(existing => existing !== tag));
+  }
+
+  /**
+   * TrackBy function for tags
+   */
+  trackByTag(index: number, tag: string): string {
+    return tag;
+  }
+
+  private updateTags(tags: string[]): void {
+    this.control?.setValue(tags);
+    this.control?.markAsDirty();
+    this.control?.markAsTouched();
+  }
+}
@@ -0,0 +1,118 @@
+import { Component } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { FormGroup, ReactiveFormsModule } from '@angular/forms';
+import { ErrorStateMatcher } from '@angular/material/core';
+import { By } from '@angular/platform-browser';
+import { provideNoopAnimations } from '@angular/platform-browser/animations';
+
+import { FormField, ValidationMode } from '../../models';
+import { DynamicFormService } from '../../services/dynamic-form.service';
+import { DynamicFormErrorStateMatcher } from './base-field.component';
+import { TextFieldComponent } from './text-field.component';
+
+// Fields are rendered inside the section's form group, in a form submitted like the ticket form
+@Component({
+  imports: [ReactiveFormsModule, TextFieldComponent],
+  providers: [{ provide: ErrorStateMatcher, useClass: DynamicFormErrorStateMatcher }],
+  template: `
+    <form [formGroup]="form" (ngSubmit)="submit()">
+      <div [formGroup]="section"><app-text-field [field]="field" [formGroup]="section" /></div>
+    </form>
+  `
+})
+class TextHostComponent {
+  field!: FormField;
+  form!: FormGroup;
+  section!: FormGroup;
+  submit!: () => void;
+}
+
+describe('TextFieldComponent', () => {
+  let service: DynamicFormService;
+  let fixture: ComponentFixture<TextHostComponent>;
+  let form: FormGroup;
+
+  const email: FormField = { id: 'email', label: 'Email', type: 'email', validators: [{ name: 'required' }, { name: 'email' }] };
+
+  const input = () => fixture.debugElement.query(By.css('input')).nativeElement as HTMLInputElement;
+  const errors = () => fixture.debugElement.queryAll(By.css('mat-error'))
+    .map(element => (element.nativeElement as HTMLElement).textContent?.trim());
+  const type = (value: string) => {
+    input().value = value;
+    input().dispatchEvent(new Event('input'));
+    fixture.detectChanges();
+  };
+  const leave = () => {
+    input().dispatchEvent(new Event('blur'));
+    fixture.detectChanges();
+  };
+
+  const createField = (mode: ValidationMode, field: FormField = email) => {
+    form = service.createFormFromSchema(
+      { id: 'test', title: 'Test', version: '1.0.0', sections: [{ id: 'contact', title: 'Contact', fields: [field] }] },
+      { schemaValidation: { enabled: false }, validation: { mode } }
+    );
+    fixture = TestBed.createComponent(TextHostComponent);
+    fixture.componentInstance.field = field;
+    fixture.componentInstance.form = form;
+    fixture.componentInstance.section = form.get('contact') as FormGroup;
+    fixture.componentInstance.submit = () => service.markAsSubmitted(form);
+    fixture.detectChanges();
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideNoopAnimations()] });
+    service = TestBed.inject(DynamicFormService);
+  });
+
+  afterEach(() => {
+    fixture.destroy();
+    service.destroyForm(form);
+  });
+
+  it('should validate while typing in onChange mode', () => {
+    createField('onChange');
+    expect(errors()).toEqual([]);
+
+    type('ada');
+    expect(form.get('contact.email')!.value).toBe('ada');
+    expect(errors()).toEqual(['Please enter a valid email address']);
+
+    type('ada@example.com');
+    expect(errors()).toEqual([]);
+  });
+
+  it('should commit the value and show errors once the field is left in onBlur mode', () => {
+    createField('onBlur');
+
+    type('ada');
+    expect(form.get('contact.email')!.value).toBe('');
+    expect(errors()).toEqual([]);
+
+    leave();
+    expect(form.get('contact.email')!.value).toBe('ada');
+    expect(errors()).toEqual(['Please enter a valid email address']);
+  });
+
+  it('should commit the value and show errors on submit in onSubmit mode', () => {
+    createField('onSubmit');
+
+    type('ada');
+    leave();
+    expect(form.get('contact.email')!.value).toBe('');
+    expect(errors()).toEqual([]);
+
+    fixture.debugElement.query(By.css('form')).triggerEventHandler('submit', new Event('submit'));
+    fixture.detectChanges();
+    expect(form.get('contact.email')!.value).toBe('ada');
+    expect(errors()).toEqual(['Please enter a valid email address']);
+  });
+
+  it('should follow the validation mode of the field over that of the form', () => {
+    createField('onSubmit', { ...email, validateOn: 'onChange' });
+
+    type('ada');
+    expect(form.get('contact.email')!.value).toBe('ada');
+    expect(errors()).toEqual(['Please enter a valid email address']);
+  });
+});
@@ -4,7 +4,10 @@ import { ReactiveFormsModule } from '@angular/forms';
 import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatInputModule } from '@angular/material/input';
 
-import { BaseFieldComponent } from './base-field.component';
+import { BaseFieldComponent, FIELD_VIEW_PROVIDERS } from './base-field.component';
+
+// Errors shown below the input, in order
+const TEXT_ERROR_KEYS = ['required', 'email', 'minlength', 'maxlength', 'pattern'];
 
 @Component({
   selector: 'app-text-field',
@@ -15,6 +18,7 @@ import { BaseFieldComponent } from './base-field.component';
     MatFormFieldModule,
     MatInputModule
   ],
+  viewProviders: FIELD_VIEW_PROVIDERS,
   template: `
     <mat-form-field appearance="outline" class="form-field">
       <mat-label>{{ field.label }}</mat-label>
@@ -23,27 +27,32 @@ import { BaseFieldComponent } from './base-field.component';
         [formControlName]="field.id"
         [placeholder]="placeholder"
         [readonly]="isDisabled"
-        [type]="field.inputType || 'text'"
-        [attr.autocomplete]="field.attributes?.autocomplete">
+        [type]="inputType"
+        [attr.autocomplete]="field.attributes?.['autocomplete'] || null">
       <mat-hint *ngIf="hasHint">{{ hint }}</mat-hint>
       
       <!-- Error Messages -->
-      <mat-error *ngIf="hasError('required')">
-        {{ getValidationMessage('required') }}
-      </mat-error>
-      <mat-error *ngIf="hasError('email')">
-        {{ getValidationMessage('email') }}
-      </mat-error>
-      <mat-error *ngIf="hasError('minlength')">
-        {{ getValidationMessage('minlength') }}
-      </mat-error>
-      <mat-error *ngIf="hasError('maxlength')">
-        {{ getValidationMessage('maxlength') }}
-      </mat-error>
-      <mat-error *ngIf="hasError('pattern')">
-        {{ getValidationMessage('pattern') }}
-      </mat-error>
+      <ng-container *ngFor="let errorKey of errorKeys">
+        <mat-error *ngIf="hasError(errorKey)">
+          {{ getValidationMessage(errorKey) }}
+        </mat-error>
+      </ng-container>
     </mat-form-field>
   `
 })
-export class TextFieldComponent extends BaseFieldComponent {}
+export class TextFieldComponent extends BaseFieldComponent {
+  /**
+   * Built-in errors in order, then those of registry validators
+   */
+  get errorKeys(): string[] {
+    return [...TEXT_ERROR_KEYS, ...this.getCustomErrorKeys(TEXT_ERROR_KEYS)];
+  }
+
+  /**
+   * Input type: "email" for email fields, else attributes.inputType (default "text")
+   */
+  get inputType(): string {
+    const inputType: unknown = this.field.attributes?.['inputType'];
+    return this.field.type === 'email' ? 'email' : typeof inputType === 'string' && inputType ? inputType : 'text';
+  }
+}
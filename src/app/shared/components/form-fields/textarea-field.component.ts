@@ -4,7 +4,10 @@ import { ReactiveFormsModule } from '@angular/forms';
 import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatInputModule } from '@angular/material/input';
 
-import { BaseFieldComponent } from './base-field.component';
+import { BaseFieldComponent, FIELD_VIEW_PROVIDERS } from './base-field.component';
+
+// Errors shown below the textarea, in order
+const TEXTAREA_ERROR_KEYS = ['required', 'minlength', 'maxlength'];
 
 @Component({
   selector: 'app-textarea-field',
@@ -15,6 +18,7 @@ import { BaseFieldComponent } from './base-field.component';
     MatFormFieldModule,
     MatInputModule
   ],
+  viewProviders: FIELD_VIEW_PROVIDERS,
   template: `
     <mat-form-field appearance="outline" class="form-field full-width">
       <mat-label>{{ field.label }}</mat-label>
@@ -23,22 +27,25 @@ import { BaseFieldComponent } from './base-field.component';
         [formControlName]="field.id"
         [placeholder]="placeholder"
         [readonly]="isDisabled"
-        [rows]="field.attributes?.rows || 3"
-        [attr.maxlength]="field.attributes?.maxlength">
+        [rows]="field.attributes?.['rows'] || 3"
+        [attr.maxlength]="field.attributes?.['maxlength'] || null">
       </textarea>
       <mat-hint *ngIf="hasHint">{{ hint }}</mat-hint>
       
       <!-- Error Messages -->
-      <mat-error *ngIf="hasError('required')">
-        {{ getValidationMessage('required') }}
-      </mat-error>
-      <mat-error *ngIf="hasError('minlength')">
-        {{ getValidationMessage('minlength') }}
-      </mat-error>
-      <mat-error *ngIf="hasError('maxlength')">
-        {{ getValidationMessage('maxlength') }}
-      </mat-error>
+      <ng-container *ngFor="let errorKey of errorKeys">
+        <mat-error *ngIf="hasError(errorKey)">
+          {{ getValidationMessage(errorKey) }}
+        </mat-error>
+      </ng-container>
     </mat-form-field>
   `
 })
-export class TextareaFieldComponent extends BaseFieldComponent {}
+export class TextareaFieldComponent extends BaseFieldComponent {
+  /**
+   * Built-in errors in order, then those of registry validators
+   */
+  get errorKeys(): string[] {
+    return [...TEXTAREA_ERROR_KEYS, ...this.getCustomErrorKeys(TEXTAREA_ERROR_KEYS)];
+  }
+}
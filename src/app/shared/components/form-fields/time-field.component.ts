@@ -0,0 +1,40 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule } from '@angular/forms';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+
+import { BaseFieldComponent, FIELD_VIEW_PROVIDERS } from './base-field.component';
+
+@Component({
+  selector: 'app-time-field',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatFormFieldModule,
+    MatInputModule
+  ],
+  viewProviders: FIELD_VIEW_PROVIDERS,
+  template: `
+    <mat-form-field appearance="outline" class="form-field">
+      <mat-label>{{ field.label }}</mat-label>
+      <!-- The native time input already produces ISO 8601 local times ("HH:mm") -->
+      <input 
+        matInput 
+        type="time"
+        [formControlName]="field.id"
+        [readonly]="isDisabled"
+        [min]="field.attributes?.['min']"
+        [max]="field.attributes?.['max']"
+        [step]="field.attributes?.['step']">
+      <mat-hint *ngIf="hasHint">{{ hint }}</mat-hint>
+      
+      <!-- Error Messages -->
+      <mat-error *ngIf="hasError('required')">
+        {{ getValidationMessage('required') }}
+      </mat-error>
+    </mat-form-field>
+  `
+})
+export class TimeFieldComponent extends BaseFieldComponent {}
@@ -0,0 +1,75 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule } from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatIconModule } from '@angular/material/icon';
+import { MatInputModule } from '@angular/material/input';
+
+import { BaseFieldComponent, FIELD_VIEW_PROVIDERS } from './base-field.component';
+import { FieldFormatService } from '../../services/field-format.service';
+
+// Errors shown below the input, in order
+const URL_ERROR_KEYS = ['required', 'url'];
+
+@Component({
+  selector: 'app-url-field',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatButtonModule,
+    MatFormFieldModule,
+    MatIconModule,
+    MatInputModule
+  ],
+  viewProviders: FIELD_VIEW_PROVIDERS,
+  template: `
+    <mat-form-field appearance="outline" class="form-field">
+      <mat-label>{{ field.label }}</mat-label>
+      <input
+        matInput
+        type="url"
+        inputmode="url"
+        autocomplete="url"
+        [formControlName]="field.id"
+        [placeholder]="placeholder || 'https://'"
+        [readonly]="isDisabled"
+        (blur)="onBlur()">
+      <a
+        *ngIf="control?.valid && control?.value"
+        matIconSuffix
+        mat-icon-button
+        [href]="control?.value"
+        target="_blank"
+        rel="noopener noreferrer"
+        [attr.aria-label]="'Open ' + field.label">
+        <mat-icon>open_in_new</mat-icon>
+      </a>
+      <mat-hint *ngIf="hasHint">{{ hint }}</mat-hint>
+
+      <!-- Error Messages -->
+      <ng-container *ngFor="let errorKey of errorKeys">
+        <mat-error *ngIf="hasError(errorKey)">
+          {{ getValidationMessage(errorKey) }}
+        </mat-error>
+      </ng-container>
+    </mat-form-field>
+  `
+})
+export class UrlFieldComponent extends BaseFieldComponent {
+  private readonly fieldFormatService = inject(FieldFormatService);
+
+  readonly errorKeys = URL_ERROR_KEYS;
+
+  /**
+   * Add "https://" when no scheme was typed
+   */
+  onBlur(): void {
+    if (this.isDisabled) return;
+    const normalized = this.fieldFormatService.normalizeUrl(this.control?.value);
+    if (normalized !== this.control?.value) {
+      this.control?.setValue(normalized);
+    }
+  }
+}
@@ -62,3 +62,15 @@ export interface FileUploadResponse {
   mimeType: string;
   uploadedAt: Timestamp;
 }
+
+// Events emitted by an upload: progress updates followed by a single completion
+export type FileUploadEvent =
+  | { type: 'progress'; progress: FileUploadProgress }
+  | { type: 'complete'; response: FileUploadResponse };
+
+// Entry of an option list endpoint; attributes are matched against the query parameters
+export interface OptionRecord {
+  value: string;
+  label: string;
+  attributes?: { [attribute: string]: string };
+}
@@ -24,9 +24,17 @@ export interface ApiResponse<T = any> {
   };
 }
 
+// Utility functions for ApiResponse type
+export const ApiResponse = {
+  // Response rejecting a request with validation errors, e.g. a save the server refused
+  isValidationFailure: (value: unknown): value is ApiResponse<null> & { errors: ValidationError[] } =>
+    typeof value === 'object' && value !== null
+      && (value as ApiResponse).success === false && Array.isArray((value as ApiResponse).errors)
+};
+
 // Error handling types
 export interface ValidationError {
-  field?: string;
+  field?: string; // Form data path, e.g. "employee_details.email_address" or "equipment_access.additional_equipment.0.quantity"
   code: string;
   message: string;
   details?: JsonValue;
@@ -5,31 +5,117 @@
 
 import { JsonValue } from './core.types';
 
-// Core field types actually used in the application
-export type FieldType = 
+// Field types rendered by the built-in field components
+export type BuiltInFieldType = 
   | 'text' 
   | 'email' 
   | 'number' 
-  | 'date' 
+  | 'currency' // CurrencyValue; attributes: currency or currencies (ISO 4217 codes)
+  | 'percentage' // Fraction, 0.125 for 12.5%
+  | 'phone' // E.164, "+14155550123"; attributes.defaultCountry completes national numbers
+  | 'url' // Absolute URL
+  | 'masked' // Text fitted to attributes.mask, e.g. "EMP-####-###"
+  | 'date' // ISO 8601 calendar date, "2024-02-15"
+  | 'datetime' // ISO 8601 instant in UTC, "2024-02-15T09:30:00.000Z"; edited in AppConfig.ui.timeZone
+  | 'time' // ISO 8601 local time, "09:30"
+  | 'daterange' // DateRangeValue of ISO 8601 calendar dates
   | 'select' 
   | 'radio' 
   | 'checkbox' 
-  | 'textarea';
+  | 'textarea'
+  | 'richtext' // Markdown string, rendered as sanitized HTML
+  | 'file'
+  | 'multiselect' // JsonArray of option values
+  | 'checkbox-group' // JsonArray of option values
+  | 'tags' // JsonArray of free-form strings
+  | 'table' // JsonArray of row objects keyed by column ID (see FormField.columns)
+  | 'user-picker' // User ID, or a JsonArray of IDs when attributes.multiple is set
+  | 'ticket-picker'; // Ticket ID, or a JsonArray of IDs when attributes.multiple is set
 
-// Basic validator types actually used
+/**
+ * Names of all field types: the built-in ones plus those registered by the app (see FieldComponentRegistryService).
+ * Augment this interface next to the registration to make a custom type a valid FieldType:
+ *
+ * declare module '../shared/models/form-schema.interface' {
+ *   interface FieldTypes { signature: true; }
+ * }
+ */
+export interface FieldTypes extends Record<BuiltInFieldType, true> {}
+
+export type FieldType = keyof FieldTypes;
+
+// Built-in validator types (see ValidatorRegistryService)
 export type ValidatorType = 
   | 'required' 
   | 'email' 
   | 'min' 
   | 'max' 
   | 'minlength' 
-  | 'maxlength';
+  | 'maxlength'
+  | 'pattern'
+  | 'url'
+  | 'phone'
+  | 'email-strict'
+  | 'minItems'
+  | 'maxItems'
+  | 'minDate' // args: ISO date or relative bound ("today", "today+3d", "today-1w"; units d, w, m, y)
+  | 'maxDate'
+  | 'weekdaysOnly'
+  | 'blackoutDates' // args: array of ISO dates
+  | 'mask'; // args: mask the whole value must fill, e.g. "EMP-####-###"
+
+// Severity of a validation message; only errors make a control invalid and block submitting
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+export const VALIDATION_SEVERITIES: ValidationSeverity[] = ['error', 'warning', 'info'];
 
 // Simple validator interface
 export interface FieldValidator {
-  name: ValidatorType;
+  name: ValidatorType | (string & Record<never, never>); // Built-in or any name registered with ValidatorRegistryService
   message?: string;
-  args?: number | string; // Simplified args type
+  args?: JsonValue; // Validator-specific args, e.g. a number for min/max or a regex string for pattern
+  severity?: ValidationSeverity; // Default 'error'; warnings and info are advisory and shown without blocking
+}
+
+// Helpers for validator declarations
+export const FieldValidators = {
+  isAdvisory: (validator: FieldValidator): boolean => (validator.severity ?? 'error') !== 'error',
+  // The blocking declaration of a validator, e.g. to read its args or message
+  find: (validators: FieldValidator[] | undefined, name: string): FieldValidator | undefined =>
+    validators?.find(validator => validator.name === name && !FieldValidators.isAdvisory(validator))
+};
+
+// Message of an advisory validator currently failing on a control
+export interface FieldWarning {
+  key: string; // Validator name
+  message: string;
+  severity: Exclude<ValidationSeverity, 'error'>;
+  acknowledged: boolean; // Stays acknowledged until the validator passes again
+}
+
+// Cross-field validator types (compare or combine several fields)
+export type CrossFieldValidatorType =
+  | 'lessThan'
+  | 'lessThanOrEqual'
+  | 'greaterThan'
+  | 'greaterThanOrEqual'
+  | 'equals'
+  | 'notEquals'
+  | 'atLeastOne'
+  | 'allOrNone';
+
+// Cross-field validator declared on a section (field IDs) or on the schema ("section.field" paths)
+export interface CrossFieldValidator {
+  name: CrossFieldValidatorType;
+  fields: string[]; // Comparison types use fields[0] <op> fields[1]
+  id?: string; // Error key, defaults to name (set it when a group declares the same type twice)
+  errorField?: string; // Field the error is reported on, defaults to the last entry of fields
+  message?: string;
+}
+
+// Error payload produced by cross-field validators on a group
+export interface CrossFieldError {
+  field: string; // Path of the reported field, relative to the validated group
+  message: string;
 }
 
 // Field option interface
@@ -37,12 +123,57 @@ export interface FieldOption {
   value: JsonValue;
   label: string;
   disabled?: boolean;
+  visibleWhen?: Condition; // Offers the option only while the condition holds
+  disabledWhen?: Condition; // Shows the option but prevents selecting it while the condition holds
 }
 
 // Field option group interface (for grouped selects)
 export interface FieldOptionGroup {
   label: string;
   options: FieldOption[];
+  disabled?: boolean;
+  visibleWhen?: Condition; // Applies to every option of the group
+  disabledWhen?: Condition;
+}
+
+// Entry of FormField.options: a single option or a labelled group of options
+export type FieldOptionEntry = FieldOption | FieldOptionGroup;
+
+// Remote option source, resolved through OptionsResolverService instead of inline options
+export interface FieldOptionsSource {
+  endpoint: string; // Endpoint of a registered options loader, e.g. "/departments"
+  params?: { [param: string]: JsonValue }; // Static query parameters
+  dependsOn?: { [param: string]: string }; // Query parameter → parent field path ("section.field"); options re-fetch when it changes
+  searchable?: boolean; // Query the source as the user types instead of loading the whole list
+  minSearchLength?: number; // Characters typed before the search is sent (default 2)
+  cache?: boolean; // Cache responses per query (default true)
+}
+
+// Breakpoints of APP_CONSTANTS.UI.BREAKPOINTS; each applies from its width up, xs also to narrower screens
+export type LayoutBreakpoint = 'xs' | 'sm' | 'md' | 'lg' | 'xl';
+export const LAYOUT_BREAKPOINTS: LayoutBreakpoint[] = ['xs', 'sm', 'md', 'lg', 'xl']; // Smallest first
+
+// Layout value for all breakpoints, or per breakpoint (inherited by larger breakpoints until overridden)
+export type ResponsiveValue = number | { [breakpoint in LayoutBreakpoint]?: number };
+
+// Placement of a field in its section grid (see FormLayoutService)
+export interface FieldLayout {
+  span?: ResponsiveValue; // Grid columns taken, capped at the section columns (defaults to 1, or all for full-width types)
+  row?: number; // Grid row within the field's group, starting at 1; fields without one fill the free cells in order
+  group?: string; // ID of the section group the field is shown in
+}
+
+// Grid of a section's fields
+export interface SectionLayout {
+  columns?: ResponsiveValue; // Grid columns, defaults to { xs: 1, sm: 2 }
+}
+
+// Visual sub-group of a section, shown with its own heading below the ungrouped fields
+export interface FieldGroup {
+  id: string;
+  title?: string;
+  description?: string;
+  divider?: boolean; // Rule above the group
 }
 
 // Core form field interface with only necessary properties
@@ -55,32 +186,79 @@ export interface FormField {
   readOnly?: boolean;
   disabled?: boolean;
   validators?: FieldValidator[];
-  options?: FieldOption[];
+  options?: FieldOptionEntry[]; // Groups render as mat-optgroup on select fields and flat elsewhere
+  optionsSource?: FieldOptionsSource; // Loads options remotely, optionally cascading from parent fields
   attributes?: { [key: string]: any }; // For additional HTML attributes like rows, etc.
-  visibleWhen?: ConditionalRule[]; // For conditional visibility
+  visibleWhen?: Condition; // For conditional visibility
+  requiredWhen?: Condition; // Adds Validators.required while the condition holds
+  disabledWhen?: Condition; // Disables the control (value kept) while the condition holds
+  readOnlyWhen?: Condition; // Locks the field for editing while the condition holds
+  calculated?: string; // Expression computing the value from other fields, e.g. "quantity * unit_price"; not in repeatable sections
+  columns?: FormField[]; // Columns of a table field; rows are limited with minItems/maxItems validators
+  layout?: FieldLayout;
+  validateOn?: ValidationMode; // Overrides the form's validation mode for this field
 }
 
 // Core form section interface
 export interface FormSection {
   id: string;
   title: string;
+  description?: string; // Shown above the fields
+  icon?: string; // Material icon of the header, guessed from the section ID when missing
   collapsible?: boolean;
   collapsed?: boolean;
   repeatable?: boolean;
   minRepeats?: number;
   maxRepeats?: number;
   fields: FormField[];
-  visibleWhen?: ConditionalRule[]; // For conditional section visibility
+  visibleWhen?: Condition; // For conditional section visibility
+  validators?: CrossFieldValidator[]; // Validators spanning fields of this section (per row when repeatable)
+  layout?: SectionLayout;
+  groups?: FieldGroup[]; // Fields join a group through layout.group, in the order of the section fields
+}
+
+// Wizard step grouping one or more sections
+export interface FormStep {
+  id: string;
+  title: string;
+  description?: string;
+  sections: string[]; // Section IDs, rendered in schema order
 }
 
 // Core form schema interface
 export interface FormSchema {
   id: string;
+  version?: string; // Current version; stored form data is migrated up to it (see FormSchemaMigrationService)
   title: string;
   description?: string;
   sections: FormSection[];
+  validators?: CrossFieldValidator[]; // Form-level validators spanning sections
+  presentation?: 'page' | 'wizard'; // Defaults to 'page' (all sections on one page)
+  steps?: FormStep[]; // Wizard steps, defaults to one step per section
 }
 
+// Stored value of an uploaded file; file fields hold one, or an array when attributes.multiple is set
+export type FileFieldValue = {
+  fileId: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  url: string;
+  thumbnailUrl: string | null;
+};
+
+// Stored value of a daterange field (ISO 8601 calendar dates, either end may be open while editing)
+export type DateRangeValue = {
+  start: string | null;
+  end: string | null;
+};
+
+// Stored value of a currency field (amount in major units, ISO 4217 currency code)
+export type CurrencyValue = {
+  amount: number;
+  currency: string;
+};
+
 // Form submission data type
 export interface FormSubmissionData {
   [sectionId: string]: SectionData;
@@ -90,16 +268,74 @@ export interface SectionData {
   [fieldId: string]: JsonValue;
 }
 
+// Change between two versions of form data (see FormDiffService)
+export type FormChangeType = 'added' | 'removed' | 'modified' | 'moved';
+
+export interface FormChange {
+  type: FormChangeType; // added/removed: a value set or cleared, or a whole row; moved: a row at another position
+  path: string; // "section.field", "section.0.field" in repeatable sections, "section.table.0.column" in tables; rows end at the index
+  sectionId: string;
+  fieldId?: string; // Field, or the table of a cell or row; absent for rows of repeatable sections
+  label: string; // e.g. "Employee Details › Full Name", "Additional Equipment, row 2 › Qty"
+  oldValue?: JsonValue;
+  newValue?: JsonValue;
+  oldDisplay?: string; // Values as shown in the form: option labels, formatted amounts and dates, user names
+  newDisplay?: string;
+  fromIndex?: number; // Rows: position in the old data (removed, moved, and rows whose fields changed)
+  toIndex?: number; // Rows: position in the new data (added, moved, and rows whose fields changed)
+}
+
+// Declarative migration step applied to stored form data; fields are "section.field" paths
+export type FormDataMigrationStep =
+  | { type: 'renameField'; section: string; from: string; to: string } // Field IDs within the section (per row when repeatable)
+  | { type: 'moveField'; from: string; to: string }
+  | { type: 'mapOptionValues'; field: string; values: { [oldValue: string]: JsonValue } }
+  | { type: 'splitField'; field: string; into: string[]; separator?: string } // Last target receives the remainder
+  | { type: 'mergeFields'; fields: string[]; into: string; separator?: string };
+
+// Upgrade of a schema's form data from one version to the next
+export interface FormSchemaMigration {
+  schemaId: string;
+  from: string;
+  to: string;
+  description?: string;
+  steps: FormDataMigrationStep[];
+}
+
+// Outcome of upgrading form data across one or more versions
+export interface FormDataMigrationResult {
+  data: FormSubmissionData;
+  fromVersion: string;
+  toVersion: string;
+  applied: FormSchemaMigration[];
+}
+
+// When a field's value is committed and validated (Angular updateOn change/blur/submit), and when its errors show:
+// once edited or touched, once left, or once the form (or wizard step) is submitted
+export type ValidationMode = 'onChange' | 'onBlur' | 'onSubmit';
+
 // Simplified form configuration - only includes actually used properties
 export interface DynamicFormConfig {
   validation?: {
-    mode?: 'onChange' | 'onBlur' | 'onSubmit';
-    debounceTime?: number;
+    mode?: ValidationMode; // Defaults to onChange
   };
   
   conditionalLogic?: {
     enabled?: boolean;
   };
+
+  schemaValidation?: {
+    enabled?: boolean; // Lint the schema before building the form (default true)
+    failOnError?: boolean; // Throw instead of logging when error diagnostics are found
+  };
+}
+
+// Runtime state of a field resulting from its conditional rules
+export interface FieldRuntimeState {
+  visible: boolean;
+  required: boolean;
+  disabled: boolean;
+  readOnly: boolean;
 }
 
 // Form validation error interface
@@ -109,17 +345,26 @@ export interface FormValidationError {
   fieldPath: string;
   message: string;
   code: string;
-  severity: 'error' | 'warning' | 'info';
+  severity: ValidationSeverity;
+  acknowledged?: boolean; // Warnings only
   timestamp: Date;
 }
 
-// Conditional rule interface for future use
+// Conditional rule interface (a single comparison against another field)
 export interface ConditionalRule {
   fieldId: string;
   operator: ConditionalOperator;
   value: JsonValue;
 }
 
+// Aggregate rule over the rows of a repeatable section, e.g. "count of dependents where relationship is child"
+export interface AggregateConditionRule {
+  count: string; // Repeatable section ID
+  where?: Condition; // Evaluated per row; references to the section's fields resolve to that row
+  operator: ConditionalOperator; // Compares the row count against value
+  value: JsonValue;
+}
+
 // Conditional operator type
 export type ConditionalOperator = 
   | 'equals' 
@@ -131,3 +376,86 @@ export type ConditionalOperator =
   | 'isEmpty' 
   | 'isNotEmpty';
 
+
+// Boolean condition groups - nestable to build arbitrary AND/OR/NOT trees
+export type ConditionGroup =
+  | { all: ConditionExpression[] }
+  | { any: ConditionExpression[] }
+  | { not: ConditionExpression };
+
+// A condition tree node: either a leaf rule or a group
+export type ConditionExpression = ConditionalRule | AggregateConditionRule | ConditionGroup;
+
+// Condition accepted by schema properties - a flat rule array is shorthand for { all: [...] }
+export type Condition = ConditionalRule[] | ConditionExpression;
+
+// Utility functions for Condition type
+export const Condition = {
+  normalize: (condition: Condition): ConditionExpression =>
+    Array.isArray(condition) ? { all: condition } : condition,
+  // Leaf nodes of the tree, including those nested in aggregate "where" conditions
+  leaves: (condition: Condition): Array<ConditionalRule | AggregateConditionRule> => {
+    const leaves: Array<ConditionalRule | AggregateConditionRule> = [];
+    const visit = (expression: ConditionExpression): void => {
+      if ('all' in expression) {
+        expression.all.forEach(visit);
+      } else if ('any' in expression) {
+        expression.any.forEach(visit);
+      } else if ('not' in expression) {
+        visit(expression.not);
+      } else {
+        leaves.push(expression);
+        if ('count' in expression && expression.where) {
+          visit(Condition.normalize(expression.where));
+        }
+      }
+    };
+    visit(Condition.normalize(condition));
+    return leaves;
+  },
+  rules: (condition: Condition): ConditionalRule[] =>
+    Condition.leaves(condition).filter((leaf): leaf is ConditionalRule => 'fieldId' in leaf),
+  aggregates: (condition: Condition): AggregateConditionRule[] =>
+    Condition.leaves(condition).filter((leaf): leaf is AggregateConditionRule => 'count' in leaf),
+  fieldIds: (condition: Condition): string[] =>
+    Array.from(new Set(Condition.rules(condition).map(rule => rule.fieldId)))
+};
+
+// Helpers for walking option entries
+export const FieldOptions = {
+  isGroup: (entry: FieldOptionEntry): entry is FieldOptionGroup => 'options' in entry,
+  // Every option, with groups expanded in place
+  flatten: (entries: FieldOptionEntry[]): FieldOption[] =>
+    entries.flatMap(entry => (FieldOptions.isGroup(entry) ? entry.options : [entry])),
+  // Option and group conditions, in declaration order
+  conditions: (entries: FieldOptionEntry[]): Condition[] =>
+    entries.flatMap(entry => [entry, ...(FieldOptions.isGroup(entry) ? entry.options : [])])
+      .flatMap(entry => [entry.visibleWhen, entry.disabledWhen])
+      .filter((condition): condition is Condition => !!condition)
+};
+
+// Schema diagnostic codes reported by FormSchemaValidatorService
+export type SchemaDiagnosticCode =
+  | 'LIMIT_EXCEEDED'
+  | 'DUPLICATE_ID'
+  | 'DANGLING_REFERENCE'
+  | 'CYCLIC_DEPENDENCY'
+  | 'UNKNOWN_VALIDATOR'
+  | 'INVALID_VALIDATOR_ARGS'
+  | 'UNEXPECTED_OPTIONS'
+  | 'MISSING_OPTIONS'
+  | 'UNKNOWN_OPTIONS_SOURCE'
+  | 'INVALID_DEFAULT'
+  | 'INVALID_FORMAT'
+  | 'INVALID_COLUMNS'
+  | 'INVALID_LAYOUT'
+  | 'INVALID_EXPRESSION'
+  | 'UNCOVERED_SECTION';
+
+// Structured result of static schema validation
+export interface SchemaDiagnostic {
+  severity: 'error' | 'warning';
+  code: SchemaDiagnosticCode;
+  path: string; // e.g. "employee_details.full_name.visibleWhen"
+  message: string;
+}
@@ -3,6 +3,8 @@
  * Contains only the essential data needed for ticket history display
  */
 
+import { FormChange } from './form-schema.interface';
+
 /**
  * Simplified history item representing a single ticket activity
  */
@@ -13,6 +15,7 @@ export interface HistoryItem {
   actor: string;         // e.g., "Jane Doe", "System"
   timestamp: string;     // e.g., "Jan 15, 2024, 10:00 AM"
   details?: string;      // Optional additional description
+  changes?: FormChange[]; // Form fields changed by a save
 }
 
 /**
@@ -22,4 +25,5 @@ export interface CreateHistoryItemRequest {
   action: string;
   actor: string;
   details?: string;
+  changes?: FormChange[];
 }
@@ -93,3 +93,5 @@ export interface Ticket {
   labels?: string[]; // Additional labels beyond tags
 }
 
+// Ticket summary listed by the directory, e.g. for ticket-picker fields
+export type TicketReference = Pick<Ticket, 'id' | 'ticketNumber' | 'title' | 'status'>;
@@ -0,0 +1,63 @@
+import { TestBed } from '@angular/core/testing';
+
+import { APP_CONFIG, createAppConfig, mergeConfigs } from '../../core/config/app.config';
+import { FieldType } from '../models';
+import { DateTimeService } from './date-time.service';
+
+describe('DateTimeService', () => {
+  let service: DateTimeService;
+
+  const configure = (timeZone: string) => {
+    const config = createAppConfig();
+    TestBed.configureTestingModule({
+      providers: [{ provide: APP_CONFIG, useValue: mergeConfigs(config, { ui: { ...config.ui, timeZone } }) }]
+    });
+    service = TestBed.inject(DateTimeService);
+  };
+
+  it('should resolve relative date bounds from today', () => {
+    configure('UTC');
+    const today = service.today();
+    const [year, month, day] = today.split('-').map(Number);
+    const inThreeDays = new Date(Date.UTC(year, month - 1, day + 3)).toISOString().slice(0, 10);
+
+    expect(service.resolveDateBound('today')).toBe(today);
+    expect(service.resolveDateBound('today+3d')).toBe(inThreeDays);
+    expect(service.resolveDateBound('2024-02-15')).toBe('2024-02-15');
+    expect(service.resolveDateBound('next week')).toBeNull();
+  });
+
+  it('should read datetime input values as wall time in the configured time zone', () => {
+    configure('Asia/Kolkata');
+    const instant = service.fromZonedInputValue('2024-07-01T09:15');
+
+    expect(instant).toBe('2024-07-01T03:45:00.000Z');
+    expect(service.toZonedInputValue(instant)).toBe('2024-07-01T09:15');
+    expect(service.toIsoDate('2024-06-30T20:00:00.000Z')).toBe('2024-07-01');
+  });
+
+  it('should serialize date and time values to ISO 8601', () => {
+    configure('UTC');
+    const serialize = (type: FieldType, value: unknown): unknown => service.serialize(type, value);
+
+    expect(serialize('date', new Date(2024, 1, 15))).toBe('2024-02-15');
+    expect(serialize('time', '09:30')).toBe('09:30');
+    expect(serialize('daterange', { start: new Date(2024, 0, 1), end: '2024-01-05' }))
+      .toEqual({ start: '2024-01-01', end: '2024-01-05' });
+    expect(serialize('daterange', { start: null, end: null })).toBeNull();
+  });
+
+  it('should apply weekday and blackout constraints', () => {
+    configure('UTC');
+    const constraints = service.getDateConstraints({
+      id: 'start_date',
+      label: 'Start Date',
+      type: 'date',
+      validators: [{ name: 'weekdaysOnly' }, { name: 'blackoutDates', args: ['2024-12-25'] }]
+    });
+
+    expect(constraints.filter('2024-12-24')).toBeTrue();
+    expect(constraints.filter('2024-12-25')).toBeFalse();
+    expect(constraints.filter('2024-12-28')).toBeFalse();
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Date Time Service
+ * Time-zone aware parsing, serialization and constraints for date and time fields
+ *
+ * Stored values are always ISO 8601: calendar dates ("2024-02-15") for date and daterange fields,
+ * UTC instants ("2024-02-15T09:30:00.000Z") for datetime fields and local times ("09:30") for
+ * time fields. "Today" and datetime editing follow AppConfig.ui.timeZone, not the browser zone.
+ */
+
+import { Injectable, inject } from '@angular/core';
+
+import { APP_CONFIG } from '../../core/config/app.config';
+import { DateRangeValue, FieldType, FieldValidators, FormField, JsonValue } from '../models';
+
+// Date constraints of a field, resolved from its date validators
+export interface DateConstraints {
+  min: string | null; // ISO date
+  max: string | null; // ISO date
+  filter: (isoDate: string) => boolean; // Weekday and blackout rules
+}
+
+// Calendar and clock parts of an instant in the configured time zone
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+const RELATIVE_BOUND_PATTERN = /^today(?:\s*([+-])\s*(\d+)\s*([dwmy]))?$/i;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class DateTimeService {
+  private readonly config = inject(APP_CONFIG);
+  private zonedFormatter?: Intl.DateTimeFormat;
+
+  /**
+   * IANA time zone that "today" and datetime fields are interpreted in
+   */
+  get timeZone(): string {
+    return this.config.ui.timeZone;
+  }
+
+  /**
+   * Current calendar date in the configured time zone
+   */
+  today(): string {
+    const parts = this.getZonedParts(new Date());
+    return this.formatIsoDate(parts.year, parts.month, parts.day);
+  }
+
+  /**
+   * Resolves a minDate/maxDate bound: an ISO date or "today" with an optional offset ("today+3d", "today-2w")
+   * @returns the ISO date, or null when the bound is not valid
+   */
+  resolveDateBound(bound: JsonValue | undefined): string | null {
+    if (typeof bound !== 'string') return null;
+
+    const value = bound.trim();
+    if (ISO_DATE_PATTERN.test(value)) {
+      return this.toIsoDate(value);
+    }
+
+    const match = RELATIVE_BOUND_PATTERN.exec(value);
+    if (!match) return null;
+
+    const [, sign, amount, unit] = match;
+    if (!sign) return this.today();
+    return this.addToIsoDate(this.today(), (sign === '-' ? -1 : 1) * Number(amount), unit.toLowerCase() as 'd' | 'w' | 'm' | 'y');
+  }
+
+  /**
+   * Resolves the minDate/maxDate/weekdaysOnly/blackoutDates validators of a field for date pickers
+   */
+  getDateConstraints(field: FormField): DateConstraints {
+    const validator = (name: string) => FieldValidators.find(field.validators, name);
+    const blackout = validator('blackoutDates')?.args;
+    const blackoutDates = Array.isArray(blackout) ? blackout.map(date => this.toIsoDate(date)) : [];
+    const weekdaysOnly = !!validator('weekdaysOnly');
+
+    return {
+      min: this.resolveDateBound(validator('minDate')?.args),
+      max: this.resolveDateBound(validator('maxDate')?.args),
+      filter: isoDate => (!weekdaysOnly || this.isWeekday(isoDate)) && !blackoutDates.includes(isoDate)
+    };
+  }
+
+  /**
+   * Checks whether an ISO date falls on Monday to Friday
+   */
+  isWeekday(isoDate: string): boolean {
+    const [year, month, day] = isoDate.split('-').map(Number);
+    const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+    return weekday !== 0 && weekday !== 6;
+  }
+
+  /**
+   * Converts a date value to an ISO calendar date.
+   * Date objects (as emitted by the datepicker) are read in local time, the calendar day the user picked;
+   * ISO instants are read in the configured time zone.
+   */
+  toIsoDate(value: unknown): string | null {
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? null : this.formatIsoDate(value.getFullYear(), value.getMonth() + 1, value.getDate());
+    }
+    if (typeof value !== 'string' || !value) return null;
+
+    if (ISO_DATE_PATTERN.test(value)) {
+      const [year, month, day] = value.split('-').map(Number);
+      const date = new Date(Date.UTC(year, month - 1, day));
+      return date.getUTCMonth() === month - 1 ? value : null;
+    }
+
+    const instant = new Date(value);
+    if (isNaN(instant.getTime())) return null;
+    const parts = this.getZonedParts(instant);
+    return this.formatIsoDate(parts.year, parts.month, parts.day);
+  }
+
+  /**
+   * Parses an ISO calendar date into a local-midnight Date for the datepicker.
+   * The datepicker's own parsing reads "YYYY-MM-DD" as UTC midnight, which is the previous day west of UTC.
+   */
+  parseIsoDate(value: unknown): Date | null {
+    const isoDate = this.toIsoDate(value);
+    if (!isoDate) return null;
+    const [year, month, day] = isoDate.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+
+  /**
+   * Converts a datetime value to an ISO instant in UTC
+   */
+  toIsoDateTime(value: unknown): string | null {
+    if (!(value instanceof Date) && (typeof value !== 'string' || !value)) return null;
+    const instant = new Date(value);
+    return isNaN(instant.getTime()) ? null : instant.toISOString();
+  }
+
+  /**
+   * Converts a time value to an ISO local time ("HH:mm" or "HH:mm:ss")
+   */
+  toIsoTime(value: unknown): string | null {
+    return typeof value === 'string' && ISO_TIME_PATTERN.test(value) ? value : null;
+  }
+
+  /**
+   * Formats an ISO instant as the value of a datetime-local input in the configured time zone
+   */
+  toZonedInputValue(value: unknown): string {
+    const iso = this.toIsoDateTime(value);
+    if (!iso) return '';
+    const parts = this.getZonedParts(new Date(iso));
+    return `${this.formatIsoDate(parts.year, parts.month, parts.day)}T${this.pad(parts.hour)}:${this.pad(parts.minute)}`;
+  }
+
+  /**
+   * Reads a datetime-local input value as wall time in the configured time zone
+   * @returns the ISO instant, or null when the input is empty or invalid
+   */
+  fromZonedInputValue(value: string): string | null {
+    const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/.exec(value);
+    if (!match) return null;
+
+    const [year, month, day, hour, minute, second] = match.slice(1).map(part => Number(part ?? 0));
+    const wallTime = Date.UTC(year, month - 1, day, hour, minute, second);
+
+    // The offset at the guessed instant can differ across a DST change, so check it once more
+    let instant = wallTime - this.getOffsetMinutes(new Date(wallTime)) * 60000;
+    const offset = this.getOffsetMinutes(new Date(instant));
+    instant = wallTime - offset * 60000;
+
+    return new Date(instant).toISOString();
+  }
+
+  /**
+   * Formats an ISO date for display, e.g. "Feb 15, 2024"
+   */
+  formatDate(value: unknown, locale: string = this.config.ui.language): string {
+    const iso = this.toIsoDate(value);
+    if (!iso) return '';
+    return new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeZone: 'UTC' }).format(new Date(`${iso}T00:00:00Z`));
+  }
+
+  /**
+   * Formats an ISO instant for display in the configured time zone
+   */
+  formatDateTime(value: unknown, locale: string = this.config.ui.language): string {
+    const iso = this.toIsoDateTime(value);
+    if (!iso) return '';
+    return new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short', timeZone: this.timeZone }).format(new Date(iso));
+  }
+
+  /**
+   * Serializes a control value of a date or time field to ISO 8601; other types are returned unchanged
+   */
+  serialize(type: FieldType, value: unknown): JsonValue {
+    switch (type) {
+      case 'date':
+        return this.toIsoDate(value);
+      case 'datetime':
+        return this.toIsoDateTime(value);
+      case 'time':
+        return this.toIsoTime(value);
+      case 'daterange': {
+        const range = this.toDateRange(value);
+        return range.start || range.end ? range : null;
+      }
+      default:
+        return value as JsonValue;
+    }
+  }
+
+  /**
+   * Reads a daterange value, tolerating a missing or partial object
+   */
+  toDateRange(value: unknown): DateRangeValue {
+    const range = (value && typeof value === 'object' ? value : {}) as { start?: unknown; end?: unknown };
+    return { start: this.toIsoDate(range.start), end: this.toIsoDate(range.end) };
+  }
+
+  // === PRIVATE HELPER METHODS ===
+
+  private addToIsoDate(isoDate: string, amount: number, unit: 'd' | 'w' | 'm' | 'y'): string {
+    const [year, month, day] = isoDate.split('-').map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+
+    switch (unit) {
+      case 'd':
+        date.setUTCDate(date.getUTCDate() + amount);
+        break;
+      case 'w':
+        date.setUTCDate(date.getUTCDate() + amount * 7);
+        break;
+      case 'm':
+        date.setUTCMonth(date.getUTCMonth() + amount);
+        break;
+      case 'y':
+        date.setUTCFullYear(date.getUTCFullYear() + amount);
+        break;
+    }
+
+    return this.formatIsoDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+  }
+
+  private getZonedParts(instant: Date): ZonedParts {
+    this.zonedFormatter ??= new Intl.DateTimeFormat('en-US', {
+      timeZone: this.timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+
+    const parts = this.zonedFormatter.formatToParts(instant);
+    const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value ?? 0);
+    return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+  }
+
+  /**
+   * Minutes the configured time zone is ahead of UTC at an instant
+   */
+  private getOffsetMinutes(instant: Date): number {
+    const parts = this.getZonedParts(instant);
+    const zonedAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return Math.round((zonedAsUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+  }
+
+  private formatIsoDate(year: number, month: number, day: number): string {
+    return `${String(year).padStart(4, '0')}-${this.pad(month)}-${this.pad(day)}`;
+  }
+
+  private pad(value: number): string {
+    return String(value).padStart(2, '0');
+  }
+}
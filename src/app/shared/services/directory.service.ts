@@ -0,0 +1,95 @@
+/**
+ * Directory Service
+ * Searches users and tickets for user-picker and ticket-picker fields and resolves stored IDs
+ *
+ * Picker fields store only the ID of the referenced user or ticket; the records shown next to it are
+ * looked up here. Backed by MockDataService.
+ */
+
+import { Injectable, inject } from '@angular/core';
+import { Observable, delay, map, of } from 'rxjs';
+
+import { TicketReference, User } from '../models';
+import { MockDataService } from './mock-data.service';
+
+// Narrows a user search, e.g. from the attributes of a user-picker field
+export interface UserSearchFilter {
+  department?: string;
+}
+
+// Results returned per search
+const DIRECTORY_SEARCH_LIMIT = 8;
+
+// Simulated latency of the mock directory
+const MOCK_LATENCY_MS = 300;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class DirectoryService {
+  private readonly mockDataService = inject(MockDataService);
+  private readonly directory = this.mockDataService.getDirectoryData();
+
+  /**
+   * Search active users by name, email or username
+   */
+  searchUsers(search: string, filter: UserSearchFilter = {}): Observable<User[]> {
+    const terms = this.getSearchTerms(search);
+    const users = this.directory.users
+      .filter(user => user.isActive)
+      .filter(user => !filter.department || user.department === filter.department)
+      .filter(user => this.matches([user.name, user.email, user.username], terms))
+      .slice(0, DIRECTORY_SEARCH_LIMIT);
+    return of(users).pipe(delay(MOCK_LATENCY_MS));
+  }
+
+  /**
+   * Resolve users by ID, in the order requested; unknown IDs are left out.
+   * Inactive users are included so existing references keep their name.
+   */
+  getUsers(ids: string[]): Observable<User[]> {
+    return this.resolve(ids, this.directory.users);
+  }
+
+  /**
+   * Search tickets by number or title
+   */
+  searchTickets(search: string): Observable<TicketReference[]> {
+    const terms = this.getSearchTerms(search);
+    const tickets = this.directory.tickets
+      .filter(ticket => this.matches([ticket.ticketNumber, ticket.title], terms))
+      .slice(0, DIRECTORY_SEARCH_LIMIT);
+    return of(tickets).pipe(delay(MOCK_LATENCY_MS));
+  }
+
+  /**
+   * Resolve tickets by ID, in the order requested; unknown IDs are left out
+   */
+  getTickets(ids: string[]): Observable<TicketReference[]> {
+    return this.resolve(ids, this.directory.tickets);
+  }
+
+  // === PRIVATE HELPER METHODS ===
+
+  private resolve<T extends { id: string }>(ids: string[], records: T[]): Observable<T[]> {
+    if (!ids.length) return of([]);
+    return of(records).pipe(
+      delay(MOCK_LATENCY_MS),
+      map(list => ids
+        .map(id => list.find(record => record.id === id))
+        .filter((record): record is T => record !== undefined))
+    );
+  }
+
+  private getSearchTerms(search: string): string[] {
+    return search.toLowerCase().split(/\s+/).filter(Boolean);
+  }
+
+  /**
+   * Every term has to appear in one of the values
+   */
+  private matches(values: string[], terms: string[]): boolean {
+    const haystack = values.join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  }
+}
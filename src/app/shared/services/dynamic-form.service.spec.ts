@@ -0,0 +1,609 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { AbstractControl, FormArray } from '@angular/forms';
+import { of } from 'rxjs';
+
+import { FormField, FormSchema, FormSection, FormSubmissionData, ValidationError } from '../models';
+import { DynamicFormService } from './dynamic-form.service';
+import { ValidatorRegistryService } from './validator-registry.service';
+
+describe('DynamicFormService', () => {
+  let service: DynamicFormService;
+
+  const field = (id: string, extra: Partial<FormField> = {}): FormField => ({ id, label: id, type: 'text', ...extra });
+  const createForm = (schema: Omit<FormSchema, 'id' | 'title' | 'version'>) =>
+    service.createFormFromSchema({ id: 'test', title: 'Test', version: '1.0.0', ...schema }, { schemaValidation: { enabled: false } });
+
+  beforeEach(() => {
+    service = TestBed.inject(DynamicFormService);
+  });
+
+  it('should run async validators once the value settles', fakeAsync(() => {
+    const checked: string[] = [];
+    TestBed.inject(ValidatorRegistryService).registerAsync('uniqueEmail', {
+      factory: () => (control: AbstractControl) => {
+        checked.push(String(control.value));
+        return of(control.value === 'ada@example.com' ? { uniqueEmail: true } : null);
+      }
+    });
+    const form = createForm({ sections: [{ id: 'contact', title: 'Contact', fields: [field('email', { validators: [{ name: 'uniqueEmail' }] })] }] });
+    const email = form.get('contact.email')!;
+
+    email.setValue('a');
+    email.setValue('ada@example.com');
+    expect(email.pending).toBeTrue();
+    expect(form.pending).toBeTrue();
+
+    tick(300);
+    expect(checked).toEqual(['ada@example.com']);
+    expect(email.errors).toEqual({ uniqueEmail: true });
+    expect(form.invalid).toBeTrue();
+    service.destroyForm(form);
+  }));
+
+  it('should restore every stored row of repeatable sections with their rules', () => {
+    const dependents: FormSection = {
+      id: 'dependents',
+      title: 'Dependents',
+      repeatable: true,
+      fields: [
+        field('relationship'),
+        field('school', { visibleWhen: [{ fieldId: 'dependents.relationship', operator: 'equals', value: 'child' }] })
+      ]
+    };
+    const benefits: FormSection = {
+      id: 'benefits',
+      title: 'Benefits',
+      fields: [field('family_plan', { visibleWhen: { count: 'dependents', operator: 'greaterThan', value: 1 } })]
+    };
+    const form = createForm({ sections: [dependents, benefits] });
+    const rows = form.get('dependents') as FormArray;
+    const spouse = { relationship: 'spouse', school: '' };
+    const child = { relationship: 'child', school: 'Elm Street Elementary' };
+
+    service.populateForm(form, { dependents: [spouse, child] } as unknown as FormSubmissionData);
+    expect(rows.getRawValue()).toEqual([spouse, child]);
+    expect(service.getFieldState(rows.at(0).get('school'))?.visible).toBeFalse();
+    expect(service.getFieldState(rows.at(1).get('school'))?.visible).toBeTrue();
+    expect(service.getFieldState(form.get('benefits.family_plan'))?.visible).toBeTrue();
+
+    service.populateForm(form, { dependents: [spouse] } as unknown as FormSubmissionData);
+    expect(rows.getRawValue()).toEqual([spouse]);
+    expect(service.getFieldState(form.get('benefits.family_plan'))?.visible).toBeFalse();
+    service.destroyForm(form);
+  });
+
+  it('should apply chained rules in dependency order within one change', () => {
+    const form = createForm({
+      sections: [
+        { id: 'review', title: 'Review', fields: [field('approval', { visibleWhen: [{ fieldId: 'order.total', operator: 'greaterThan', value: 100 }] })] },
+        {
+          id: 'order',
+          title: 'Order',
+          fields: [
+            field('total', { type: 'number', calculated: 'quantity * price' }),
+            field('has_items', { type: 'checkbox' }),
+            field('quantity', { type: 'number', visibleWhen: [{ fieldId: 'order.has_items', operator: 'equals', value: true }] }),
+            field('price', { type: 'number' })
+          ]
+        }
+      ]
+    });
+    const approval = form.get('review.approval');
+    const totals: unknown[] = [];
+    form.get('order.total')!.valueChanges.subscribe(total => totals.push(total));
+
+    form.get('order')!.patchValue({ has_items: true, quantity: 5, price: 40 });
+    expect(form.get('order.total')!.value).toBe(200);
+    expect(service.getFieldState(approval)?.visible).toBeTrue();
+
+    // Hiding quantity resets it silently; only the rule graph carries that on to total and approval
+    totals.length = 0;
+    form.get('order.has_items')!.setValue(false);
+    expect(totals).toEqual([0]);
+    expect(service.getFieldState(approval)?.visible).toBeFalse();
+    service.destroyForm(form);
+  });
+
+  it('should report rule cycles as schema errors and still apply the rules in them', () => {
+    const sections: FormSection[] = [{
+      id: 'employee',
+      title: 'Employee',
+      fields: [
+        field('a', { visibleWhen: [{ fieldId: 'employee.b', operator: 'isNotEmpty', value: null }] }),
+        field('b', { visibleWhen: [{ fieldId: 'employee.a', operator: 'isNotEmpty', value: null }] })
+      ]
+    }];
+    expect(() => service.createFormFromSchema(
+      { id: 'test', title: 'Test', version: '1.0.0', sections },
+      { schemaValidation: { enabled: true, failOnError: true } }
+    )).toThrowError(/Dependency cycle: employee\.(a|b) -> employee\.(a|b) -> employee\.(a|b)/);
+
+    const form = createForm({ sections });
+    expect(service.getFieldState(form.get('employee.a'))?.visible).toBeFalse();
+    expect(service.getFieldState(form.get('employee.b'))?.visible).toBeFalse();
+    service.destroyForm(form);
+  });
+
+  it('should add and drop the rules of repeatable section rows with the rows', () => {
+    const dependents: FormSection = {
+      id: 'dependents',
+      title: 'Dependents',
+      repeatable: true,
+      fields: [
+        field('relationship'),
+        field('school', { visibleWhen: [{ fieldId: 'dependents.relationship', operator: 'equals', value: 'child' }] })
+      ]
+    };
+    const form = createForm({ sections: [dependents] });
+    const rows = form.get('dependents') as FormArray;
+
+    service.addRepeatableSection(form, 'dependents', dependents);
+    service.addRepeatableSection(form, 'dependents', dependents);
+    const [first, second] = rows.controls;
+    expect(service.getFieldState(second.get('school'))?.visible).toBeFalse();
+    second.get('relationship')!.setValue('child');
+    expect(service.getFieldState(second.get('school'))?.visible).toBeTrue();
+
+    // A removed row keeps the state its rules last gave it, even when every rule is re-applied
+    service.removeRepeatableSection(form, 'dependents', 1, dependents);
+    second.get('relationship')!.setValue('spouse');
+    service.populateForm(form, { dependents: [{ relationship: 'child', school: '' }] } as unknown as FormSubmissionData);
+    expect(rows.controls).toEqual([first]);
+    expect(service.getFieldState(first.get('school'))?.visible).toBeTrue();
+    expect(service.getFieldState(second.get('school'))?.visible).toBeTrue();
+    service.destroyForm(form);
+  });
+
+  it('should stop applying rules once the form is destroyed', () => {
+    const form = createForm({
+      sections: [{
+        id: 'order',
+        title: 'Order',
+        fields: [
+          field('quantity', { type: 'number' }),
+          field('total', { type: 'number', calculated: 'quantity * 2' }),
+          field('notes', { visibleWhen: [{ fieldId: 'order.quantity', operator: 'greaterThan', value: 1 }] })
+        ]
+      }]
+    });
+    form.get('order.quantity')!.setValue(2);
+    expect(form.get('order.total')!.value).toBe(4);
+
+    service.destroyForm(form);
+    form.get('order.quantity')!.setValue(1);
+    expect(form.get('order.total')!.value).toBe(4);
+    expect(service.getFieldState(form.get('order.notes'))?.visible).toBeTrue();
+  });
+
+  it('should set server errors on table cells and row fields and return the rest', () => {
+    const form = createForm({
+      sections: [
+        {
+          id: 'equipment',
+          title: 'Equipment',
+          fields: [field('additional_equipment', { type: 'table', columns: [field('item'), field('quantity', { type: 'number' })] })]
+        },
+        { id: 'dependents', title: 'Dependents', repeatable: true, fields: [field('relationship')] }
+      ]
+    });
+    service.populateForm(form, {
+      equipment: { additional_equipment: [{ item: 'Monitor', quantity: 1 }, { item: 'Dock', quantity: 8 }] },
+      dependents: [{ relationship: 'child' }]
+    } as unknown as FormSubmissionData);
+    const quantity = form.get('equipment.additional_equipment.1.quantity')!;
+    const relationship = form.get('dependents.0.relationship')!;
+    const error = (path: string | undefined, code: string): ValidationError => ({ field: path, code, message: `${code} message` });
+    const unmapped = [
+      error('equipment.additional_equipment[4].quantity', 'OUT_OF_RANGE'),
+      error('dependents.0', 'ROW'),
+      error('equipment.unknown', 'UNKNOWN_FIELD'),
+      error(undefined, 'FORM')
+    ];
+
+    expect(service.applyServerErrors(form, [
+      error('equipment.additional_equipment[1].quantity', 'QUANTITY_EXCEEDED'),
+      error('dependents.0.relationship', 'INVALID_RELATIONSHIP'),
+      ...unmapped
+    ])).toEqual(unmapped);
+    expect(service.getServerError(quantity)).toBe('QUANTITY_EXCEEDED message');
+    expect(service.getServerError(relationship)).toBe('INVALID_RELATIONSHIP message');
+    expect(form.get('equipment.additional_equipment.0.quantity')!.errors).toBeNull();
+
+    quantity.setValue(5);
+    expect(service.getServerError(quantity)).toBeNull();
+    expect(service.getServerError(relationship)).toBe('INVALID_RELATIONSHIP message');
+    service.destroyForm(form);
+  });
+
+  it('should keep server errors through revalidation until the value changes', () => {
+    const form = createForm({
+      sections: [{ id: 'contact', title: 'Contact', fields: [field('email', { validators: [{ name: 'required' }] }), field('phone')] }]
+    });
+    service.populateForm(form, { contact: { email: 'ada@example.com', phone: '' } });
+    const email = form.get('contact.email')!;
+
+    service.applyServerErrors(form, [{ field: 'contact.email', code: 'EMAIL_TAKEN', message: 'Email is taken' }]);
+    expect(email.errors).toEqual({ serverError: { code: 'EMAIL_TAKEN', message: 'Email is taken' } });
+    expect(email.touched).toBeTrue();
+    expect(form.invalid).toBeTrue();
+
+    form.get('contact.phone')!.setValue('+441234567890');
+    email.updateValueAndValidity();
+    form.updateValueAndValidity();
+    expect(service.getServerError(email)).toBe('Email is taken');
+
+    email.setValue('');
+    expect(service.getServerError(email)).toBeNull();
+    expect(email.errors).toEqual({ required: true });
+
+    email.setValue('ada@example.com');
+    expect(email.errors).toBeNull();
+    expect(form.valid).toBeTrue();
+    service.destroyForm(form);
+  });
+
+  it('should evaluate nested all/any/not conditions, with flat rule arrays as all', () => {
+    const processType = (value: string) => ({ fieldId: 'onboarding.process_type', operator: 'equals' as const, value });
+    const remote = { fieldId: 'onboarding.remote', operator: 'equals' as const, value: true };
+    const form = createForm({
+      sections: [{
+        id: 'onboarding',
+        title: 'Onboarding',
+        fields: [
+          field('process_type'),
+          field('remote', { type: 'checkbox' }),
+          field('laptop_model', { visibleWhen: { all: [{ any: [processType('onboarding'), processType('role_change')] }, { not: remote }] } }),
+          field('desk', { visibleWhen: [processType('onboarding'), { ...remote, operator: 'notEquals' }] })
+        ]
+      }]
+    });
+    const visible = (fieldId: string) => service.getFieldState(form.get(`onboarding.${fieldId}`))?.visible;
+
+    expect(visible('laptop_model')).toBeFalse();
+    expect(visible('desk')).toBeFalse();
+
+    form.get('onboarding.process_type')!.setValue('role_change');
+    expect(visible('laptop_model')).toBeTrue();
+    expect(visible('desk')).toBeFalse();
+
+    form.get('onboarding.remote')!.setValue(true);
+    expect(visible('laptop_model')).toBeFalse();
+
+    form.get('onboarding.process_type')!.setValue('onboarding');
+    form.get('onboarding.remote')!.setValue(false);
+    expect(visible('laptop_model')).toBeTrue();
+    expect(visible('desk')).toBeTrue();
+    service.destroyForm(form);
+  });
+
+  it('should toggle required and disabled by rule and submit disabled but not hidden values', () => {
+    const remote = { fieldId: 'employment.remote', operator: 'equals' as const, value: true };
+    const form = createForm({
+      sections: [{
+        id: 'employment',
+        title: 'Employment',
+        fields: [
+          field('contract_type'),
+          field('end_date', { requiredWhen: [{ fieldId: 'employment.contract_type', operator: 'equals', value: 'fixed_term' }] }),
+          field('remote', { type: 'checkbox' }),
+          field('office', { disabledWhen: [remote] }),
+          field('parking_spot', { visibleWhen: { not: remote } })
+        ]
+      }]
+    });
+    const endDate = form.get('employment.end_date')!;
+    const office = form.get('employment.office')!;
+
+    expect(endDate.valid).toBeTrue();
+    form.get('employment.contract_type')!.setValue('fixed_term');
+    expect(endDate.hasError('required')).toBeTrue();
+    expect(service.getFieldState(endDate)?.required).toBeTrue();
+    form.get('employment.contract_type')!.setValue('permanent');
+    expect(endDate.valid).toBeTrue();
+
+    office.setValue('Berlin');
+    form.get('employment.parking_spot')!.setValue('P12');
+    form.get('employment.remote')!.setValue(true);
+    expect(office.disabled).toBeTrue();
+    expect(service.convertToSubmissionData(form)['employment'] as unknown).toEqual({
+      contract_type: 'permanent', end_date: '', remote: true, office: 'Berlin'
+    });
+
+    form.get('employment.remote')!.setValue(false);
+    expect(office.enabled).toBeTrue();
+    expect(office.value).toBe('Berlin');
+    service.destroyForm(form);
+  });
+
+  it('should compare cross-field values by field type and word default messages for it', () => {
+    const form = createForm({
+      sections: [{
+        id: 'offer',
+        title: 'Offer',
+        fields: [
+          field('min_salary', { type: 'number', label: 'Minimum salary' }),
+          field('max_salary', { type: 'number', label: 'Maximum salary' }),
+          field('budget', { type: 'currency' }),
+          field('amount', { type: 'currency' }),
+          field('start', { type: 'date', label: 'Start date' }),
+          field('end', { type: 'date', label: 'End date' }),
+          field('old_code'),
+          field('new_code')
+        ],
+        validators: [
+          { name: 'lessThanOrEqual', fields: ['min_salary', 'max_salary'] },
+          { name: 'lessThanOrEqual', id: 'withinBudget', fields: ['amount', 'budget'] },
+          { name: 'lessThan', id: 'startBeforeEnd', fields: ['start', 'end'] },
+          { name: 'notEquals', id: 'newCode', fields: ['old_code', 'new_code'] }
+        ]
+      }]
+    });
+    const offer = form.get('offer')!;
+
+    offer.patchValue({ min_salary: 90000, max_salary: 80000 });
+    expect(offer.getError('lessThanOrEqual')).toEqual({ field: 'max_salary', message: 'Minimum salary must not be greater than Maximum salary' });
+    offer.patchValue({ max_salary: 100000 });
+    expect(offer.errors).toBeNull();
+
+    offer.patchValue({ budget: { amount: 5000, currency: 'EUR' }, amount: { amount: 6000, currency: 'EUR' } });
+    expect(offer.hasError('withinBudget')).toBeTrue();
+    offer.patchValue({ amount: { amount: 4000, currency: 'EUR' } });
+    expect(offer.hasError('withinBudget')).toBeFalse();
+
+    offer.patchValue({ start: new Date(2024, 2, 10), end: '2024-03-01' });
+    expect(offer.getError('startBeforeEnd')).toEqual({ field: 'end', message: 'Start date must be before End date' });
+    offer.patchValue({ end: new Date(2024, 2, 11) });
+    expect(offer.hasError('startBeforeEnd')).toBeFalse();
+
+    // Text that reads as a date is still compared as text
+    offer.patchValue({ old_code: '1/2/2024', new_code: '2024-01-02' });
+    expect(offer.hasError('newCode')).toBeFalse();
+    service.destroyForm(form);
+  });
+
+  it('should count zero as filled in for isEmpty and isNotEmpty conditions', () => {
+    const form = createForm({
+      sections: [{
+        id: 'team',
+        title: 'Team',
+        fields: [
+          field('headcount', { type: 'number' }),
+          field('hiring_plan', { visibleWhen: [{ fieldId: 'team.headcount', operator: 'isNotEmpty', value: null }] }),
+          field('reason', { visibleWhen: [{ fieldId: 'team.headcount', operator: 'isEmpty', value: null }] })
+        ]
+      }]
+    });
+    const visible = (fieldId: string) => service.getFieldState(form.get(`team.${fieldId}`))?.visible;
+
+    expect(form.get('team.headcount')!.value).toBe(0);
+    expect(visible('hiring_plan')).toBeTrue();
+    expect(visible('reason')).toBeFalse();
+
+    form.get('team.headcount')!.setValue(null);
+    expect(visible('hiring_plan')).toBeFalse();
+    expect(visible('reason')).toBeTrue();
+    service.destroyForm(form);
+  });
+
+  it('should match contains conditions against array entries and text', () => {
+    const form = createForm({
+      sections: [{
+        id: 'access',
+        title: 'Access',
+        fields: [
+          field('systems', { type: 'checkbox-group', options: [{ value: 'vpn', label: 'VPN' }, { value: 'erp', label: 'ERP' }] }),
+          field('notes'),
+          field('vpn_region', { visibleWhen: [{ fieldId: 'access.systems', operator: 'contains', value: 'vpn' }] }),
+          field('erp_role', { visibleWhen: [{ fieldId: 'access.systems', operator: 'contains', value: ['vpn', 'erp'] }] }),
+          field('follow_up', { visibleWhen: [{ fieldId: 'access.notes', operator: 'notContains', value: 'done' }] })
+        ]
+      }]
+    });
+    const visible = (fieldId: string) => service.getFieldState(form.get(`access.${fieldId}`))?.visible;
+
+    form.get('access.systems')!.setValue(['vpn']);
+    expect(visible('vpn_region')).toBeTrue();
+    expect(visible('erp_role')).toBeFalse();
+
+    form.get('access.systems')!.setValue(['erp', 'vpn']);
+    form.get('access.notes')!.setValue('all done');
+    expect(visible('erp_role')).toBeTrue();
+    expect(visible('follow_up')).toBeFalse();
+    service.destroyForm(form);
+  });
+
+  it('should offer grouped options by their rules and clear a selection they take away', () => {
+    const equipment = field('equipment', {
+      type: 'select',
+      options: [
+        { value: 'none', label: 'None' },
+        {
+          label: 'Laptops',
+          visibleWhen: [{ fieldId: 'request.remote', operator: 'equals', value: true }],
+          options: [
+            { value: 'laptop', label: 'Laptop' },
+            { value: 'workstation', label: 'Workstation', disabledWhen: [{ fieldId: 'request.budget', operator: 'lessThan', value: 2000 }] }
+          ]
+        }
+      ]
+    });
+    const form = createForm({
+      sections: [{ id: 'request', title: 'Request', fields: [field('remote', { type: 'checkbox' }), field('budget', { type: 'number' }), equipment] }]
+    });
+    const control = form.get('request.equipment')!;
+    const offered = () => service.getAvailableOptions(control, equipment) as unknown;
+
+    expect(offered()).toEqual([{ value: 'none', label: 'None', disabled: false }]);
+
+    form.get('request.remote')!.setValue(true);
+    form.get('request.budget')!.setValue(5000);
+    control.setValue('workstation');
+    expect(offered()).toEqual([
+      { value: 'none', label: 'None', disabled: false },
+      jasmine.objectContaining({
+        label: 'Laptops',
+        options: [
+          { value: 'laptop', label: 'Laptop', disabled: false },
+          jasmine.objectContaining({ value: 'workstation', disabled: false })
+        ]
+      })
+    ]);
+
+    form.get('request.budget')!.setValue(1000);
+    expect(control.value).toBeNull();
+
+    control.setValue('laptop');
+    form.get('request.remote')!.setValue(false);
+    expect(control.value).toBeNull();
+    service.destroyForm(form);
+  });
+
+  it('should load dates as local dates and save date and time values as stored, also in table cells', () => {
+    const form = createForm({
+      sections: [{
+        id: 'leave',
+        title: 'Leave',
+        fields: [
+          field('start', { type: 'date' }),
+          field('departure', { type: 'datetime' }),
+          field('meeting', { type: 'time' }),
+          field('period', { type: 'daterange' }),
+          field('trips', { type: 'table', columns: [field('day', { type: 'date' }), field('city')] })
+        ]
+      }]
+    });
+    const data: FormSubmissionData = {
+      leave: {
+        start: '2024-03-05',
+        departure: '2024-03-05T23:30:00.000Z',
+        meeting: '09:30',
+        period: { start: '2024-03-01', end: '2024-03-10' },
+        trips: [{ day: '2024-03-06', city: 'Leeds' }]
+      }
+    };
+
+    service.populateForm(form, data);
+    const start = form.get('leave.start')!.value as Date;
+    expect([start.getFullYear(), start.getMonth(), start.getDate()]).toEqual([2024, 2, 5]);
+    expect((form.get('leave.trips')!.value as { day: unknown }[])[0].day instanceof Date).toBeTrue();
+
+    expect(service.convertToSubmissionData(form) as unknown).toEqual(data);
+    service.destroyForm(form);
+  });
+
+  it('should run warning validators on value changes without making the control invalid', () => {
+    const form = createForm({
+      sections: [{
+        id: 'order',
+        title: 'Order',
+        fields: [
+          field('quantity', { type: 'number', validators: [{ name: 'max', args: 10, severity: 'warning', message: 'Large order' }] }),
+          field('express', { type: 'checkbox' }),
+          field('notes', {
+            visibleWhen: [{ fieldId: 'order.express', operator: 'equals', value: true }],
+            validators: [{ name: 'required', severity: 'info' }]
+          })
+        ]
+      }]
+    });
+    const quantity = form.get('order.quantity')!;
+    const warnings = (path: string) => service.getWarnings(form.get(path)).map(warning => warning.message);
+
+    expect(warnings('order.quantity')).toEqual([]);
+    expect(warnings('order.notes')).toEqual([]);
+
+    quantity.setValue(12);
+    expect(warnings('order.quantity')).toEqual(['Large order']);
+    expect(quantity.valid).toBeTrue();
+
+    quantity.updateValueAndValidity();
+    expect(warnings('order.quantity')).toEqual(['Large order']);
+
+    service.populateForm(form, { order: { quantity: 4, express: true, notes: 'Ring the bell' } });
+    expect(warnings('order.quantity')).toEqual([]);
+    expect(warnings('order.notes')).toEqual([]);
+
+    form.get('order.notes')!.setValue('');
+    expect(warnings('order.notes')).toEqual(['notes is required']);
+
+    form.get('order.express')!.setValue(false);
+    expect(warnings('order.notes')).toEqual([]);
+    service.destroyForm(form);
+  });
+
+  it('should set updateOn from the validation mode and show errors when the mode allows', () => {
+    const form = service.createFormFromSchema({
+      id: 'test',
+      title: 'Test',
+      version: '1.0.0',
+      sections: [{
+        id: 'contact',
+        title: 'Contact',
+        fields: [field('name', { validators: [{ name: 'required' }] }), field('email', { validateOn: 'onChange', validators: [{ name: 'required' }] })]
+      }]
+    }, { schemaValidation: { enabled: false }, validation: { mode: 'onBlur' } });
+    const name = form.get('contact.name')!;
+    const email = form.get('contact.email')!;
+
+    expect(form.updateOn).toBe('blur');
+    expect(name.updateOn).toBe('blur');
+    expect(email.updateOn).toBe('change');
+
+    email.markAsDirty();
+    expect(service.shouldShowErrors(email)).toBeTrue();
+    name.markAsDirty();
+    expect(service.shouldShowErrors(name)).toBeFalse();
+    name.markAsTouched();
+    expect(service.shouldShowErrors(name)).toBeTrue();
+    service.destroyForm(form);
+
+    const submitForm = service.createFormFromSchema({
+      id: 'test',
+      title: 'Test',
+      version: '1.0.0',
+      sections: [{ id: 'contact', title: 'Contact', fields: [field('name', { validators: [{ name: 'required' }] })] }]
+    }, { schemaValidation: { enabled: false }, validation: { mode: 'onSubmit' } });
+    const submitName = submitForm.get('contact.name')!;
+
+    submitName.markAsTouched();
+    expect(submitName.updateOn).toBe('submit');
+    expect(service.shouldShowErrors(submitName)).toBeFalse();
+    service.markAsSubmitted(submitForm.get('contact')!);
+    expect(service.isSubmitted(submitName)).toBeTrue();
+    expect(service.shouldShowErrors(submitName)).toBeTrue();
+    service.destroyForm(submitForm);
+  });
+
+  it('should keep acknowledgements while a warning fails and report warnings apart from errors', () => {
+    const schema: FormSchema = {
+      id: 'test',
+      title: 'Test',
+      version: '1.0.0',
+      sections: [{
+        id: 'offer',
+        title: 'Offer',
+        fields: [field('salary', {
+          type: 'number',
+          validators: [{ name: 'max', args: 200000, severity: 'warning', message: 'Salary is outside the typical band' }]
+        })]
+      }]
+    };
+    const form = service.createFormFromSchema(schema, { schemaValidation: { enabled: false } });
+    const salary = form.get('offer.salary')!;
+
+    salary.setValue(250000);
+    service.acknowledgeWarning(salary, 'max');
+    salary.setValue(260000);
+    expect(service.getWarnings(salary).map(warning => warning.acknowledged)).toEqual([true]);
+
+    expect(form.valid).toBeTrue();
+    expect(service.getValidationErrors(form, schema)).toEqual([]);
+    expect(service.getValidationWarnings(form, schema).map(({ fieldPath, code, severity }) => ({ fieldPath, code, severity })))
+      .toEqual([{ fieldPath: 'offer.salary', code: 'max', severity: 'warning' }]);
+
+    salary.setValue(150000);
+    salary.setValue(250000);
+    expect(service.getWarnings(salary).map(warning => warning.acknowledged)).toEqual([false]);
+    service.destroyForm(form);
+  });
+});
@@ -1,35 +1,183 @@
 import { Injectable, inject } from '@angular/core';
-import { FormBuilder, FormGroup, FormArray, FormControl, Validators, AbstractControl } from '@angular/forms';
-import { BehaviorSubject, Observable, combineLatest, debounceTime, distinctUntilChanged } from 'rxjs';
-import { map, startWith } from 'rxjs/operators';
+import {
+  FormBuilder,
+  FormGroup,
+  FormArray,
+  FormControl,
+  Validators,
+  AbstractControl,
+  AsyncValidatorFn,
+  ValidatorFn,
+  ValidationErrors,
+  ValueChangeEvent
+} from '@angular/forms';
+import { Observable, Subject, Subscription, filter, from, switchMap, take, timer } from 'rxjs';
 
+import { APP_CONSTANTS } from '../../core/config/app.config';
 import {
   FormSchema,
   FormSection,
   FormField,
   FieldType,
   FieldValidator,
-  ConditionalRule,
+  FieldValidators,
+  FieldWarning,
+  FieldOption,
+  FieldOptionEntry,
+  FieldOptions,
+  Condition,
+  ConditionExpression,
+  AggregateConditionRule,
   FormSubmissionData,
+  SectionData,
   DynamicFormConfig,
+  FieldRuntimeState,
   FormValidationError,
   ConditionalOperator,
-  ValidatorType
+  ValidationMode,
+  CrossFieldValidator,
+  CrossFieldError,
+  JsonValue,
+  ValidationError
 } from '../models';
+import { CompiledExpression, ExpressionEvaluatorService, ExpressionValue } from './expression-evaluator.service';
+import { ValidatorRegistryService } from './validator-registry.service';
+import { FormSchemaValidatorService } from './form-schema-validator.service';
+import { DateTimeService } from './date-time.service';
+import { MarkdownService } from './markdown.service';
+import { FieldFormatService } from './field-format.service';
+
+// Error key of server-side validation errors set on field controls
+const SERVER_ERROR_KEY = 'serverError';
+
+// Async validators run once the value has not changed for this long
+const ASYNC_VALIDATION_DEBOUNCE_MS = APP_CONSTANTS.PERFORMANCE.DEBOUNCE_TIME.VALIDATION;
+
+// Required validator added and removed by requiredWhen rules; a single reference, so hasValidator finds it
+const CONDITIONAL_REQUIRED: ValidatorFn = control => Validators.required(control);
+
+// Field types whose values cross-field validators compare as points in time
+const TEMPORAL_FIELD_TYPES: FieldType[] = ['date', 'datetime', 'time'];
+
+// Calculated field wired into a form
+interface CalculatedFieldBinding {
+  path: string;
+  section: FormSection;
+  field: FormField;
+  expression: CompiledExpression;
+  dependencies: string[];
+}
+
+// Row of a repeatable section that conditions are evaluated against
+interface RowContext {
+  sectionId: string;
+  row: FormGroup;
+}
+
+// Conditional rule or calculated field, re-applied when one of its source controls changes
+interface FormRule {
+  sources: AbstractControl[]; // Controls the rule reads (repeatable sections as a whole)
+  target: AbstractControl; // Control the rule writes: a field, or the section it shows or hides
+  row?: AbstractControl; // Repeatable section row the rule belongs to, dropped with the row
+  apply: () => void;
+}
+
+// Warning and info validators of a field control, run whenever its value changes
+interface AdvisoryChecks {
+  field: FormField;
+  checks: { validator: FieldValidator; validatorFn: ValidatorFn }[];
+}
+
+// Server-side validation error of a field control, reported while the control keeps the rejected value
+interface ServerError {
+  code: string;
+  message: string;
+  value: string; // JSON of the rejected value; values of groups and arrays are new objects on every update
+}
+
+// Rules of a form compiled into a dependency graph
+interface FormRuleGraph {
+  rules: FormRule[];
+  order: FormRule[]; // Topological: every rule comes after the rules writing a control it reads
+  dependents: Map<FormRule, FormRule[]>; // Rules reading the target of a rule
+  conditionalLogic: boolean; // Whether rows added later get conditional rules
+  subscription: Subscription;
+  applying: boolean;
+  pending: AbstractControl[]; // Controls changed by others while rules were applied
+}
 
 @Injectable({
   providedIn: 'root'
 })
 export class DynamicFormService {
   private readonly fb = inject(FormBuilder);
+  private readonly expressionEvaluator = inject(ExpressionEvaluatorService);
+  private readonly validatorRegistry = inject(ValidatorRegistryService);
+  private readonly schemaValidator = inject(FormSchemaValidatorService);
+  private readonly dateTimeService = inject(DateTimeService);
+  private readonly markdownService = inject(MarkdownService);
+  private readonly fieldFormatService = inject(FieldFormatService);
+
+  // Schema each form was built from, used to (de)serialize typed values
+  private readonly formSchemas = new WeakMap<FormGroup, FormSchema>();
+
+  // Runtime state produced by conditional rules, keyed by field control
+  private readonly fieldStates = new WeakMap<AbstractControl, FieldRuntimeState>();
+  private readonly fieldStateChangesSubject = new Subject<AbstractControl>();
+
+  // Options left after option and group rules, keyed by field control
+  private readonly optionStates = new WeakMap<AbstractControl, FieldOptionEntry[]>();
+
+  // Visibility produced by section visibleWhen rules, keyed by section control
+  private readonly sectionVisibility = new WeakMap<AbstractControl, boolean>();
+
+  // Compiled conditional rules and calculated fields per form
+  private readonly ruleGraphs = new WeakMap<FormGroup, FormRuleGraph>();
+
+  // Controls marked as submitted (the form, or the sections of a wizard step), keyed by form
+  private readonly submittedControls = new WeakMap<AbstractControl, Set<AbstractControl>>();
+  private readonly submittedSubject = new Subject<AbstractControl>();
+
+  // Advisory (warning/info) validators and those currently failing, keyed by field control
+  private readonly advisoryChecks = new WeakMap<AbstractControl, AdvisoryChecks>();
+  private readonly fieldWarnings = new WeakMap<AbstractControl, FieldWarning[]>();
+
+  // Server-side validation errors, keyed by field control
+  private readonly serverErrors = new WeakMap<AbstractControl, ServerError>();
+
+  // Reports the server error of a control until its value changes; a single reference, so hasValidator finds it
+  private readonly serverErrorValidator: ValidatorFn = control => {
+    const serverError = this.serverErrors.get(control);
+    if (!serverError) return null;
+
+    if (JSON.stringify(control.value) !== serverError.value) {
+      this.serverErrors.delete(control);
+      return null;
+    }
+    return { [SERVER_ERROR_KEY]: { code: serverError.code, message: serverError.message } };
+  };
+
+  /**
+   * Emits the field control whose runtime state (visible/required/disabled/readOnly), available
+   * options or warnings changed, or the section control whose visibility changed
+   */
+  readonly fieldStateChanges$: Observable<AbstractControl> = this.fieldStateChangesSubject.asObservable();
+
+  /**
+   * Emits the control marked as submitted, whose onSubmit errors show from then on
+   */
+  readonly submitted$: Observable<AbstractControl> = this.submittedSubject.asObservable();
   
   private readonly defaultConfig: DynamicFormConfig = {
     validation: {
-      mode: 'onChange',
-      debounceTime: 300
+      mode: 'onChange'
     },
     conditionalLogic: {
       enabled: true
+    },
+    schemaValidation: {
+      enabled: true,
+      failOnError: false
     }
   };
 
@@ -38,7 +186,15 @@ export class DynamicFormService {
    */
   createFormFromSchema(schema: FormSchema, config: Partial<DynamicFormConfig> = {}): FormGroup {
     const formConfig = { ...this.defaultConfig, ...config };
-    const form = this.fb.group({});
+
+    // Lint the schema first - broken references otherwise fail silently
+    if (formConfig.schemaValidation?.enabled !== false) {
+      this.validateSchema(schema, formConfig);
+    }
+
+    // Controls inherit the form's updateOn unless their field overrides it
+    const form = this.fb.group({}, { updateOn: this.toUpdateOn(formConfig.validation?.mode) });
+    this.formSchemas.set(form, schema);
 
     // Create form controls for each section
     schema.sections.forEach(section => {
@@ -56,17 +212,48 @@ export class DynamicFormService {
       }
     });
 
-    // Set up conditional logic if enabled
-    if (formConfig.conditionalLogic?.enabled) {
-      this.setupConditionalLogic(form, schema, formConfig);
+    // Form-level validators spanning sections
+    if (schema.validators?.length) {
+      form.addValidators(this.createCrossFieldValidator(schema.validators, path => this.getSchemaField(schema, path)));
+      form.updateValueAndValidity({ emitEvent: false });
     }
 
-    // Set up validation
-    this.setupValidation(form, schema, formConfig);
+    // Keep calculated fields, and conditional rules if enabled, in sync with the fields they reference
+    this.setupRules(form, schema, !!formConfig.conditionalLogic?.enabled);
 
     return form;
   }
 
+  /**
+   * Stops applying the conditional rules and calculated fields of a form.
+   * Call it when the form is replaced or the view owning it is destroyed.
+   */
+  destroyForm(form: FormGroup): void {
+    this.ruleGraphs.get(form)?.subscription.unsubscribe();
+    this.ruleGraphs.delete(form);
+  }
+
+  /**
+   * Reports schema diagnostics, throwing on errors when configured to
+   */
+  private validateSchema(schema: FormSchema, config: DynamicFormConfig): void {
+    const diagnostics = this.schemaValidator.validate(schema);
+    if (diagnostics.length === 0) return;
+
+    if (config.schemaValidation?.failOnError && this.schemaValidator.hasErrors(diagnostics)) {
+      const details = diagnostics
+        .filter(diagnostic => diagnostic.severity === 'error')
+        .map(diagnostic => `${diagnostic.path}: ${diagnostic.message}`)
+        .join('; ');
+      throw new Error(`Invalid form schema "${schema.id}": ${details}`);
+    }
+
+    diagnostics.forEach(diagnostic => {
+      const log = diagnostic.severity === 'error' ? console.error : console.warn;
+      log(`Form schema "${schema.id}" ${diagnostic.code} at ${diagnostic.path}: ${diagnostic.message}`);
+    });
+  }
+
   /**
    * Creates a form group for a section
    */
@@ -78,33 +265,59 @@ export class DynamicFormService {
       group.addControl(field.id, control);
     });
 
+    // Section-level validators see the section (or repeatable row) group
+    if (section.validators?.length) {
+      group.addValidators(this.createCrossFieldValidator(
+        section.validators,
+        fieldId => section.fields.find(field => field.id === fieldId)
+      ));
+      group.updateValueAndValidity({ emitEvent: false });
+    }
+
     return group;
   }
 
   /**
-   * Creates a form control for a field
+   * Creates a form control for a field, with the warnings of its initial value
    */
   private createFieldControl(field: FormField): AbstractControl {
-    const initialValue = field.default ?? this.getDefaultValueForType(field.type);
+    const control = this.createValueControl(field);
+    this.setupAdvisoryChecks(control, field);
+    return control;
+  }
+
+  private createValueControl(field: FormField): AbstractControl {
+    const initialValue = this.deserializeValue(field, field.default ?? this.getDefaultValueForType(field.type));
     const isDisabled = field.disabled || field.readOnly;
+    const options = {
+      validators: this.createValidators(field),
+      asyncValidators: this.createAsyncValidators(field),
+      ...(field.validateOn && { updateOn: this.toUpdateOn(field.validateOn) })
+    };
+
+    // Table fields hold one group per row, so cells validate like any other field
+    if (field.type === 'table') {
+      const rows: unknown[] = Array.isArray(initialValue) ? initialValue : [];
+      const rowCount = Math.max(rows.length, this.getTableRowLimits(field).min);
+      const table = this.fb.array(Array.from({ length: rowCount }, () => this.createTableRow(field)), options);
+      table.patchValue(rows);
+      if (isDisabled) {
+        table.disable();
+      }
+      return table;
+    }
     
     if (isDisabled) {
-      return this.fb.control(
-        { value: initialValue, disabled: true },
-        { validators: this.createValidators(field) }
-      );
+      return this.fb.control({ value: initialValue, disabled: true }, options);
     } else {
-      return this.fb.control(
-        initialValue,
-        { validators: this.createValidators(field) }
-      );
+      return this.fb.control(initialValue, options);
     }
   }
 
   /**
    * Gets default value for field type
    */
-  private getDefaultValueForType(type: FieldType): string | number | boolean | null {
+  private getDefaultValueForType(type: FieldType): JsonValue {
     switch (type) {
       case 'number':
         return 0;
@@ -114,220 +327,932 @@ export class DynamicFormService {
       case 'radio':
         return null;
       case 'date':
+      case 'datetime':
+      case 'time':
+      case 'daterange':
+      case 'file':
+      case 'currency':
+      case 'percentage':
+      case 'user-picker':
+      case 'ticket-picker':
         return null;
+      case 'multiselect':
+      case 'checkbox-group':
+      case 'tags':
+      case 'table':
+        return [];
       default:
         return '';
     }
   }
 
   /**
-   * Creates validators for a field
+   * Creates validators for a field
+   */
+  private createValidators(field: FormField): ValidatorFn[] {
+    const validators: ValidatorFn[] = [];
+
+    // Ranges must be complete and in order regardless of the declared validators
+    if (field.type === 'daterange') {
+      validators.push(this.validatorRegistry.createValidator({ name: 'dateRange' })!);
+    }
+
+    // Formatted types check their stored format regardless of the declared validators
+    if (field.type === 'phone') {
+      validators.push(this.validatorRegistry.createValidator({ name: 'e164' })!);
+    }
+    if (field.type === 'url') {
+      validators.push(this.validatorRegistry.createValidator({ name: 'url' })!);
+    }
+    if (field.type === 'masked') {
+      const mask: unknown = field.attributes?.['mask'];
+      const maskValidator = this.fieldFormatService.isValidMask(mask)
+        ? this.validatorRegistry.createValidator({ name: 'mask', args: mask })
+        : null;
+      // A missing or invalid mask is reported by the schema validator (INVALID_FORMAT)
+      if (maskValidator) {
+        validators.push(maskValidator);
+      }
+    }
+
+    field.validators?.forEach(validator => {
+      if (this.validatorRegistry.isAsync(validator.name) || FieldValidators.isAdvisory(validator)) return;
+
+      const validatorFn = this.createFieldValidator(field, validator);
+      if (validatorFn) {
+        validators.push(validatorFn);
+      }
+    });
+
+    return validators;
+  }
+
+  private createFieldValidator(field: FormField, validator: FieldValidator): ValidatorFn | null {
+    // Unknown validators and invalid args are reported by the schema validator
+    const validatorFn = this.validatorRegistry.createValidator(validator);
+    if (!validatorFn) return null;
+
+    const getComparedValue = this.getComparedValue(field, validator);
+    return getComparedValue ? this.onComparedValue(validatorFn, getComparedValue) : validatorFn;
+  }
+
+  /**
+   * Keeps the warning and info validators of a field apart from its validators, so they never make the
+   * control invalid. They run on the initial value and then on every value change (see updateWarnings).
+   */
+  private setupAdvisoryChecks(control: AbstractControl, field: FormField): void {
+    const checks = (field.validators || [])
+      .filter(validator => FieldValidators.isAdvisory(validator) && !this.validatorRegistry.isAsync(validator.name))
+      .map(validator => ({ validator, validatorFn: this.createFieldValidator(field, validator) }))
+      .filter((check): check is AdvisoryChecks['checks'][number] => check.validatorFn !== null);
+    if (!checks.length) return;
+
+    this.advisoryChecks.set(control, { field, checks });
+    this.updateWarnings(control);
+  }
+
+  /**
+   * Runs the warning and info validators of a control and of the controls it contains
+   */
+  private updateWarnings(control: AbstractControl): void {
+    const advisory = this.advisoryChecks.get(control);
+    if (advisory) {
+      const failing = advisory.checks
+        .map(({ validator, validatorFn }) => ({ validator, errors: validatorFn(control) }))
+        .filter(({ errors }) => errors !== null);
+      this.setWarnings(control, failing.map(({ validator, errors }) => ({
+        key: validator.name,
+        message: validator.message || this.getDefaultErrorMessage(validator.name, advisory.field, errors?.[validator.name]),
+        severity: validator.severity === 'info' ? 'info' : 'warning',
+        acknowledged: false
+      })));
+    }
+
+    if (control instanceof FormGroup || control instanceof FormArray) {
+      Object.values(control.controls).forEach(child => this.updateWarnings(child));
+    }
+  }
+
+  /**
+   * Stores the warnings of a control, keeping the acknowledgements of those still failing
+   */
+  private setWarnings(control: AbstractControl, warnings: FieldWarning[]): void {
+    const previous = this.fieldWarnings.get(control) || [];
+    warnings.forEach(warning => {
+      warning.acknowledged = !!previous.find(candidate => candidate.key === warning.key)?.acknowledged;
+    });
+
+    const unchanged = previous.length === warnings.length && previous.every((warning, index) =>
+      warning.key === warnings[index].key && warning.message === warnings[index].message);
+    if (!unchanged) {
+      this.fieldWarnings.set(control, warnings);
+      this.fieldStateChangesSubject.next(control);
+    }
+  }
+
+  /**
+   * Gets the part of a structured value a validator compares: length limits of richtext fields count
+   * the visible text, not the markdown markup, and min/max of currency fields compare the amount
+   */
+  private getComparedValue(field: FormField, validator: FieldValidator): ((value: unknown) => unknown) | null {
+    if (field.type === 'richtext' && (validator.name === 'minlength' || validator.name === 'maxlength')) {
+      return value => this.markdownService.toPlainText(typeof value === 'string' ? value : null);
+    }
+    if (field.type === 'currency' && (validator.name === 'min' || validator.name === 'max')) {
+      return value => this.fieldFormatService.toCurrencyValue(value)?.amount ?? null;
+    }
+    return null;
+  }
+
+  private onComparedValue(validatorFn: ValidatorFn, getComparedValue: (value: unknown) => unknown): ValidatorFn {
+    return (control: AbstractControl): ValidationErrors | null =>
+      validatorFn(new FormControl(getComparedValue(control.value)));
+  }
+
+  /**
+   * Creates async validators for a field
+   */
+  private createAsyncValidators(field: FormField): AsyncValidatorFn[] {
+    const validators: AsyncValidatorFn[] = [];
+
+    field.validators?.forEach(validator => {
+      if (!this.validatorRegistry.isAsync(validator.name) || FieldValidators.isAdvisory(validator)) return;
+
+      const validatorFn = this.validatorRegistry.createAsyncValidator(validator);
+      if (validatorFn) {
+        validators.push(this.debounceAsyncValidator(validatorFn));
+      }
+    });
+
+    return validators;
+  }
+
+  /**
+   * Delays an async validator until the value settles; Angular drops the pending check on every change,
+   * so only the last value of a burst of keystrokes is validated. The control is pending meanwhile.
+   */
+  private debounceAsyncValidator(validatorFn: AsyncValidatorFn): AsyncValidatorFn {
+    return control => timer(ASYNC_VALIDATION_DEBOUNCE_MS).pipe(
+      switchMap(() => from(validatorFn(control))),
+      take(1)
+    );
+  }
+
+  /**
+   * Creates a group validator from cross-field validator declarations
+   */
+  private createCrossFieldValidator(
+    validators: CrossFieldValidator[],
+    getField: (path: string) => FormField | undefined
+  ): ValidatorFn {
+    return (group: AbstractControl): ValidationErrors | null => {
+      const errors: ValidationErrors = {};
+
+      validators.forEach(validator => {
+        const values = validator.fields.map(path => (group.get(path)?.value as unknown) ?? null);
+        if (!this.isCrossFieldValid(validator, values, getField(validator.fields[0]))) {
+          const error: CrossFieldError = {
+            field: validator.errorField || validator.fields[validator.fields.length - 1],
+            message: validator.message || this.getDefaultCrossFieldMessage(validator, getField)
+          };
+          errors[validator.id || validator.name] = error;
+        }
+      });
+
+      return Object.keys(errors).length > 0 ? errors : null;
+    };
+  }
+
+  /**
+   * Checks a cross-field validator against the current values of its fields; comparisons compare them as
+   * values of the first field's type
+   */
+  private isCrossFieldValid(validator: CrossFieldValidator, values: unknown[], field: FormField | undefined): boolean {
+    switch (validator.name) {
+      case 'atLeastOne':
+        return values.some(value => !this.isEmptyValue(value));
+      case 'allOrNone': {
+        const filled = values.filter(value => !this.isEmptyValue(value)).length;
+        return filled === 0 || filled === values.length;
+      }
+    }
+
+    // Comparisons are skipped until both values are present - "required" covers missing values
+    const [left, right] = values;
+    if (this.isEmptyValue(left) || this.isEmptyValue(right)) return true;
+
+    // Values that do not compare (e.g. amounts in different currencies) are left to the fields' own validators
+    const result = this.compareValues(field, left, right);
+    if (result === null) return true;
+
+    switch (validator.name) {
+      case 'lessThan':
+        return result < 0;
+      case 'lessThanOrEqual':
+        return result <= 0;
+      case 'greaterThan':
+        return result > 0;
+      case 'greaterThanOrEqual':
+        return result >= 0;
+      case 'equals':
+        return result === 0;
+      case 'notEquals':
+        return result !== 0;
+    }
+  }
+
+  /**
+   * Compares two values of a field by its type: numbers, calendar dates, instants, times of day or currency
+   * amounts. Other values compare as text, or for equality only.
+   * @returns the sign of left - right, or null when the values do not compare
+   */
+  private compareValues(field: FormField | undefined, left: unknown, right: unknown): number | null {
+    const difference = (a: number | null | undefined, b: number | null | undefined) =>
+      a === null || a === undefined || b === null || b === undefined || isNaN(a) || isNaN(b) ? null : a - b;
+    const toNumber = (value: unknown) => (typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN);
+    const toSeconds = (value: unknown) => {
+      const [hours, minutes, seconds = 0] = this.dateTimeService.toIsoTime(value)?.split(':').map(Number) ?? [];
+      return hours === undefined ? null : hours * 3600 + minutes * 60 + seconds;
+    };
+
+    switch (field?.type) {
+      case 'number':
+      case 'percentage':
+        return difference(toNumber(left), toNumber(right));
+      case 'date':
+        return difference(this.dateTimeService.parseIsoDate(left)?.getTime(), this.dateTimeService.parseIsoDate(right)?.getTime());
+      case 'datetime': {
+        const [a, b] = [left, right].map(value => this.dateTimeService.toIsoDateTime(value));
+        return a && b ? difference(Date.parse(a), Date.parse(b)) : null;
+      }
+      case 'time':
+        return difference(toSeconds(left), toSeconds(right));
+      case 'currency': {
+        const [a, b] = [left, right].map(value => this.fieldFormatService.toCurrencyValue(value));
+        return a && b && a.currency === b.currency ? difference(a.amount, b.amount) : null;
+      }
+    }
+
+    if (typeof left === 'string' && typeof right === 'string') return left.localeCompare(right);
+    if (typeof left === 'number' && typeof right === 'number') return left - right;
+    return left === right ? 0 : null;
+  }
+
+  /**
+   * Checks whether a value counts as "not filled in"
+   */
+  private isEmptyValue(value: unknown): boolean {
+    return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+  }
+
+  /**
+   * Gets default message for a cross-field validator
+   */
+  private getDefaultCrossFieldMessage(
+    validator: CrossFieldValidator,
+    getField: (path: string) => FormField | undefined
+  ): string {
+    const getLabel = (path: string) => getField(path)?.label || path;
+    const [first, second] = validator.fields.map(getLabel);
+    // Dates and times are before or after each other, other values less or greater
+    const type = getField(validator.fields[0])?.type;
+    const temporal = !!type && TEMPORAL_FIELD_TYPES.includes(type);
+
+    switch (validator.name) {
+      case 'lessThan':
+        return temporal ? `${first} must be before ${second}` : `${first} must be less than ${second}`;
+      case 'lessThanOrEqual':
+        return temporal ? `${first} must not be after ${second}` : `${first} must not be greater than ${second}`;
+      case 'greaterThan':
+        return temporal ? `${first} must be after ${second}` : `${first} must be greater than ${second}`;
+      case 'greaterThanOrEqual':
+        return temporal ? `${first} must not be before ${second}` : `${first} must not be less than ${second}`;
+      case 'equals':
+        return `${first} must match ${second}`;
+      case 'notEquals':
+        return `${first} must differ from ${second}`;
+      case 'atLeastOne':
+        return `At least one of ${validator.fields.map(getLabel).join(', ')} is required`;
+      case 'allOrNone':
+        return `${validator.fields.map(getLabel).join(', ')} must be filled in together`;
+    }
+  }
+
+  /**
+   * Gets a field from a "section.field" path
+   */
+  private getSchemaField(schema: FormSchema, path: string): FormField | undefined {
+    const [sectionId, fieldId] = path.split('.');
+    const section = schema.sections.find(s => s.id === sectionId);
+    return section?.fields.find(field => field.id === fieldId);
+  }
+
+  /**
+   * Compiles the calculated fields and conditional rules of a form into one dependency graph and applies them.
+   * A single subscription to the form's events re-applies the rules affected by a change, synchronously and in
+   * dependency order, so rules reading the result of other rules see their current output.
+   */
+  private setupRules(form: FormGroup, schema: FormSchema, conditionalLogic: boolean): void {
+    const rules = this.createCalculatedRules(form, schema);
+    if (conditionalLogic) {
+      rules.push(...this.createConditionalRules(form, schema));
+    }
+
+    const graph: FormRuleGraph = {
+      rules,
+      order: [],
+      dependents: new Map(),
+      conditionalLogic,
+      subscription: new Subscription(),
+      applying: false,
+      pending: []
+    };
+    this.compileRuleGraph(graph);
+    this.ruleGraphs.set(form, graph);
+
+    // Value changes bubble up to the form carrying the control that changed
+    const valueChanges = form.events
+      .pipe(filter((event): event is ValueChangeEvent<unknown> => event instanceof ValueChangeEvent));
+    graph.subscription = valueChanges.subscribe(event => this.onRuleSourceChange(graph, event.source));
+    graph.subscription.add(valueChanges.subscribe(event => this.updateWarnings(event.source)));
+
+    this.applyRules(graph, graph.order);
+  }
+
+  /**
+   * Orders the rules of a graph. Rules that are part of a dependency cycle (reported by the schema
+   * validator as CYCLIC_DEPENDENCY) are applied last, in schema order.
+   */
+  private compileRuleGraph(graph: FormRuleGraph): void {
+    graph.dependents = new Map(graph.rules.map(rule => [
+      rule,
+      graph.rules.filter(other => other !== rule && other.sources.some(source => this.isRelatedControl(rule.target, source)))
+    ]));
+
+    const inDegree = new Map(graph.rules.map(rule => [rule, 0]));
+    graph.dependents.forEach(dependents => dependents.forEach(dependent => inDegree.set(dependent, inDegree.get(dependent)! + 1)));
+
+    const order: FormRule[] = [];
+    const ready = graph.rules.filter(rule => inDegree.get(rule) === 0);
+    while (ready.length > 0) {
+      const rule = ready.shift()!;
+      order.push(rule);
+      graph.dependents.get(rule)!.forEach(dependent => {
+        inDegree.set(dependent, inDegree.get(dependent)! - 1);
+        if (inDegree.get(dependent) === 0) ready.push(dependent);
+      });
+    }
+
+    if (order.length < graph.rules.length) {
+      order.push(...graph.rules.filter(rule => !order.includes(rule)));
+    }
+    graph.order = order;
+  }
+
+  /**
+   * Re-applies the rules reading a changed control
+   */
+  private onRuleSourceChange(graph: FormRuleGraph, source: AbstractControl): void {
+    if (graph.applying) {
+      graph.pending.push(source);
+      return;
+    }
+    this.applyRules(graph, graph.rules.filter(rule => rule.sources.some(control => this.isRelatedControl(control, source))));
+  }
+
+  /**
+   * Applies rules and every rule depending on them, in graph order
+   */
+  private applyRules(graph: FormRuleGraph, rules: FormRule[]): void {
+    if (rules.length === 0) return;
+
+    const affected = new Set(rules);
+    const applied: FormRule[] = [];
+    graph.applying = true;
+    try {
+      graph.order.forEach(rule => {
+        if (!affected.has(rule)) return;
+        rule.apply();
+        // Rules write silently, e.g. when a hidden field is reset
+        this.updateWarnings(rule.target);
+        applied.push(rule);
+        graph.dependents.get(rule)!.forEach(dependent => affected.add(dependent));
+      });
+    } finally {
+      graph.applying = false;
+    }
+
+    // Writes of the applied rules were followed through their dependents already; changes made by
+    // others meanwhile (e.g. valueChanges subscribers) are handled like any other change
+    const pending = graph.pending.splice(0)
+      .filter((source, index, sources) => sources.indexOf(source) === index)
+      .filter(source => !applied.some(rule => rule.target === source || this.isAncestorControl(rule.target, source)));
+    pending.forEach(source => this.onRuleSourceChange(graph, source));
+  }
+
+  /**
+   * Re-applies every rule of a form (e.g. after a silent patch)
+   */
+  private applyAllRules(form: FormGroup): void {
+    const graph = this.ruleGraphs.get(form);
+    if (graph) {
+      this.applyRules(graph, graph.order);
+    }
+  }
+
+  /**
+   * Whether a change of one control can change the other: the same control, or one contains the other
+   */
+  private isRelatedControl(a: AbstractControl, b: AbstractControl): boolean {
+    return a === b || this.isAncestorControl(a, b) || this.isAncestorControl(b, a);
+  }
+
+  private isAncestorControl(ancestor: AbstractControl, control: AbstractControl): boolean {
+    for (let parent = control.parent; parent; parent = parent.parent) {
+      if (parent === ancestor) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Creates the rules of calculated fields, skipping those the schema validator reports: invalid
+   * expressions, fields in a dependency cycle and fields in repeatable sections
+   */
+  private createCalculatedRules(form: FormGroup, schema: FormSchema): FormRule[] {
+    const bindings = new Map<string, CalculatedFieldBinding>();
+    const fieldsByPath = new Map<string, FormField>();
+
+    schema.sections.forEach(section => {
+      section.fields.forEach(field => {
+        const path = `${section.id}.${field.id}`;
+        fieldsByPath.set(path, field);
+
+        if (!field.calculated || section.repeatable) return;
+
+        try {
+          const expression = this.expressionEvaluator.compile(field.calculated);
+          const dependencies = expression.references.map(reference => this.resolveFieldPath(section, reference));
+          bindings.set(path, { path, section, field, expression, dependencies });
+        } catch {
+          // Reported by the schema validator (INVALID_EXPRESSION)
+        }
+      });
+    });
+
+    return this.sortCalculatedFields(bindings).flatMap(binding => {
+      const control = this.findControl(form, binding.path);
+      if (!control) return [];
+
+      const apply = () => {
+        const value = this.toCalculatedValue(this.expressionEvaluator.evaluate(binding.expression, path =>
+          this.resolveExpressionValue(form, binding, path, fieldsByPath)
+        ));
+        if (control.value !== value) {
+          control.setValue(value);
+        }
+      };
+
+      const sources = binding.dependencies
+        .map(path => this.findControl(form, path))
+        .filter((source): source is AbstractControl => !!source);
+      return [{ sources, target: control, apply }];
+    });
+  }
+
+  /**
+   * Orders calculated fields so each one comes after the calculated fields it references.
+   * Fields that are part of a dependency cycle are skipped.
+   */
+  private sortCalculatedFields(bindings: Map<string, CalculatedFieldBinding>): CalculatedFieldBinding[] {
+    const sorted: CalculatedFieldBinding[] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+
+    const visit = (binding: CalculatedFieldBinding): boolean => {
+      const current = state.get(binding.path);
+      if (current === 'done') return true;
+      if (current === 'visiting') return false;
+
+      state.set(binding.path, 'visiting');
+      const acyclic = binding.dependencies.every(path => {
+        const dependency = bindings.get(path);
+        return !dependency || visit(dependency);
+      });
+      state.set(binding.path, 'done');
+
+      if (acyclic) {
+        sorted.push(binding);
+      }
+      return acyclic;
+    };
+
+    bindings.forEach(binding => visit(binding));
+    return sorted;
+  }
+
+  /**
+   * Resolves a reference to a full "section.field" path (bare IDs refer to the same section)
+   */
+  private resolveFieldPath(section: FormSection, reference: string): string {
+    return reference.includes('.') ? reference : `${section.id}.${reference}`;
+  }
+
+  /**
+   * Reads a referenced control value for the expression evaluator
+   */
+  private resolveExpressionValue(
+    form: FormGroup,
+    binding: CalculatedFieldBinding,
+    reference: string,
+    fieldsByPath: Map<string, FormField>
+  ): ExpressionValue {
+    const path = this.resolveFieldPath(binding.section, reference);
+    const value: unknown = this.findControl(form, path)?.value ?? null;
+
+    // Date fields participate in date math as Date objects
+    if (fieldsByPath.get(path)?.type === 'date' && value) {
+      const date = value instanceof Date ? value : new Date(typeof value === 'number' ? value : String(value));
+      return isNaN(date.getTime()) ? null : date;
+    }
+
+    const isScalar = typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+    return value instanceof Date || isScalar ? value : null;
+  }
+
+  /**
+   * Converts an evaluated expression result into a control value
+   */
+  private toCalculatedValue(value: ExpressionValue): string | number | boolean | null {
+    if (value instanceof Date) {
+      return this.dateTimeService.toIsoDate(value);
+    }
+    if (typeof value === 'number' && isNaN(value)) {
+      return null;
+    }
+    return value;
+  }
+
+  /**
+   * Creates the rules of section and field conditions; rows of repeatable sections get their own field rules
+   */
+  private createConditionalRules(form: FormGroup, schema: FormSchema): FormRule[] {
+    return schema.sections.flatMap(section => {
+      const sectionRule = this.createSectionRule(form, section);
+      const rules = sectionRule ? [sectionRule] : [];
+
+      if (section.repeatable) {
+        const formArray = form.get(section.id) as FormArray;
+        formArray.controls.forEach(row => rules.push(...this.createRowRules(form, section, row as FormGroup)));
+        return rules;
+      }
+
+      section.fields
+        .filter(field => this.hasFieldConditions(field))
+        .forEach(field => {
+          const rule = this.createFieldRule(form, section, field);
+          if (rule) rules.push(rule);
+        });
+      return rules;
+    });
+  }
+
+  /**
+   * Checks whether a field declares any conditional rule
+   */
+  private hasFieldConditions(field: FormField): boolean {
+    return !!(field.visibleWhen || field.requiredWhen || field.disabledWhen || field.readOnlyWhen)
+      || FieldOptions.conditions(field.options || []).length > 0;
+  }
+
+  /**
+   * Creates the field rules of one repeatable section row
+   */
+  private createRowRules(form: FormGroup, section: FormSection, row: FormGroup): FormRule[] {
+    const context: RowContext = { sectionId: section.id, row };
+
+    return section.fields
+      .filter(field => this.hasFieldConditions(field))
+      .map(field => this.createFieldRule(form, section, field, context))
+      .filter((rule): rule is FormRule => rule !== null);
+  }
+
+  /**
+   * Creates the rule applying a field's conditions (for a single row when a row context is given)
+   */
+  private createFieldRule(form: FormGroup, section: FormSection, field: FormField, context?: RowContext): FormRule | null {
+    const fieldConditions = [field.visibleWhen, field.requiredWhen, field.disabledWhen, field.readOnlyWhen]
+      .filter((condition): condition is Condition => !!condition);
+    const optionConditions = FieldOptions.conditions(field.options || []);
+    const conditions = [...fieldConditions, ...optionConditions];
+
+    const fieldControl = context ? context.row.get(field.id) : this.findControl(form, `${section.id}.${field.id}`);
+    const sources = this.getConditionSources(form, conditions, context);
+    if (!fieldControl || sources.length === 0) return null;
+
+    const apply = () => {
+      if (fieldConditions.length > 0) {
+        this.applyFieldState(fieldControl, field, {
+          visible: field.visibleWhen ? this.evaluateConditionalRules(form, field.visibleWhen, context) : true,
+          required: field.requiredWhen ? this.evaluateConditionalRules(form, field.requiredWhen, context) : false,
+          disabled: field.disabledWhen ? this.evaluateConditionalRules(form, field.disabledWhen, context) : false,
+          readOnly: field.readOnlyWhen ? this.evaluateConditionalRules(form, field.readOnlyWhen, context) : false
+        });
+      }
+      if (optionConditions.length > 0) {
+        this.applyOptionState(form, fieldControl, field, context);
+      }
+    };
+
+    return { sources, target: fieldControl, row: context?.row, apply };
+  }
+
+  /**
+   * Applies option and group visibleWhen/disabledWhen rules.
+   * A selection that a rule hides or disables is cleared; statically disabled options are kept.
+   */
+  private applyOptionState(form: FormGroup, control: AbstractControl, field: FormField, context?: RowContext): void {
+    const evaluate = (condition?: Condition) => !!condition && this.evaluateConditionalRules(form, condition, context);
+    const isVisible = (entry: FieldOptionEntry) => !entry.visibleWhen || evaluate(entry.visibleWhen);
+    const blockedValues: JsonValue[] = [];
+
+    const resolveOption = (option: FieldOption, groupBlocked: boolean): FieldOption => {
+      const blocked = groupBlocked || evaluate(option.disabledWhen);
+      if (blocked) blockedValues.push(option.value);
+      return { ...option, disabled: option.disabled || blocked };
+    };
+
+    const available: FieldOptionEntry[] = [];
+    (field.options || []).forEach(entry => {
+      if (!FieldOptions.isGroup(entry)) {
+        if (isVisible(entry)) {
+          available.push(resolveOption(entry, false));
+        } else {
+          blockedValues.push(entry.value);
+        }
+        return;
+      }
+
+      const groupVisible = isVisible(entry);
+      const groupBlocked = evaluate(entry.disabledWhen);
+      const options = entry.options.filter(option => {
+        const visible = groupVisible && isVisible(option);
+        if (!visible) blockedValues.push(option.value);
+        return visible;
+      });
+      // Groups whose options are all hidden are dropped
+      if (options.length > 0) {
+        available.push({
+          ...entry,
+          disabled: entry.disabled || groupBlocked,
+          options: options.map(option => resolveOption(option, groupBlocked))
+        });
+      }
+    });
+
+    const previous = this.optionStates.get(control);
+    this.optionStates.set(control, available);
+
+    const value = control.value as JsonValue;
+    if (Array.isArray(value)) {
+      const kept = value.filter(item => !blockedValues.includes(item));
+      if (kept.length !== value.length) {
+        control.setValue(kept);
+      }
+    } else if (value !== null && value !== '' && blockedValues.includes(value)) {
+      control.setValue(null);
+    }
+
+    if (!previous || JSON.stringify(previous) !== JSON.stringify(available)) {
+      this.fieldStateChangesSubject.next(control);
+    }
+  }
+
+  /**
+   * Gets the controls a set of conditions depends on.
+   * References into repeatable sections (and aggregates) resolve to the whole array, so adding,
+   * removing or editing any row re-evaluates the condition.
+   */
+  private getConditionSources(form: FormGroup, conditions: Condition[], context?: RowContext): AbstractControl[] {
+    const controls = new Set<AbstractControl>();
+
+    conditions.forEach(condition => {
+      Condition.fieldIds(condition).forEach(fieldId => {
+        const control = this.findDependencyControl(form, fieldId, context);
+        if (control) controls.add(control);
+      });
+      Condition.aggregates(condition).forEach(aggregate => {
+        const control = form.get(aggregate.count);
+        if (control) controls.add(control);
+      });
+    });
+
+    return Array.from(controls);
+  }
+
+  /**
+   * Finds the control to watch for a condition reference: the field itself, or its enclosing FormArray
+   */
+  private findDependencyControl(form: FormGroup, fieldId: string, context?: RowContext): AbstractControl | null {
+    const rowControl = this.findRowControl(fieldId, context);
+    if (rowControl) return rowControl;
+
+    let control: AbstractControl | null = form;
+    for (const part of fieldId.split('.')) {
+      if (control instanceof FormArray) return control;
+      control = control instanceof FormGroup ? control.get(part) : null;
+      if (!control) return null;
+    }
+    return control;
+  }
+
+  /**
+   * Resolves a "section.field" reference against the current row when it targets the row's own section
+   */
+  private findRowControl(fieldId: string, context?: RowContext): AbstractControl | null {
+    if (!context || !fieldId.startsWith(`${context.sectionId}.`)) return null;
+    return context.row.get(fieldId.slice(context.sectionId.length + 1));
+  }
+
+  /**
+   * Applies an evaluated runtime state to a field control
+   */
+  private applyFieldState(control: AbstractControl, field: FormField, state: FieldRuntimeState): void {
+    const previous = this.fieldStates.get(control);
+    this.fieldStates.set(control, state);
+
+    if (!state.visible) {
+      this.hideField(control, field);
+    } else if (state.disabled) {
+      control.disable({ emitEvent: false });
+    } else {
+      this.showField(control, field);
+    }
+
+    this.updateRequiredValidator(control, field, state.required);
+
+    const changed = !previous
+      || previous.visible !== state.visible
+      || previous.required !== state.required
+      || previous.disabled !== state.disabled
+      || previous.readOnly !== state.readOnly;
+    if (changed) {
+      this.fieldStateChangesSubject.next(control);
+    }
+  }
+
+  /**
+   * Adds or removes the conditional required validator
    */
-  private createValidators(field: FormField): any[] {
-    const validators: any[] = [];
+  private updateRequiredValidator(control: AbstractControl, field: FormField, required: boolean): void {
+    // Statically required fields are never relaxed by a rule
+    if (FieldValidators.find(field.validators, 'required')) return;
 
-    field.validators?.forEach(validator => {
-      switch (validator.name) {
-        case 'required':
-          validators.push(Validators.required);
-          break;
-        case 'min':
-          if (typeof validator.args === 'number') {
-            validators.push(Validators.min(validator.args));
-          }
-          break;
-        case 'max':
-          if (typeof validator.args === 'number') {
-            validators.push(Validators.max(validator.args));
-          }
-          break;
-        case 'minlength':
-          if (typeof validator.args === 'number') {
-            validators.push(Validators.minLength(validator.args));
-          }
-          break;
-        case 'maxlength':
-          if (typeof validator.args === 'number') {
-            validators.push(Validators.maxLength(validator.args));
-          }
-          break;
-        case 'email':
-          validators.push(Validators.email);
-          break;
-      }
-    });
+    const hasRequired = control.hasValidator(CONDITIONAL_REQUIRED);
+    if (required && !hasRequired) {
+      control.addValidators(CONDITIONAL_REQUIRED);
+      control.updateValueAndValidity();
+    } else if (!required && hasRequired) {
+      control.removeValidators(CONDITIONAL_REQUIRED);
+      control.updateValueAndValidity();
+    }
+  }
 
-    return validators;
+  /**
+   * Gets the runtime state of a field control (undefined when it has no conditional rules)
+   */
+  getFieldState(control: AbstractControl | null): FieldRuntimeState | undefined {
+    return control ? this.fieldStates.get(control) : undefined;
   }
 
   /**
-   * Sets up conditional logic for form
+   * Gets the options currently offered by a field, after option and group rules
    */
-  private setupConditionalLogic(
-    form: FormGroup,
-    schema: FormSchema,
-    config: DynamicFormConfig
-  ): void {
-    // Track all conditional rules
-    const conditionalFields: { [key: string]: FormField } = {};
-    const conditionalSections: { [key: string]: FormSection } = {};
+  getAvailableOptions(control: AbstractControl | null, field: FormField): FieldOptionEntry[] {
+    return (control && this.optionStates.get(control)) || field.options || [];
+  }
 
-    // Collect all fields with conditional rules
-    schema.sections.forEach(section => {
-      if (section.visibleWhen) {
-        conditionalSections[section.id] = section;
-      }
+  /**
+   * Checks whether a section is currently visible according to its visibleWhen
+   */
+  isSectionVisible(control: AbstractControl | null): boolean {
+    return control ? this.sectionVisibility.get(control) ?? true : true;
+  }
 
-      section.fields.forEach(field => {
-        if (field.visibleWhen) {
-          conditionalFields[field.id] = field;
-        }
-        this.collectNestedConditionalFields(field, conditionalFields);
-      });
-    });
+  /**
+   * Creates the rule showing or hiding a section according to its visibleWhen
+   */
+  private createSectionRule(form: FormGroup, section: FormSection): FormRule | null {
+    const sectionControl = form.get(section.id);
+    if (!section.visibleWhen || !sectionControl) return null;
 
-    // Set up subscriptions for conditional logic
-    Object.keys(conditionalFields).forEach(fieldId => {
-      const field = conditionalFields[fieldId];
-      this.setupFieldConditionalLogic(form, field, config);
-    });
+    const sources = this.getConditionSources(form, [section.visibleWhen]);
+    if (sources.length === 0) return null;
 
-    Object.keys(conditionalSections).forEach(sectionId => {
-      const section = conditionalSections[sectionId];
-      this.setupSectionConditionalLogic(form, section, config);
-    });
+    const apply = () => {
+      const isVisible = this.evaluateConditionalRules(form, section.visibleWhen!);
+      if (isVisible) {
+        this.showSection(sectionControl, section);
+      } else {
+        this.hideSection(sectionControl, section);
+      }
+
+      if (this.sectionVisibility.get(sectionControl) !== isVisible) {
+        this.sectionVisibility.set(sectionControl, isVisible);
+        this.fieldStateChangesSubject.next(sectionControl);
+      }
+    };
+
+    return { sources, target: sectionControl, apply };
   }
 
   /**
-   * Collects nested conditional fields (placeholder for future use)
+   * Evaluates a condition (flat rule arrays are treated as an implicit "all" group)
    */
-  private collectNestedConditionalFields(
-    field: FormField,
-    conditionalFields: { [key: string]: FormField }
-  ): void {
-    // No nested fields to collect since we removed group fields
-    // This method is kept for future extensibility
+  private evaluateConditionalRules(form: FormGroup, condition: Condition, context?: RowContext): boolean {
+    return this.evaluateConditionExpression(form, Condition.normalize(condition), context);
   }
 
   /**
-   * Sets up conditional logic for a field
+   * Recursively evaluates a condition tree node
    */
-  private setupFieldConditionalLogic(
-    form: FormGroup,
-    field: FormField,
-    config: DynamicFormConfig
-  ): void {
-    if (!field.visibleWhen || field.visibleWhen.length === 0) return;
-
-    // Get all controlling fields
-    const controllingFields = field.visibleWhen.map(rule => rule.fieldId);
-    const observables = controllingFields.map(fieldId => {
-      const control = this.findControl(form, fieldId);
-      return control ? control.valueChanges.pipe(startWith(control.value)) : null;
-    }).filter(obs => obs !== null);
-
-    if (observables.length === 0) return;
-
-    // Combine all controlling field values and evaluate visibility
-    combineLatest(observables)
-      .pipe(
-        debounceTime(config.validation?.debounceTime || 300),
-        distinctUntilChanged()
-      )
-      .subscribe(() => {
-        const isVisible = this.evaluateConditionalRules(form, field.visibleWhen!);
-        const fieldControl = this.findControl(form, field.id);
+  private evaluateConditionExpression(form: FormGroup, expression: ConditionExpression, context?: RowContext): boolean {
+    if ('all' in expression) {
+      return expression.all.every(child => this.evaluateConditionExpression(form, child, context));
+    }
+    if ('any' in expression) {
+      return expression.any.some(child => this.evaluateConditionExpression(form, child, context));
+    }
+    if ('not' in expression) {
+      return !this.evaluateConditionExpression(form, expression.not, context);
+    }
+    if ('count' in expression) {
+      return this.evaluateCondition(this.countRows(form, expression), expression.operator, expression.value);
+    }
 
-        if (fieldControl) {
-          if (isVisible) {
-            this.showField(fieldControl, field);
-          } else {
-            this.hideField(fieldControl, field);
-          }
-        }
-      });
-  }
+    const control = this.findControl(form, expression.fieldId, context);
+    if (!control) return false;
 
-  /**
-   * Sets up conditional logic for a section
-   */
-  private setupSectionConditionalLogic(
-    form: FormGroup,
-    section: FormSection,
-    config: DynamicFormConfig
-  ): void {
-    if (!section.visibleWhen || section.visibleWhen.length === 0) return;
-
-    const controllingFields = section.visibleWhen.map(rule => rule.fieldId);
-    const observables = controllingFields.map(fieldId => {
-      const control = this.findControl(form, fieldId);
-      return control ? control.valueChanges.pipe(startWith(control.value)) : null;
-    }).filter(obs => obs !== null);
-
-    if (observables.length === 0) return;
-
-    combineLatest(observables)
-      .pipe(
-        debounceTime(config.validation?.debounceTime || 300),
-        distinctUntilChanged()
-      )
-      .subscribe(() => {
-        const isVisible = this.evaluateConditionalRules(form, section.visibleWhen!);
-        const sectionControl = form.get(section.id);
-
-        if (sectionControl) {
-          if (isVisible) {
-            this.showSection(sectionControl, section);
-          } else {
-            this.hideSection(sectionControl, section);
-          }
-        }
-      });
+    return this.evaluateCondition(control.value, expression.operator, expression.value);
   }
 
   /**
-   * Evaluates conditional rules
+   * Counts the rows of a repeatable section matching the aggregate's "where" condition
    */
-  private evaluateConditionalRules(form: FormGroup, rules: ConditionalRule[]): boolean {
-    return rules.every(rule => {
-      const control = this.findControl(form, rule.fieldId);
-      if (!control) return false;
+  private countRows(form: FormGroup, aggregate: AggregateConditionRule): number {
+    const formArray = form.get(aggregate.count);
+    if (!(formArray instanceof FormArray)) return 0;
 
-      const fieldValue = control.value;
-      return this.evaluateCondition(fieldValue, rule.operator, rule.value);
-    });
+    return formArray.controls.filter(row => !aggregate.where
+      || this.evaluateConditionalRules(form, aggregate.where, { sectionId: aggregate.count, row: row as FormGroup })
+    ).length;
   }
 
   /**
    * Evaluates a single condition
    */
-  private evaluateCondition(fieldValue: any, operator: ConditionalOperator, ruleValue: any): boolean {
+  private evaluateCondition(fieldValue: unknown, operator: ConditionalOperator, ruleValue: JsonValue): boolean {
     switch (operator) {
       case 'equals':
         return fieldValue === ruleValue;
       case 'notEquals':
         return fieldValue !== ruleValue;
       case 'contains':
-        return fieldValue && fieldValue.toString().includes(ruleValue);
+        return this.containsValue(fieldValue, ruleValue);
       case 'notContains':
-        return !fieldValue || !fieldValue.toString().includes(ruleValue);
+        return !this.containsValue(fieldValue, ruleValue);
       case 'greaterThan':
         return Number(fieldValue) > Number(ruleValue);
       case 'lessThan':
         return Number(fieldValue) < Number(ruleValue);
+      // Unchecked checkboxes count as empty, zero does not
       case 'isEmpty':
-        return !fieldValue || (Array.isArray(fieldValue) && fieldValue.length === 0);
+        return this.isEmptyValue(fieldValue) || fieldValue === false;
       case 'isNotEmpty':
-        return fieldValue && (!Array.isArray(fieldValue) || fieldValue.length > 0);
+        return !this.isEmptyValue(fieldValue) && fieldValue !== false;
       default:
         return false;
     }
   }
 
   /**
-   * Finds a control by field ID (supports nested fields)
+   * Checks membership for array values (every entry of an array rule value), substring otherwise
+   */
+  private containsValue(fieldValue: unknown, ruleValue: JsonValue): boolean {
+    if (Array.isArray(fieldValue)) {
+      const entries: unknown[] = fieldValue;
+      const expected = Array.isArray(ruleValue) ? ruleValue : [ruleValue];
+      return expected.every(value => entries.includes(value));
+    }
+    return (typeof fieldValue === 'string' || typeof fieldValue === 'number') && !!fieldValue
+      && String(fieldValue).includes(String(ruleValue));
+  }
+
+  /**
+   * Finds a control by field ID (supports nested fields and row-scoped references)
    */
-  private findControl(form: FormGroup, fieldId: string): AbstractControl | null {
+  private findControl(form: FormGroup, fieldId: string, context?: RowContext): AbstractControl | null {
+    const rowControl = this.findRowControl(fieldId, context);
+    if (rowControl) return rowControl;
+
     // Handle nested field IDs (e.g., "section.field")
     const parts = fieldId.split('.');
     let control: AbstractControl | null = form;
@@ -352,7 +1277,7 @@ export class DynamicFormService {
    * Shows a field (enables and makes visible)
    */
   private showField(control: AbstractControl, field: FormField): void {
-    if (field.disabled) return; // Don't enable if originally disabled
+    if (field.disabled || field.readOnly) return; // Don't enable if originally disabled
     
     control.enable({ emitEvent: false });
     // Additional UI visibility logic would be handled by components
@@ -363,10 +1288,21 @@ export class DynamicFormService {
    */
   private hideField(control: AbstractControl, field: FormField): void {
     control.disable({ emitEvent: false });
-    control.setValue(this.getDefaultValueForType(field.type), { emitEvent: false });
+    this.resetFieldValue(control, field);
     // Additional UI visibility logic would be handled by components
   }
 
+  /**
+   * Resets a field to its type's empty value; tables drop their rows instead
+   */
+  private resetFieldValue(control: AbstractControl, field: FormField): void {
+    if (control instanceof FormArray) {
+      control.clear({ emitEvent: false });
+    } else {
+      control.setValue(this.deserializeValue(field, this.getDefaultValueForType(field.type)), { emitEvent: false });
+    }
+  }
+
   /**
    * Shows a section
    */
@@ -388,7 +1324,7 @@ export class DynamicFormService {
         if (fieldControl) {
           const field = section.fields.find(f => f.id === key);
           if (field) {
-            fieldControl.setValue(this.getDefaultValueForType(field.type), { emitEvent: false });
+            this.resetFieldValue(fieldControl, field);
           }
         }
       });
@@ -396,22 +1332,128 @@ export class DynamicFormService {
   }
 
   /**
-   * Sets up form validation
+   * Maps a validation mode to the updateOn of Angular controls
    */
-  private setupValidation(
-    form: FormGroup,
-    schema: FormSchema,
-    config: DynamicFormConfig
-  ): void {
-    if (config.validation?.mode === 'onChange') {
-      form.valueChanges
-        .pipe(debounceTime(config.validation?.debounceTime || 300))
-        .subscribe(() => {
-          // Custom validation logic can be added here
-        });
+  private toUpdateOn(mode: ValidationMode | undefined): 'change' | 'blur' | 'submit' {
+    switch (mode) {
+      case 'onBlur':
+        return 'blur';
+      case 'onSubmit':
+        return 'submit';
+      default:
+        return 'change';
+    }
+  }
+
+  /**
+   * Marks a form, section or row as submitted: its fields count as touched and the errors of fields
+   * validated on submit show. Values held back by onSubmit controls are committed by the FormGroupDirective
+   * bound to the form (onSubmit), which callers trigger first.
+   */
+  markAsSubmitted(control: AbstractControl): void {
+    let submitted = this.submittedControls.get(control.root);
+    if (!submitted) {
+      submitted = new Set();
+      this.submittedControls.set(control.root, submitted);
+    }
+    submitted.add(control);
+
+    control.markAllAsTouched();
+    this.submittedSubject.next(control);
+  }
+
+  /**
+   * Checks whether a control, or a form, section or row containing it, was marked as submitted
+   */
+  isSubmitted(control: AbstractControl): boolean {
+    const submitted = this.submittedControls.get(control.root);
+    if (!submitted) return false;
+
+    for (let current: AbstractControl | null = control; current; current = current.parent) {
+      if (submitted.has(current)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Checks whether the errors of a control show yet, according to its validation mode:
+   * once edited or touched (onChange), once left (onBlur) or once submitted (onSubmit)
+   */
+  shouldShowErrors(control: AbstractControl | null): boolean {
+    if (!control) return false;
+
+    switch (control.updateOn) {
+      case 'blur':
+        return control.touched;
+      case 'submit':
+        return this.isSubmitted(control);
+      default:
+        return control.dirty || control.touched;
     }
   }
 
+  /**
+   * Sets server-side validation errors as serverError on the field controls their paths point to:
+   * "section.field", "section.0.field" in repeatable sections and "section.table.0.column" in tables
+   * ("section[0].field" is accepted too). Each is kept by a validator until the value of its field changes.
+   * @returns the errors matching no enabled field, to be shown at form level
+   */
+  applyServerErrors(form: FormGroup, errors: ValidationError[]): ValidationError[] {
+    const unmapped: ValidationError[] = [];
+
+    errors.forEach(error => {
+      const control = error.field ? this.findFieldControl(form, error.field) : null;
+      if (!control || control.disabled) {
+        unmapped.push(error);
+        return;
+      }
+
+      this.serverErrors.set(control, { code: error.code, message: error.message, value: JSON.stringify(control.value) });
+      if (!control.hasValidator(this.serverErrorValidator)) {
+        control.addValidators(this.serverErrorValidator);
+      }
+      control.updateValueAndValidity();
+      control.markAsTouched();
+    });
+
+    return unmapped;
+  }
+
+  /**
+   * Gets the server-side validation message set on a field control
+   */
+  getServerError(control: AbstractControl | null): string | null {
+    return (control && this.serverErrors.get(control)?.message) ?? null;
+  }
+
+  /**
+   * Finds the control of a field, table or table cell; sections and rows are not fields
+   */
+  private findFieldControl(form: FormGroup, path: string): AbstractControl | null {
+    const control = form.get(path.replace(/\[(\d+)\]/g, '.$1'));
+    if (control instanceof FormControl) return control;
+    return control instanceof FormArray && control.parent !== form ? control : null;
+  }
+
+  /**
+   * Gets the failing warning and info validators of a field control (none while it is disabled)
+   */
+  getWarnings(control: AbstractControl | null): FieldWarning[] {
+    if (!control || control.disabled) return [];
+    return this.fieldWarnings.get(control) || [];
+  }
+
+  /**
+   * Acknowledges a warning of a field control; it shows as acknowledged until its validator passes again
+   */
+  acknowledgeWarning(control: AbstractControl, key: string): void {
+    const warnings = this.fieldWarnings.get(control);
+    if (!warnings?.some(warning => warning.key === key && !warning.acknowledged)) return;
+
+    this.fieldWarnings.set(control, warnings.map(warning => (warning.key === key ? { ...warning, acknowledged: true } : warning)));
+    this.fieldStateChangesSubject.next(control);
+  }
+
   /**
    * Adds a repeatable section instance
    */
@@ -419,7 +1461,16 @@ export class DynamicFormService {
     const formArray = form.get(sectionId) as FormArray;
     if (formArray && section.repeatable) {
       if (!section.maxRepeats || formArray.length < section.maxRepeats) {
-        formArray.push(this.createSectionGroup(section));
+        const row = this.createSectionGroup(section);
+        formArray.push(row);
+
+        const graph = this.ruleGraphs.get(form);
+        if (graph?.conditionalLogic) {
+          const rowRules = this.createRowRules(form, section, row);
+          graph.rules.push(...rowRules);
+          this.compileRuleGraph(graph);
+          this.applyRules(graph, rowRules);
+        }
       }
     }
   }
@@ -431,41 +1482,267 @@ export class DynamicFormService {
     const formArray = form.get(sectionId) as FormArray;
     if (formArray && section.repeatable) {
       if (!section.minRepeats || formArray.length > section.minRepeats) {
+        const row = formArray.at(index);
+        const graph = this.ruleGraphs.get(form);
+        if (graph) {
+          graph.rules = graph.rules.filter(rule => rule.row !== row);
+          this.compileRuleGraph(graph);
+        }
         formArray.removeAt(index);
       }
     }
   }
 
+  /**
+   * Adds a row to a table field (ignored at its maxItems limit)
+   */
+  addTableRow(control: AbstractControl | null, field: FormField): void {
+    if (!(control instanceof FormArray) || !this.canAddTableRow(control, field)) return;
+    control.push(this.createTableRow(field));
+    control.markAsDirty();
+  }
+
+  /**
+   * Removes a row from a table field (ignored at its minItems limit)
+   */
+  removeTableRow(control: AbstractControl | null, field: FormField, index: number): void {
+    if (!(control instanceof FormArray) || !this.canRemoveTableRow(control, field)) return;
+    control.removeAt(index);
+    control.markAsDirty();
+  }
+
+  /**
+   * Moves a row of a table field to another position
+   */
+  moveTableRow(control: AbstractControl | null, fromIndex: number, toIndex: number): void {
+    if (!(control instanceof FormArray) || toIndex < 0 || toIndex >= control.length || fromIndex === toIndex) return;
+    const row = control.at(fromIndex);
+    control.removeAt(fromIndex, { emitEvent: false });
+    control.insert(toIndex, row);
+    control.markAsDirty();
+  }
+
+  canAddTableRow(control: AbstractControl | null, field: FormField): boolean {
+    const max = this.getTableRowLimits(field).max;
+    return control instanceof FormArray && control.enabled && (max === null || control.length < max);
+  }
+
+  canRemoveTableRow(control: AbstractControl | null, field: FormField): boolean {
+    return control instanceof FormArray && control.enabled && control.length > this.getTableRowLimits(field).min;
+  }
+
+  /**
+   * Row count limits of a table field, from its minItems/maxItems validators
+   */
+  getTableRowLimits(field: FormField): { min: number; max: number | null } {
+    const limit = (name: string) => {
+      const args = FieldValidators.find(field.validators, name)?.args;
+      return typeof args === 'number' ? args : null;
+    };
+    return { min: limit('minItems') ?? 0, max: limit('maxItems') };
+  }
+
+  /**
+   * Creates the group of one table row, with a control per column
+   */
+  private createTableRow(field: FormField): FormGroup {
+    const row = this.fb.group({});
+    field.columns?.forEach(column => row.addControl(column.id, this.createFieldControl(column)));
+    return row;
+  }
+
+  /**
+   * Matches the row count of a repeatable section to the stored rows, before it is patched. Rows are added
+   * and removed like the user does, so their row rules follow and minRepeats/maxRepeats still apply.
+   */
+  private resizeRepeatableSection(form: FormGroup, section: FormSection, rows: unknown): void {
+    const formArray = form.get(section.id);
+    if (!(formArray instanceof FormArray) || !Array.isArray(rows)) return;
+
+    for (let length = formArray.length; length < rows.length; length++) {
+      this.addRepeatableSection(form, section.id, section);
+      if (formArray.length === length) break; // maxRepeats reached
+    }
+    for (let length = formArray.length; length > rows.length; length--) {
+      this.removeRepeatableSection(form, section.id, length - 1, section);
+      if (formArray.length === length) break; // minRepeats reached
+    }
+  }
+
+  /**
+   * Matches the row count of the table fields in a section value to the stored rows, before it is patched
+   */
+  private resizeTables(sectionControl: AbstractControl, section: FormSection, value: unknown): void {
+    const tables = section.fields.filter(field => field.type === 'table');
+    if (!tables.length) return;
+
+    const resizeRow = (group: AbstractControl | null, rowValue: unknown) => tables.forEach(field => {
+      const table = group?.get(field.id);
+      const rows = rowValue && typeof rowValue === 'object' ? (rowValue as Record<string, unknown>)[field.id] : undefined;
+      if (!(table instanceof FormArray) || !Array.isArray(rows)) return;
+      while (table.length > rows.length) table.removeAt(table.length - 1, { emitEvent: false });
+      while (table.length < rows.length) table.push(this.createTableRow(field), { emitEvent: false });
+    });
+
+    if (sectionControl instanceof FormArray && Array.isArray(value)) {
+      value.forEach((rowValue, index) => resizeRow(sectionControl.at(index), rowValue));
+    } else {
+      resizeRow(sectionControl, value);
+    }
+  }
+
   /**
    * Converts form value to submission data format
    */
   convertToSubmissionData(form: FormGroup): FormSubmissionData {
-    const formValue = form.value;
     const submissionData: FormSubmissionData = {};
+    const schema = this.formSchemas.get(form);
 
-    Object.keys(formValue).forEach(sectionId => {
-      submissionData[sectionId] = formValue[sectionId];
-    });
+    Object.entries(form.controls)
+      .filter(([, control]) => !this.isHiddenByRule(control))
+      .forEach(([sectionId, control]) => {
+        const section = schema?.sections.find(candidate => candidate.id === sectionId);
+        const value = this.getSubmittedValue(control);
+        submissionData[sectionId] = (section
+          ? this.mapSectionValues(section, value, (field, fieldValue) => this.serializeValue(field, fieldValue))
+          : value) as SectionData;
+      });
 
     return submissionData;
   }
 
+  /**
+   * Gets the value of a section, row or field as submitted. Unlike FormGroup.value, fields that are shown
+   * but disabled or read-only keep their value; sections and fields hidden by a rule are left out.
+   */
+  private getSubmittedValue(control: AbstractControl): unknown {
+    if (control instanceof FormGroup) {
+      return Object.fromEntries(Object.entries(control.controls)
+        .filter(([, child]) => !this.isHiddenByRule(child))
+        .map(([key, child]) => [key, this.getSubmittedValue(child)]));
+    }
+    if (control instanceof FormArray) {
+      return control.controls.map(child => this.getSubmittedValue(child));
+    }
+    return control.value as unknown;
+  }
+
+  private isHiddenByRule(control: AbstractControl): boolean {
+    return this.fieldStates.get(control)?.visible === false || this.sectionVisibility.get(control) === false;
+  }
+
   /**
    * Populates form with existing data
    */
   populateForm(form: FormGroup, data: FormSubmissionData): void {
+    const schema = this.formSchemas.get(form);
+
     Object.keys(data).forEach(sectionId => {
       const control = form.get(sectionId);
+      const section = schema?.sections.find(candidate => candidate.id === sectionId);
       if (control) {
-        control.patchValue(data[sectionId], { emitEvent: false });
+        const value = section
+          ? this.mapSectionValues(section, data[sectionId], (field, fieldValue) => this.deserializeValue(field, fieldValue as JsonValue))
+          : data[sectionId];
+        if (section?.repeatable) {
+          this.resizeRepeatableSection(form, section, value);
+        }
+        if (section) {
+          this.resizeTables(control, section, value);
+        }
+        control.patchValue(value, { emitEvent: false });
       }
     });
+
+    // Loaded or restored data starts without submission errors
+    this.submittedControls.delete(form);
+    this.applyAllRules(form);
+    this.updateWarnings(form);
+  }
+
+  /**
+   * Maps the field values of a section value (every row of a repeatable section)
+   */
+  private mapSectionValues<T>(section: FormSection, value: T, mapValue: (field: FormField, value: unknown) => unknown): T {
+    const mapRow = (row: unknown): unknown => {
+      if (!row || typeof row !== 'object' || Array.isArray(row)) return row;
+      const mapped: Record<string, unknown> = { ...row };
+      section.fields
+        .filter(field => field.id in mapped)
+        .forEach(field => (mapped[field.id] = mapValue(field, mapped[field.id])));
+      return mapped;
+    };
+    return (Array.isArray(value) ? value.map(mapRow) : mapRow(value)) as T;
+  }
+
+  /**
+   * Converts a stored value into a control value: date fields hold local Date objects for the datepicker,
+   * which would otherwise read ISO dates as UTC midnight, and formatted types normalize legacy free text
+   * and plain numbers (see FieldFormatService)
+   */
+  private deserializeValue(field: FormField, value: JsonValue): unknown {
+    if (field.type === 'table') {
+      return this.mapTableRows(field, value, (column, cellValue) => this.deserializeValue(column, cellValue as JsonValue));
+    }
+    if (this.fieldFormatService.isFormattedType(field.type)) {
+      return this.fieldFormatService.normalize(field, value);
+    }
+    if (field.type === 'user-picker' || field.type === 'ticket-picker') {
+      return this.toReferenceValue(field, value);
+    }
+    return field.type === 'date' && typeof value === 'string'
+      ? this.dateTimeService.parseIsoDate(value) ?? value
+      : value;
+  }
+
+  /**
+   * Reads picker IDs: an array when attributes.multiple is set, else the first ID or null,
+   * so switching a picker between single and multiple selection keeps its data
+   */
+  private toReferenceValue(field: FormField, value: JsonValue): string | string[] | null {
+    const ids = (Array.isArray(value) ? value : [value])
+      .filter((id): id is string => typeof id === 'string' && id !== '');
+    return field.attributes?.['multiple'] ? ids : ids[0] ?? null;
+  }
+
+  /**
+   * Converts a control value into a stored value: date and time values become ISO 8601, also in table cells
+   */
+  private serializeValue(field: FormField, value: unknown): JsonValue {
+    return field.type === 'table'
+      ? this.mapTableRows(field, value, (column, cellValue) => this.serializeValue(column, cellValue)) as JsonValue[]
+      : this.dateTimeService.serialize(field.type, value);
+  }
+
+  /**
+   * Maps the cell values of every row of a table value; rows that are not objects are dropped
+   */
+  private mapTableRows(field: FormField, value: unknown, mapCell: (column: FormField, value: unknown) => unknown): Record<string, unknown>[] {
+    if (!Array.isArray(value)) return [];
+    return value
+      .filter((row: unknown): row is Record<string, unknown> => !!row && typeof row === 'object' && !Array.isArray(row))
+      .map(row => {
+        const mapped = { ...row };
+        field.columns?.filter(column => column.id in mapped).forEach(column => (mapped[column.id] = mapCell(column, mapped[column.id])));
+        return mapped;
+      });
   }
 
   /**
    * Gets validation errors from form
    */
   getValidationErrors(form: FormGroup, schema: FormSchema): FormValidationError[] {
+    return this.collectValidationMessages(form, schema).filter(message => message.severity === 'error');
+  }
+
+  /**
+   * Gets the warnings and info messages of all fields; they never block submitting
+   */
+  getValidationWarnings(form: FormGroup, schema: FormSchema): FormValidationError[] {
+    return this.collectValidationMessages(form, schema).filter(message => message.severity !== 'error');
+  }
+
+  private collectValidationMessages(form: FormGroup, schema: FormSchema): FormValidationError[] {
     const errors: FormValidationError[] = [];
 
     schema.sections.forEach(section => {
@@ -475,6 +1752,12 @@ export class DynamicFormService {
       }
     });
 
+    // Form-level cross-field errors use "section.field" paths
+    this.collectCrossFieldErrors(form, '', errors, path => {
+      const [sectionId, fieldId] = path.split('.');
+      return { sectionId, fieldId };
+    });
+
     return errors;
   }
 
@@ -506,46 +1789,134 @@ export class DynamicFormService {
     errors: FormValidationError[],
     arrayIndex?: number
   ): void {
+    const groupPath = arrayIndex === undefined ? section.id : `${section.id}.${arrayIndex}`;
+
     section.fields.forEach(field => {
       const control = group.get(field.id);
+      if (control instanceof FormArray && field.type === 'table') {
+        this.collectTableErrors(control, field, section, `${groupPath}.${field.id}`, errors);
+      }
       if (control && control.errors) {
         Object.keys(control.errors).forEach(errorKey => {
-          const validator = field.validators?.find(v => v.name === errorKey);
           errors.push({
             fieldId: field.id,
             sectionId: section.id,
-            fieldPath: `${section.id}.${field.id}`,
-            message: validator?.message || this.getDefaultErrorMessage(errorKey, field),
+            fieldPath: `${groupPath}.${field.id}`,
+            message: this.getErrorMessage(control, errorKey, field),
             code: errorKey,
             severity: 'error',
             timestamp: new Date()
           });
         });
       }
+      this.getWarnings(control).forEach(warning => {
+        errors.push(this.toValidationWarning(warning, section, field.id, `${groupPath}.${field.id}`, warning.message));
+      });
     });
+
+    this.collectCrossFieldErrors(group, `${groupPath}.`, errors, fieldId => ({ sectionId: section.id, fieldId }));
   }
 
   /**
-   * Gets default error message for validation error
+   * Collects cell errors of a table field; paths include the row index ("section.table.0.column")
    */
-  private getDefaultErrorMessage(errorKey: string, field: FormField): string {
-    switch (errorKey) {
-      case 'required':
-        return `${field.label} is required`;
-      case 'min':
-        return `${field.label} must be greater than minimum value`;
-      case 'max':
-        return `${field.label} must be less than maximum value`;
-      case 'minlength':
-        return `${field.label} must be at least minimum length`;
-      case 'maxlength':
-        return `${field.label} must not exceed maximum length`;
-      case 'pattern':
-        return `${field.label} format is invalid`;
-      case 'email':
-        return `${field.label} must be a valid email address`;
-      default:
-        return `${field.label} is invalid`;
+  private collectTableErrors(
+    table: FormArray,
+    field: FormField,
+    section: FormSection,
+    tablePath: string,
+    errors: FormValidationError[]
+  ): void {
+    table.controls.forEach((row, rowIndex) => {
+      field.columns?.forEach(column => {
+        const cell = row.get(column.id);
+        Object.keys(cell?.errors || {}).forEach(errorKey => {
+          errors.push({
+            fieldId: field.id,
+            sectionId: section.id,
+            fieldPath: `${tablePath}.${rowIndex}.${column.id}`,
+            message: `${field.label}, row ${rowIndex + 1}: ${this.getErrorMessage(cell!, errorKey, column)}`,
+            code: errorKey,
+            severity: 'error',
+            timestamp: new Date()
+          });
+        });
+        this.getWarnings(cell).forEach(warning => {
+          errors.push(this.toValidationWarning(warning, section, field.id, `${tablePath}.${rowIndex}.${column.id}`,
+            `${field.label}, row ${rowIndex + 1}: ${warning.message}`));
+        });
+      });
+    });
+  }
+
+  private toValidationWarning(
+    warning: FieldWarning,
+    section: FormSection,
+    fieldId: string,
+    fieldPath: string,
+    message: string
+  ): FormValidationError {
+    return {
+      fieldId,
+      sectionId: section.id,
+      fieldPath,
+      message,
+      code: warning.key,
+      severity: warning.severity,
+      acknowledged: warning.acknowledged,
+      timestamp: new Date()
+    };
+  }
+
+  /**
+   * Collects cross-field errors reported by a group validator
+   */
+  private collectCrossFieldErrors(
+    group: AbstractControl,
+    pathPrefix: string,
+    errors: FormValidationError[],
+    locate: (field: string) => { sectionId: string; fieldId: string }
+  ): void {
+    Object.entries(group.errors || {}).forEach(([errorKey, error]) => {
+      if (!this.isCrossFieldError(error)) return;
+
+      const { sectionId, fieldId } = locate(error.field);
+      errors.push({
+        fieldId,
+        sectionId,
+        fieldPath: `${pathPrefix}${error.field}`,
+        message: error.message,
+        code: errorKey,
+        severity: 'error',
+        timestamp: new Date()
+      });
+    });
+  }
+
+  /**
+   * Type guard for cross-field error payloads
+   */
+  isCrossFieldError(error: unknown): error is CrossFieldError {
+    return !!error && typeof error === 'object'
+      && typeof (error as CrossFieldError).field === 'string'
+      && typeof (error as CrossFieldError).message === 'string';
+  }
+
+  /**
+   * Gets the message of a validation error: the server's, the declared one, or the default
+   */
+  private getErrorMessage(control: AbstractControl, errorKey: string, field: FormField): string {
+    if (errorKey === SERVER_ERROR_KEY) {
+      return this.getServerError(control)!;
     }
+    return FieldValidators.find(field.validators, errorKey)?.message
+      || this.getDefaultErrorMessage(errorKey, field, control.getError(errorKey));
+  }
+
+  /**
+   * Gets default error message for validation error
+   */
+  private getDefaultErrorMessage(errorKey: string, field: FormField, error?: unknown): string {
+    return this.validatorRegistry.getDefaultMessage(errorKey, field.label, error) || `${field.label} is invalid`;
   }
 }
@@ -0,0 +1,56 @@
+import { TestBed } from '@angular/core/testing';
+
+import { ExpressionEvaluatorService, ExpressionValue } from './expression-evaluator.service';
+
+describe('ExpressionEvaluatorService', () => {
+  let service: ExpressionEvaluatorService;
+
+  const values: Record<string, ExpressionValue> = {
+    quantity: 3,
+    'equipment.unit_price': 2.5,
+    first_name: 'Ada',
+    last_name: 'Lovelace',
+    start_date: new Date(2024, 0, 1),
+    end_date: new Date(2024, 0, 31)
+  };
+  const evaluate = (source: string) => service.evaluate(service.compile(source), path => values[path] ?? null);
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ExpressionEvaluatorService);
+  });
+
+  it('should evaluate arithmetic with section.field references', () => {
+    expect(evaluate('quantity * equipment.unit_price')).toBe(7.5);
+    expect(evaluate('-quantity + 2 * (1 + 1)')).toBe(1);
+  });
+
+  it('should concatenate strings', () => {
+    expect(evaluate("first_name + ' ' + last_name")).toBe('Ada Lovelace');
+  });
+
+  it('should support date math', () => {
+    expect(evaluate('end_date - start_date')).toBe(30);
+    expect(evaluate('addDays(start_date, 10)')).toEqual(new Date(2024, 0, 11));
+  });
+
+  it('should show dates as local calendar dates in text', () => {
+    const lateEvening = new Date(2024, 0, 31, 23, 30);
+
+    expect(evaluate("'Starts ' + start_date")).toBe('Starts 2024-01-01');
+    expect(service.evaluate(service.compile('concat(due)'), () => lateEvening)).toBe('2024-01-31');
+  });
+
+  it('should collect references', () => {
+    expect(service.compile('quantity * equipment.unit_price').references).toEqual(['quantity', 'equipment.unit_price']);
+  });
+
+  it('should return null for division by zero', () => {
+    expect(evaluate('quantity / 0')).toBeNull();
+  });
+
+  it('should reject malformed expressions and unknown functions', () => {
+    expect(() => service.compile('quantity +')).toThrowError(/unexpected end/);
+    expect(() => service.compile('eval("1")')).toThrowError(/unknown function "eval"/);
+  });
+});
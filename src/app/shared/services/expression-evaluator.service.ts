@@ -0,0 +1,508 @@
+/**
+ * Expression Evaluator Service
+ * Safe evaluator for calculated field expressions
+ *
+ * Expressions are tokenized and parsed into a small AST - nothing is ever passed to eval/Function.
+ * Only the operators and functions listed below are available.
+ *
+ * Grammar (lowest to highest precedence):
+ *   conditional    := or ('?' conditional ':' conditional)?
+ *   or             := and ('||' and)*
+ *   and            := equality ('&&' equality)*
+ *   equality       := comparison (('==' | '!=') comparison)*
+ *   comparison     := additive (('<' | '<=' | '>' | '>=') additive)*
+ *   additive       := multiplicative (('+' | '-') multiplicative)*
+ *   multiplicative := unary (('*' | '/' | '%') unary)*
+ *   unary          := ('-' | '!') unary | primary
+ *   primary        := number | string | true | false | null | call | reference | '(' conditional ')'
+ *   call           := name '(' (conditional (',' conditional)*)? ')'
+ *   reference      := name ('.' name)*          e.g. quantity, equipment.unit_price
+ *
+ * Semantics:
+ *   - '+' concatenates when either side is a string, otherwise adds numbers
+ *   - Date + number / Date - number shift by days, Date - Date yields the difference in days
+ *   - Division by zero and non-numeric arithmetic yield null
+ */
+
+import { Injectable, inject } from '@angular/core';
+
+import { DateTimeService } from './date-time.service';
+
+// Values an expression can produce or consume
+export type ExpressionValue = string | number | boolean | Date | null;
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '==' | '!=' | '<' | '<=' | '>' | '>=' | '&&' | '||';
+
+// Parsed expression tree
+export type ExpressionNode =
+  | { kind: 'literal'; value: ExpressionValue }
+  | { kind: 'reference'; path: string }
+  | { kind: 'unary'; operator: '-' | '!'; operand: ExpressionNode }
+  | { kind: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+// Compiled expression with the field references it depends on
+export interface CompiledExpression {
+  source: string;
+  ast: ExpressionNode;
+  references: string[];
+}
+
+// Resolves a reference path (e.g. "section.field") to its current value
+export type ExpressionResolver = (path: string) => ExpressionValue;
+
+interface Token {
+  type: 'number' | 'string' | 'name' | 'operator' | 'eof';
+  value: string;
+  position: number;
+}
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '(', ')', ','];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ExpressionEvaluatorService {
+  private readonly dateTimeService = inject(DateTimeService);
+  private readonly cache = new Map<string, CompiledExpression>();
+
+  // Whitelisted functions available to expressions
+  private readonly functions: Record<string, (...args: ExpressionValue[]) => ExpressionValue> = {
+    round: (value, digits) => {
+      const factor = Math.pow(10, this.toNumber(digits ?? 0));
+      return Math.round(this.toNumber(value) * factor) / factor;
+    },
+    floor: value => Math.floor(this.toNumber(value)),
+    ceil: value => Math.ceil(this.toNumber(value)),
+    abs: value => Math.abs(this.toNumber(value)),
+    min: (...values) => Math.min(...values.map(value => this.toNumber(value))),
+    max: (...values) => Math.max(...values.map(value => this.toNumber(value))),
+    sum: (...values) => values.reduce<number>((total, value) => total + this.toNumber(value), 0),
+    concat: (...values) => values.map(value => this.toText(value)).join(''),
+    upper: value => this.toText(value).toUpperCase(),
+    lower: value => this.toText(value).toLowerCase(),
+    trim: value => this.toText(value).trim(),
+    len: value => this.toText(value).length,
+    coalesce: (...values) => values.find(value => value !== null && value !== '') ?? null,
+    if: (test, consequent, alternate) => (this.isTruthy(test) ? consequent : alternate ?? null),
+    today: () => {
+      const now = new Date();
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    },
+    date: value => this.toDate(value),
+    addDays: (value, days) => this.addDays(this.toDate(value), this.toNumber(days)),
+    addMonths: (value, months) => {
+      const date = this.toDate(value);
+      if (!date) return null;
+      const result = new Date(date);
+      result.setMonth(result.getMonth() + this.toNumber(months));
+      return result;
+    },
+    daysBetween: (from, to) => this.daysBetween(this.toDate(from), this.toDate(to)),
+    year: value => this.toDate(value)?.getFullYear() ?? null,
+    month: value => {
+      const date = this.toDate(value);
+      return date ? date.getMonth() + 1 : null;
+    },
+    day: value => this.toDate(value)?.getDate() ?? null
+  };
+
+  /**
+   * Parses an expression (cached) and collects its references
+   * @throws Error when the expression is malformed or calls an unknown function
+   */
+  compile(source: string): CompiledExpression {
+    const cached = this.cache.get(source);
+    if (cached) return cached;
+
+    const parser = new ExpressionParser(this.tokenize(source), source);
+    const ast = parser.parse();
+    const references = new Set<string>();
+    this.collectReferences(ast, references);
+
+    const compiled: CompiledExpression = { source, ast, references: Array.from(references) };
+    this.cache.set(source, compiled);
+    return compiled;
+  }
+
+  /**
+   * Evaluates a compiled expression against a reference resolver
+   */
+  evaluate(expression: CompiledExpression, resolve: ExpressionResolver): ExpressionValue {
+    const result = this.evaluateNode(expression.ast, resolve);
+    return typeof result === 'number' && !isFinite(result) ? null : result;
+  }
+
+  /**
+   * Checks whether a function name is available to expressions
+   */
+  isKnownFunction(name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.functions, name);
+  }
+
+  // === PRIVATE HELPER METHODS ===
+
+  /**
+   * Splits an expression into tokens
+   */
+  private tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let position = 0;
+
+    while (position < source.length) {
+      const char = source[position];
+
+      if (/\s/.test(char)) {
+        position++;
+        continue;
+      }
+
+      const numberMatch = /^\d+(\.\d+)?/.exec(source.slice(position));
+      if (numberMatch) {
+        tokens.push({ type: 'number', value: numberMatch[0], position });
+        position += numberMatch[0].length;
+        continue;
+      }
+
+      const nameMatch = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*/.exec(source.slice(position));
+      if (nameMatch) {
+        tokens.push({ type: 'name', value: nameMatch[0], position });
+        position += nameMatch[0].length;
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        let value = '';
+        let end = position + 1;
+        while (end < source.length && source[end] !== char) {
+          if (source[end] === '\\' && end + 1 < source.length) {
+            end++;
+          }
+          value += source[end];
+          end++;
+        }
+        if (end >= source.length) {
+          throw new Error(`ExpressionEvaluator: unterminated string at position ${position}`);
+        }
+        tokens.push({ type: 'string', value, position });
+        position = end + 1;
+        continue;
+      }
+
+      const operator = OPERATORS.find(op => source.startsWith(op, position));
+      if (operator) {
+        tokens.push({ type: 'operator', value: operator, position });
+        position += operator.length;
+        continue;
+      }
+
+      throw new Error(`ExpressionEvaluator: unexpected character "${char}" at position ${position}`);
+    }
+
+    tokens.push({ type: 'eof', value: '', position });
+    return tokens;
+  }
+
+  /**
+   * Collects reference paths and validates function names
+   */
+  private collectReferences(node: ExpressionNode, references: Set<string>): void {
+    switch (node.kind) {
+      case 'reference':
+        references.add(node.path);
+        break;
+      case 'unary':
+        this.collectReferences(node.operand, references);
+        break;
+      case 'binary':
+        this.collectReferences(node.left, references);
+        this.collectReferences(node.right, references);
+        break;
+      case 'conditional':
+        this.collectReferences(node.test, references);
+        this.collectReferences(node.consequent, references);
+        this.collectReferences(node.alternate, references);
+        break;
+      case 'call':
+        if (!this.isKnownFunction(node.name)) {
+          throw new Error(`ExpressionEvaluator: unknown function "${node.name}"`);
+        }
+        node.args.forEach(arg => this.collectReferences(arg, references));
+        break;
+    }
+  }
+
+  /**
+   * Evaluates a single AST node
+   */
+  private evaluateNode(node: ExpressionNode, resolve: ExpressionResolver): ExpressionValue {
+    switch (node.kind) {
+      case 'literal':
+        return node.value;
+      case 'reference':
+        return resolve(node.path);
+      case 'unary': {
+        const operand = this.evaluateNode(node.operand, resolve);
+        return node.operator === '!' ? !this.isTruthy(operand) : -this.toNumber(operand);
+      }
+      case 'conditional':
+        return this.isTruthy(this.evaluateNode(node.test, resolve))
+          ? this.evaluateNode(node.consequent, resolve)
+          : this.evaluateNode(node.alternate, resolve);
+      case 'call':
+        return this.functions[node.name](...node.args.map(arg => this.evaluateNode(arg, resolve)));
+      case 'binary':
+        return this.evaluateBinary(node.operator, node.left, node.right, resolve);
+    }
+  }
+
+  /**
+   * Evaluates a binary operation
+   */
+  private evaluateBinary(
+    operator: BinaryOperator,
+    leftNode: ExpressionNode,
+    rightNode: ExpressionNode,
+    resolve: ExpressionResolver
+  ): ExpressionValue {
+    // Short-circuit logical operators
+    if (operator === '&&') {
+      return this.isTruthy(this.evaluateNode(leftNode, resolve)) && this.isTruthy(this.evaluateNode(rightNode, resolve));
+    }
+    if (operator === '||') {
+      return this.isTruthy(this.evaluateNode(leftNode, resolve)) || this.isTruthy(this.evaluateNode(rightNode, resolve));
+    }
+
+    const left = this.evaluateNode(leftNode, resolve);
+    const right = this.evaluateNode(rightNode, resolve);
+
+    switch (operator) {
+      case '+':
+        if (typeof left === 'string' || typeof right === 'string') {
+          return this.toText(left) + this.toText(right);
+        }
+        if (left instanceof Date) {
+          return this.addDays(left, this.toNumber(right));
+        }
+        return this.toNumber(left) + this.toNumber(right);
+      case '-':
+        if (left instanceof Date && right instanceof Date) {
+          return this.daysBetween(right, left);
+        }
+        if (left instanceof Date) {
+          return this.addDays(left, -this.toNumber(right));
+        }
+        return this.toNumber(left) - this.toNumber(right);
+      case '*':
+        return this.toNumber(left) * this.toNumber(right);
+      case '/':
+        return this.toNumber(right) === 0 ? null : this.toNumber(left) / this.toNumber(right);
+      case '%':
+        return this.toNumber(right) === 0 ? null : this.toNumber(left) % this.toNumber(right);
+      case '==':
+        return this.comparable(left) === this.comparable(right);
+      case '!=':
+        return this.comparable(left) !== this.comparable(right);
+      case '<':
+        return this.compare(left, right) < 0;
+      case '<=':
+        return this.compare(left, right) <= 0;
+      case '>':
+        return this.compare(left, right) > 0;
+      case '>=':
+        return this.compare(left, right) >= 0;
+    }
+  }
+
+  private toNumber(value: ExpressionValue): number {
+    if (value === null || value === '') return 0;
+    if (value instanceof Date) return value.getTime();
+    return Number(value);
+  }
+
+  private toText(value: ExpressionValue): string {
+    if (value === null) return '';
+    if (value instanceof Date) return this.dateTimeService.toIsoDate(value) ?? '';
+    return String(value);
+  }
+
+  private toDate(value: ExpressionValue): Date | null {
+    if (value === null || value === '' || typeof value === 'boolean') return null;
+    const date = value instanceof Date ? value : new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  private isTruthy(value: ExpressionValue): boolean {
+    return value !== null && value !== false && value !== 0 && value !== '';
+  }
+
+  private comparable(value: ExpressionValue): ExpressionValue {
+    return value instanceof Date ? value.getTime() : value;
+  }
+
+  private compare(left: ExpressionValue, right: ExpressionValue): number {
+    if (typeof left === 'string' && typeof right === 'string') {
+      return left.localeCompare(right);
+    }
+    return this.toNumber(left) - this.toNumber(right);
+  }
+
+  private addDays(date: Date | null, days: number): Date | null {
+    if (!date) return null;
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+  }
+
+  private daysBetween(from: Date | null, to: Date | null): number | null {
+    if (!from || !to) return null;
+    return Math.round((to.getTime() - from.getTime()) / DAY_MS);
+  }
+}
+
+/**
+ * Recursive-descent parser following the grammar documented above
+ */
+class ExpressionParser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly source: string) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseConditional();
+    if (this.peek().type !== 'eof') {
+      this.fail(`unexpected "${this.peek().value}"`);
+    }
+    return node;
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseBinary(0);
+    if (!this.match('?')) return test;
+
+    const consequent = this.parseConditional();
+    this.expect(':');
+    const alternate = this.parseConditional();
+    return { kind: 'conditional', test, consequent, alternate };
+  }
+
+  // Binary operators grouped by precedence, lowest first
+  private static readonly PRECEDENCE: BinaryOperator[][] = [
+    ['||'],
+    ['&&'],
+    ['==', '!='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%']
+  ];
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level >= ExpressionParser.PRECEDENCE.length) {
+      return this.parseUnary();
+    }
+
+    let left = this.parseBinary(level + 1);
+    let operator = this.matchAny(ExpressionParser.PRECEDENCE[level]);
+    while (operator) {
+      const right = this.parseBinary(level + 1);
+      left = { kind: 'binary', operator, left, right };
+      operator = this.matchAny(ExpressionParser.PRECEDENCE[level]);
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.match('-')) {
+      return { kind: 'unary', operator: '-', operand: this.parseUnary() };
+    }
+    if (this.match('!')) {
+      return { kind: 'unary', operator: '!', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'name':
+        return this.parseName(token);
+      case 'operator':
+        if (token.value === '(') {
+          const node = this.parseConditional();
+          this.expect(')');
+          return node;
+        }
+        break;
+    }
+
+    return this.fail(token.type === 'eof' ? 'unexpected end of expression' : `unexpected "${token.value}"`);
+  }
+
+  private parseName(token: Token): ExpressionNode {
+    if (token.value === 'true') return { kind: 'literal', value: true };
+    if (token.value === 'false') return { kind: 'literal', value: false };
+    if (token.value === 'null') return { kind: 'literal', value: null };
+
+    if (!this.match('(')) {
+      return { kind: 'reference', path: token.value };
+    }
+
+    if (token.value.includes('.')) {
+      this.fail(`invalid function name "${token.value}"`);
+    }
+
+    const args: ExpressionNode[] = [];
+    if (!this.match(')')) {
+      do {
+        args.push(this.parseConditional());
+      } while (this.match(','));
+      this.expect(')');
+    }
+    return { kind: 'call', name: token.value, args };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private match(operator: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === operator) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchAny<T extends string>(operators: T[]): T | null {
+    const token = this.peek();
+    if (token.type === 'operator' && (operators as string[]).includes(token.value)) {
+      this.index++;
+      return token.value as T;
+    }
+    return null;
+  }
+
+  private expect(operator: string): void {
+    if (!this.match(operator)) {
+      this.fail(`expected "${operator}"`);
+    }
+  }
+
+  private fail(message: string): never {
+    throw new Error(`ExpressionEvaluator: ${message} at position ${this.peek().position} in "${this.source}"`);
+  }
+}
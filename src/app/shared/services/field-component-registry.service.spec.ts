@@ -0,0 +1,45 @@
+import { Component, Input } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+
+import { FieldType } from '../models';
+import { BaseFieldComponent, RadioFieldComponent, TextFieldComponent } from '../components/form-fields';
+import { FieldComponentRegistryService, provideFieldTypes } from './field-component-registry.service';
+
+@Component({
+  selector: 'app-signature-field',
+  standalone: true,
+  template: ''
+})
+class SignatureFieldComponent extends BaseFieldComponent {
+  @Input() rendered = false;
+}
+
+describe('FieldComponentRegistryService', () => {
+  const signature = 'signature' as FieldType;
+
+  it('should register the built-in field types', () => {
+    const registry = TestBed.inject(FieldComponentRegistryService);
+
+    expect(registry.get('email')?.component).toBe(TextFieldComponent);
+    expect(registry.get('radio')).toEqual({ component: RadioFieldComponent, fullWidth: true });
+    expect(registry.has('signature')).toBeFalse();
+  });
+
+  it('should register field types from providers', () => {
+    TestBed.configureTestingModule({
+      providers: [provideFieldTypes({ [signature]: { component: SignatureFieldComponent, fullWidth: true } })]
+    });
+    const registry = TestBed.inject(FieldComponentRegistryService);
+
+    expect(registry.get('signature')?.component).toBe(SignatureFieldComponent);
+    expect(registry.get('text')?.component).toBe(TextFieldComponent);
+  });
+
+  it('should list the inputs a field component declares', () => {
+    const registry = TestBed.inject(FieldComponentRegistryService);
+
+    expect([...registry.getInputNames(SignatureFieldComponent)]).toEqual(jasmine.arrayWithExactContents(['field', 'formGroup', 'rendered']));
+    expect(registry.getInputNames(RadioFieldComponent).has('options')).toBeTrue();
+    expect(registry.getInputNames(TextFieldComponent).has('options')).toBeFalse();
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Field Component Registry Service
+ * Maps field types used in form schemas to the components that render them
+ *
+ * Built-in types are registered up front. Feature code registers its own types, or replaces the
+ * component of a built-in one, from its providers:
+ *
+ * providers: [provideFieldTypes({ signature: { component: SignatureFieldComponent, fullWidth: true } })]
+ *
+ * Field components extend BaseFieldComponent. FormSectionComponent sets `field` and `formGroup`, plus
+ * the section inputs (options, optionEntries, optionsLoading, optionsSearch, rendered) the component declares.
+ */
+
+import { EnvironmentProviders, Injectable, Type, inject, provideEnvironmentInitializer, reflectComponentType } from '@angular/core';
+
+import { BuiltInFieldType, FieldType } from '../models';
+import {
+  BaseFieldComponent,
+  CheckboxFieldComponent,
+  CheckboxGroupFieldComponent,
+  CurrencyFieldComponent,
+  DateFieldComponent,
+  DateRangeFieldComponent,
+  DateTimeFieldComponent,
+  FileFieldComponent,
+  LookupFieldComponent,
+  MaskedFieldComponent,
+  MultiselectFieldComponent,
+  NumberFieldComponent,
+  PercentageFieldComponent,
+  PhoneFieldComponent,
+  RadioFieldComponent,
+  RichtextFieldComponent,
+  SelectFieldComponent,
+  TableFieldComponent,
+  TagsFieldComponent,
+  TextareaFieldComponent,
+  TextFieldComponent,
+  TimeFieldComponent,
+  UrlFieldComponent
+} from '../components/form-fields';
+
+// Field type registration
+export interface FieldComponentDefinition {
+  component: Type<BaseFieldComponent>;
+  /** Spans the full row of the section grid instead of half of it */
+  fullWidth?: boolean;
+}
+
+/**
+ * Register field types from the providers of the app, a route or a feature
+ */
+export function provideFieldTypes(types: { [type in FieldType]?: FieldComponentDefinition }): EnvironmentProviders {
+  return provideEnvironmentInitializer(() => {
+    const registry = inject(FieldComponentRegistryService);
+    Object.entries(types).forEach(([type, definition]) => registry.register(type as FieldType, definition));
+  });
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class FieldComponentRegistryService {
+  private readonly definitions = new Map<string, FieldComponentDefinition>();
+  private readonly inputNames = new Map<Type<BaseFieldComponent>, Set<string>>();
+
+  constructor() {
+    this.registerBuiltInTypes();
+  }
+
+  /**
+   * Register the component of a field type (replaces an existing registration of the type)
+   */
+  register(type: FieldType, definition: FieldComponentDefinition): void {
+    this.definitions.set(type, definition);
+  }
+
+  /**
+   * Check whether a field type has a component
+   */
+  has(type: string): boolean {
+    return this.definitions.has(type);
+  }
+
+  /**
+   * Get the registration of a field type
+   * @returns undefined for unknown types
+   */
+  get(type: string): FieldComponentDefinition | undefined {
+    return this.definitions.get(type);
+  }
+
+  /**
+   * Names of the inputs a field component declares, so that only those are set on it
+   */
+  getInputNames(component: Type<BaseFieldComponent>): Set<string> {
+    let names = this.inputNames.get(component);
+    if (!names) {
+      names = new Set(reflectComponentType(component)?.inputs.map(input => input.templateName) ?? []);
+      this.inputNames.set(component, names);
+    }
+    return names;
+  }
+
+  // === PRIVATE HELPER METHODS ===
+
+  private registerBuiltInTypes(): void {
+    const builtIns: { [type in BuiltInFieldType]: FieldComponentDefinition } = {
+      'text': { component: TextFieldComponent },
+      'email': { component: TextFieldComponent },
+      'number': { component: NumberFieldComponent },
+      'currency': { component: CurrencyFieldComponent },
+      'percentage': { component: PercentageFieldComponent },
+      'phone': { component: PhoneFieldComponent },
+      'url': { component: UrlFieldComponent },
+      'masked': { component: MaskedFieldComponent },
+      'date': { component: DateFieldComponent },
+      'datetime': { component: DateTimeFieldComponent },
+      'time': { component: TimeFieldComponent },
+      'daterange': { component: DateRangeFieldComponent, fullWidth: true },
+      'select': { component: SelectFieldComponent },
+      'radio': { component: RadioFieldComponent, fullWidth: true },
+      'checkbox': { component: CheckboxFieldComponent },
+      'textarea': { component: TextareaFieldComponent, fullWidth: true },
+      'richtext': { component: RichtextFieldComponent, fullWidth: true },
+      'file': { component: FileFieldComponent, fullWidth: true },
+      'multiselect': { component: MultiselectFieldComponent },
+      'checkbox-group': { component: CheckboxGroupFieldComponent, fullWidth: true },
+      'tags': { component: TagsFieldComponent },
+      'table': { component: TableFieldComponent, fullWidth: true },
+      'user-picker': { component: LookupFieldComponent },
+      'ticket-picker': { component: LookupFieldComponent }
+    };
+
+    Object.entries(builtIns).forEach(([type, definition]) => this.register(type as FieldType, definition));
+  }
+}
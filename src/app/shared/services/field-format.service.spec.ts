@@ -0,0 +1,57 @@
+import { TestBed } from '@angular/core/testing';
+
+import { APP_CONFIG, createAppConfig, mergeConfigs } from '../../core/config/app.config';
+import { FieldFormatService } from './field-format.service';
+
+describe('FieldFormatService', () => {
+  let service: FieldFormatService;
+
+  const configure = (language: string) => {
+    const config = createAppConfig();
+    TestBed.configureTestingModule({
+      providers: [{ provide: APP_CONFIG, useValue: mergeConfigs(config, { ui: { ...config.ui, language } }) }]
+    });
+    service = TestBed.inject(FieldFormatService);
+  };
+
+  it('should parse numbers in the locale format and keep amounts with their currency', () => {
+    configure('de-DE');
+
+    expect(service.parseNumber('1.234,5')).toBe(1234.5);
+    expect(service.parseNumber('abc')).toBeNull();
+    expect(service.getDefaultCurrency()).toBe('EUR');
+    expect(service.toCurrencyValue(250)).toEqual({ amount: 250, currency: 'EUR' });
+    expect(service.roundAmount(12.5, 'JPY')).toBe(13);
+  });
+
+  it('should read currencies and the phone country from field attributes of the expected type only', () => {
+    configure('de-DE');
+    const field = (attributes: Record<string, unknown>) => ({ id: 'amount', label: 'Amount', type: 'currency' as const, attributes });
+
+    expect(service.getCurrencies(field({ currencies: ['EUR', 7, 'USD'] }))).toEqual(['EUR', 'USD']);
+    expect(service.getDefaultCurrency(field({ currencies: ['CHF'] }))).toBe('CHF');
+    expect(service.getDefaultCurrency(field({ currency: 5, currencies: 'JPY' }))).toBe('EUR');
+    expect(service.getCurrencies(field({ currencies: [] }))).toEqual(['EUR']);
+    expect(service.getDefaultCountry(field({ defaultCountry: 'ie' }))).toBe('IE');
+    expect(service.getDefaultCountry(field({ defaultCountry: 353 }))).toBe('DE');
+  });
+
+  it('should normalize phone numbers to E.164', () => {
+    configure('en-US');
+
+    expect(service.toE164('(415) 555-0123')).toBe('+14155550123');
+    expect(service.toE164('030 1234567', 'DE')).toBe('+49301234567');
+    expect(service.toE164('0044 20 7946 0958')).toBe('+442079460958');
+    expect(service.toE164('call me')).toBeNull();
+    expect(service.formatPhone('+14155550123')).toBe('+1 (415) 555-0123');
+  });
+
+  it('should fit text into masks', () => {
+    configure('en-US');
+
+    expect(service.applyMask('2024001', 'EMP-####-###')).toBe('EMP-2024-001');
+    expect(service.applyMask('emp-20x24', 'EMP-####-###')).toBe('EMP-2024');
+    expect(service.matchesMask('EMP-2024-001', 'EMP-####-###')).toBeTrue();
+    expect(service.matchesMask('EMP-2024-01', 'EMP-####-###')).toBeFalse();
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * Field Format Service
+ * Locale-aware display formatting and normalized storage for formatted field types
+ *
+ * Stored values are locale independent: currency fields hold { amount, currency } with an ISO 4217
+ * code, percentage fields hold the fraction (12.5% is 0.125), phone fields hold E.164 numbers
+ * ("+14155550123"), url fields hold absolute URLs and masked fields hold the masked text
+ * ("EMP-1234-567"). Display follows AppConfig.ui.language.
+ *
+ * Mask tokens: "#" digit, "A" letter, "*" letter or digit; any other character is a literal.
+ */
+
+import { Injectable, inject } from '@angular/core';
+
+import { APP_CONFIG, APP_CONSTANTS } from '../../core/config/app.config';
+import { CurrencyValue, FieldType, FormField, JsonValue } from '../models';
+
+// Country calling codes used to complete national phone numbers (ISO 3166 region → code)
+const CALLING_CODES: { [region: string]: string } = {
+  US: '1', CA: '1', GB: '44', IE: '353', ES: '34', FR: '33', DE: '49', IT: '39', NL: '31', BE: '32',
+  CH: '41', AT: '43', PT: '351', BR: '55', MX: '52', AR: '54', JP: '81', KR: '82', CN: '86',
+  IN: '91', SG: '65', AU: '61', NZ: '64', ZA: '27'
+};
+
+// Regions whose national numbers keep the leading 0 after the calling code
+const TRUNK_ZERO_REGIONS = ['IT'];
+
+const E164_PATTERN = /^\+[1-9]\d{6,14}$/;
+const URL_SCHEME_PATTERN = /^[a-z][a-z\d+.-]*:/i;
+const MASK_TOKENS: { [token: string]: RegExp } = {
+  '#': /\d/,
+  'A': /[a-z]/i,
+  '*': /[a-z\d]/i
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class FieldFormatService {
+  private readonly config = inject(APP_CONFIG);
+  private separators?: { group: string; decimal: string };
+
+  /**
+   * Locale used to format and parse values
+   */
+  get locale(): string {
+    return this.config.ui.language;
+  }
+
+  /**
+   * Currency of a field: attributes.currency, the first of attributes.currencies, or the locale's currency
+   */
+  getDefaultCurrency(field?: FormField): string {
+    const currencies: { [locale: string]: string } = APP_CONSTANTS.LOCALIZATION.CURRENCY_CODES;
+    const currency: unknown = field?.attributes?.['currency'];
+    const [listed] = this.getListedCurrencies(field);
+    return (typeof currency === 'string' ? currency : undefined) ?? listed ?? currencies[this.locale] ?? 'USD';
+  }
+
+  /**
+   * Currencies a field can be entered in
+   */
+  getCurrencies(field: FormField): string[] {
+    const currencies = this.getListedCurrencies(field);
+    return currencies.length ? currencies : [this.getDefaultCurrency(field)];
+  }
+
+  private getListedCurrencies(field?: FormField): string[] {
+    const currencies: unknown = field?.attributes?.['currencies'];
+    return Array.isArray(currencies) ? currencies.filter((code): code is string => typeof code === 'string') : [];
+  }
+
+  /**
+   * Check whether a code is an ISO 4217 currency known to Intl
+   */
+  isValidCurrency(code: unknown): boolean {
+    if (typeof code !== 'string' || !/^[A-Z]{3}$/.test(code)) return false;
+    try {
+      new Intl.NumberFormat(this.locale, { style: 'currency', currency: code });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Number of minor unit digits of a currency (2 for USD, 0 for JPY)
+   */
+  getCurrencyDigits(currency: string): number {
+    return new Intl.NumberFormat(this.locale, { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  }
+
+  /**
+   * Parses a number typed in the locale's format ("1.234,5" in de-DE); symbols and spaces are ignored
+   * @returns the number, or null when no digits were entered
+   */
+  parseNumber(text: string): number | null {
+    const { group, decimal } = this.getSeparators();
+    const normalized = text
+      .split(group).join('')
+      .split(decimal).join('.')
+      .replace(/[^\d.-]/g, '');
+    if (!/\d/.test(normalized)) return null;
+
+    const value = parseFloat(normalized);
+    return isFinite(value) ? value : null;
+  }
+
+  /**
+   * Formats a number for editing: locale decimal separator, no grouping
+   */
+  formatNumberForInput(value: number | null | undefined, maximumFractionDigits: number = 20): string {
+    if (value === null || value === undefined || !isFinite(value)) return '';
+    return new Intl.NumberFormat(this.locale, { useGrouping: false, maximumFractionDigits }).format(value);
+  }
+
+  /**
+   * Formats a currency value for display, e.g. "$1,234.50"
+   */
+  formatCurrency(value: unknown): string {
+    const currencyValue = this.toCurrencyValue(value);
+    if (!currencyValue) return '';
+    return new Intl.NumberFormat(this.locale, { style: 'currency', currency: currencyValue.currency }).format(currencyValue.amount);
+  }
+
+  /**
+   * Reads a currency value; plain numbers (data saved by number fields) get the given currency
+   */
+  toCurrencyValue(value: unknown, defaultCurrency: string = this.getDefaultCurrency()): CurrencyValue | null {
+    if (typeof value === 'number') {
+      return isFinite(value) ? { amount: value, currency: defaultCurrency } : null;
+    }
+    if (!value || typeof value !== 'object') return null;
+
+    const { amount, currency } = value as { amount?: unknown; currency?: unknown };
+    if (typeof amount !== 'number' || !isFinite(amount)) return null;
+    return { amount, currency: this.isValidCurrency(currency) ? currency as string : defaultCurrency };
+  }
+
+  /**
+   * Rounds an amount to the minor unit of its currency
+   */
+  roundAmount(amount: number, currency: string): number {
+    return Number(amount.toFixed(this.getCurrencyDigits(currency)));
+  }
+
+  /**
+   * Formats a stored fraction as a percentage, e.g. 0.125 → "12.5%"
+   */
+  formatPercentage(value: unknown, maximumFractionDigits: number = 2): string {
+    if (typeof value !== 'number' || !isFinite(value)) return '';
+    return new Intl.NumberFormat(this.locale, { style: 'percent', maximumFractionDigits }).format(value);
+  }
+
+  /**
+   * Converts entered percentage points to the stored fraction (12.5 → 0.125) without floating point noise
+   */
+  fromPercentagePoints(points: number): number {
+    return Number((points / 100).toFixed(12));
+  }
+
+  toPercentagePoints(fraction: number): number {
+    return Number((fraction * 100).toFixed(10));
+  }
+
+  /**
+   * Region used to complete national phone numbers: attributes.defaultCountry or the locale's region
+   */
+  getDefaultCountry(field?: FormField): string {
+    const country: unknown = field?.attributes?.['defaultCountry'];
+    return (typeof country === 'string' ? country : this.locale.split('-')[1] ?? 'US').toUpperCase();
+  }
+
+  /**
+   * Calling code of a region, e.g. "44" for GB
+   */
+  getCallingCode(region: string): string | null {
+    return CALLING_CODES[region.toUpperCase()] ?? null;
+  }
+
+  /**
+   * Normalizes a phone number to E.164. National numbers are completed with the calling code of the region;
+   * "00" international prefixes are read as "+".
+   * @returns the E.164 number, or null when the text is not a valid phone number
+   */
+  toE164(text: unknown, defaultCountry: string = this.getDefaultCountry()): string | null {
+    if (typeof text !== 'string') return null;
+
+    const trimmed = text.trim();
+    const digits = trimmed.replace(/\D/g, '');
+    let e164: string;
+
+    if (trimmed.startsWith('+')) {
+      e164 = `+${digits}`;
+    } else if (digits.startsWith('00')) {
+      e164 = `+${digits.slice(2)}`;
+    } else {
+      const callingCode = this.getCallingCode(defaultCountry);
+      if (!callingCode) return null;
+
+      let national = digits;
+      if (callingCode === '1' && national.length === 11 && national.startsWith('1')) {
+        national = national.slice(1);
+      } else if (national.startsWith('0') && !TRUNK_ZERO_REGIONS.includes(defaultCountry)) {
+        national = national.slice(1);
+      }
+      e164 = `+${callingCode}${national}`;
+    }
+
+    return E164_PATTERN.test(e164) ? e164 : null;
+  }
+
+  /**
+   * Formats an E.164 number for display, e.g. "+1 (415) 555-0123" or "+49 301 234 5678"
+   */
+  formatPhone(value: unknown): string {
+    if (typeof value !== 'string' || !E164_PATTERN.test(value)) {
+      return typeof value === 'string' ? value : '';
+    }
+
+    const digits = value.slice(1);
+    const callingCode = Object.values(CALLING_CODES)
+      .filter(code => digits.startsWith(code))
+      .sort((a, b) => b.length - a.length)[0];
+    if (!callingCode) return value;
+
+    const national = digits.slice(callingCode.length);
+    if (callingCode === '1' && national.length === 10) {
+      return `+1 (${national.slice(0, 3)}) ${national.slice(3, 6)}-${national.slice(6)}`;
+    }
+    return `+${callingCode} ${this.groupDigits(national)}`;
+  }
+
+  /**
+   * Normalizes a URL: trims it and adds "https://" when no scheme was typed
+   */
+  normalizeUrl(text: unknown): string {
+    if (typeof text !== 'string') return '';
+    const trimmed = text.trim();
+    if (!trimmed || URL_SCHEME_PATTERN.test(trimmed)) return trimmed;
+    return `https://${trimmed.replace(/^\/+/, '')}`;
+  }
+
+  /**
+   * Fits typed text into a mask: characters that do not fit a token are dropped and literals are inserted.
+   * Stops at the first token the text has no more characters for, so partial input stays editable.
+   */
+  applyMask(text: unknown, mask: string): string {
+    if (typeof text !== 'string') return '';
+
+    const input = [...text];
+    let position = 0;
+    let result = '';
+
+    for (const maskChar of mask) {
+      if (position >= input.length) break;
+
+      const token = MASK_TOKENS[maskChar];
+      if (!token) {
+        result += maskChar;
+        if (input[position].toUpperCase() === maskChar.toUpperCase()) position++;
+        continue;
+      }
+
+      while (position < input.length && !token.test(input[position])) position++;
+      if (position >= input.length) break;
+      result += input[position++];
+    }
+
+    return result;
+  }
+
+  /**
+   * Check whether a value fills the whole mask
+   */
+  matchesMask(value: string, mask: string): boolean {
+    return this.getMaskPattern(mask).test(value);
+  }
+
+  /**
+   * Check whether a mask has at least one token
+   */
+  isValidMask(mask: unknown): mask is string {
+    return typeof mask === 'string' && [...mask].some(char => char in MASK_TOKENS);
+  }
+
+  /**
+   * Normalizes a stored or default value of a formatted field type; other types are returned unchanged
+   */
+  normalize(field: FormField, value: JsonValue): JsonValue {
+    switch (field.type) {
+      case 'currency':
+        return this.toCurrencyValue(value, this.getDefaultCurrency(field));
+      case 'percentage':
+        return typeof value === 'number' && isFinite(value) ? value : null;
+      case 'phone':
+        return typeof value === 'string' ? this.toE164(value, this.getDefaultCountry(field)) ?? value : value;
+      case 'url':
+        return typeof value === 'string' ? this.normalizeUrl(value) : value;
+      case 'masked': {
+        const mask: unknown = field.attributes?.['mask'];
+        return typeof value === 'string' && this.isValidMask(mask) ? this.applyMask(value, mask) : value;
+      }
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Check whether a field type stores a normalized formatted value
+   */
+  isFormattedType(type: FieldType): boolean {
+    return ['currency', 'percentage', 'phone', 'url', 'masked'].includes(type);
+  }
+
+  // === PRIVATE HELPER METHODS ===
+
+  private getSeparators(): { group: string; decimal: string } {
+    if (!this.separators) {
+      const parts = new Intl.NumberFormat(this.locale).formatToParts(12345.6);
+      this.separators = {
+        group: parts.find(part => part.type === 'group')?.value ?? ',',
+        decimal: parts.find(part => part.type === 'decimal')?.value ?? '.'
+      };
+    }
+    return this.separators;
+  }
+
+  private getMaskPattern(mask: string): RegExp {
+    const source = [...mask]
+      .map(char => MASK_TOKENS[char]?.source ?? char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('');
+    return new RegExp(`^${source}$`, 'i');
+  }
+
+  /**
+   * Groups national digits in threes, keeping a final group of four
+   */
+  private groupDigits(digits: string): string {
+    const groups: string[] = [];
+    let rest = digits;
+    while (rest.length > 4) {
+      groups.push(rest.slice(0, 3));
+      rest = rest.slice(3);
+    }
+    return [...groups, rest].filter(Boolean).join(' ');
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * File Upload Service
+ * Upload abstraction used by file fields
+ *
+ * Components depend on the abstract FileUploadService; the in-memory implementation is provided
+ * by default for development and tests. Provide a backend implementation to replace it:
+ * { provide: FileUploadService, useClass: HttpFileUploadService }
+ */
+
+import { Injectable, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+
+import { FileUploadEvent, FileUploadResponse } from '../models';
+import { UtilsService } from './utils.service';
+
+@Injectable({
+  providedIn: 'root',
+  useFactory: () => inject(InMemoryFileUploadService)
+})
+export abstract class FileUploadService {
+  /**
+   * Upload a file; unsubscribing cancels the upload
+   */
+  abstract upload(file: File): Observable<FileUploadEvent>;
+
+  /**
+   * Delete a previously uploaded file
+   */
+  abstract delete(fileId: string): Observable<void>;
+}
+
+// Simulated transfer rate of the in-memory implementation
+const IN_MEMORY_BYTES_PER_TICK = 256 * 1024;
+const IN_MEMORY_TICK_MS = 100;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class InMemoryFileUploadService extends FileUploadService {
+  private readonly utilsService = inject(UtilsService);
+  private readonly files = new Map<string, FileUploadResponse>();
+
+  /** Share of uploads that fail halfway, for exercising retry in development */
+  failureRate = 0;
+
+  upload(file: File): Observable<FileUploadEvent> {
+    return new Observable<FileUploadEvent>(subscriber => {
+      const startedAt = Date.now();
+      const shouldFail = Math.random() < this.failureRate;
+      let loaded = 0;
+
+      const timer = setInterval(() => {
+        loaded = Math.min(loaded + IN_MEMORY_BYTES_PER_TICK, file.size);
+        const elapsedSeconds = Math.max((Date.now() - startedAt) / 1000, 0.001);
+        const speed = loaded / elapsedSeconds;
+
+        if (shouldFail && loaded >= file.size / 2) {
+          clearInterval(timer);
+          subscriber.error(new Error(`Upload of "${file.name}" failed`));
+          return;
+        }
+
+        subscriber.next({
+          type: 'progress',
+          progress: {
+            loaded,
+            total: file.size,
+            percentage: file.size ? Math.round((loaded / file.size) * 100) : 100,
+            speed,
+            remainingTime: (file.size - loaded) / speed
+          }
+        });
+
+        if (loaded >= file.size) {
+          clearInterval(timer);
+          const response = this.store(file);
+          subscriber.next({ type: 'complete', response });
+          subscriber.complete();
+        }
+      }, IN_MEMORY_TICK_MS);
+
+      return () => clearInterval(timer);
+    });
+  }
+
+  delete(fileId: string): Observable<void> {
+    return new Observable<void>(subscriber => {
+      const response = this.files.get(fileId);
+      if (response) {
+        URL.revokeObjectURL(response.url);
+        this.files.delete(fileId);
+      }
+      subscriber.next();
+      subscriber.complete();
+    });
+  }
+
+  // === PRIVATE HELPER METHODS ===
+
+  private store(file: File): FileUploadResponse {
+    const url = URL.createObjectURL(file);
+    const response: FileUploadResponse = {
+      fileId: this.utilsService.generateUUID(),
+      url,
+      thumbnailUrl: file.type.startsWith('image/') ? url : undefined,
+      fileName: file.name,
+      fileSize: file.size,
+      mimeType: file.type,
+      uploadedAt: new Date()
+    };
+
+    this.files.set(response.fileId, response);
+    return response;
+  }
+}
@@ -0,0 +1,141 @@
+import { TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+
+import { FormChange, FormSchema, FormSubmissionData } from '../models';
+import { DynamicFormService } from './dynamic-form.service';
+import { FormDiffService } from './form-diff.service';
+import { OptionsResolverService } from './options-resolver.service';
+
+describe('FormDiffService', () => {
+  let service: FormDiffService;
+
+  const schema: FormSchema = {
+    id: 'onboarding',
+    title: 'Onboarding',
+    version: '1.0.0',
+    sections: [
+      {
+        id: 'employee',
+        title: 'Employee',
+        fields: [
+          { id: 'full_name', label: 'Full Name', type: 'text' },
+          { id: 'location', label: 'Location', type: 'select', options: [{ value: 'nyc', label: 'New York' }, { value: 'sf', label: 'San Francisco' }] },
+          { id: 'buddy', label: 'Buddy', type: 'user-picker' },
+          {
+            id: 'equipment',
+            label: 'Equipment',
+            type: 'table',
+            columns: [{ id: 'item', label: 'Item', type: 'text' }, { id: 'quantity', label: 'Qty', type: 'number' }]
+          }
+        ]
+      },
+      {
+        id: 'contacts',
+        title: 'Contacts',
+        repeatable: true,
+        fields: [{ id: 'name', label: 'Name', type: 'text' }, { id: 'phone', label: 'Phone', type: 'text' }]
+      }
+    ]
+  };
+
+  beforeEach(() => {
+    service = TestBed.inject(FormDiffService);
+  });
+
+  it('should report added, removed and modified fields with display values', () => {
+    const changes = service.compare(
+      schema,
+      { employee: { full_name: 'Ada Lovelace', location: 'nyc', buddy: null } },
+      { employee: { full_name: '', location: 'sf', buddy: 'user_004' } },
+      new Map([['user_004', 'Michael Chen']])
+    );
+
+    expect(changes.map(change => [change.type, change.path, change.oldDisplay, change.newDisplay])).toEqual([
+      ['removed', 'employee.full_name', 'Ada Lovelace', ''],
+      ['modified', 'employee.location', 'New York', 'San Francisco'],
+      ['added', 'employee.buddy', '', 'Michael Chen']
+    ]);
+    expect(service.describe(changes[1])).toBe('Employee › Location: New York → San Francisco');
+  });
+
+  it('should match rows by content and report moves', () => {
+    const ada = { name: 'Ada', phone: '1' };
+    const grace = { name: 'Grace', phone: '2' };
+    const alan = { name: 'Alan', phone: '3' };
+
+    const before = { contacts: [ada, grace, alan] } as unknown as FormSubmissionData;
+    const after = { contacts: [alan, ada, { name: 'Grace', phone: '22' }] } as unknown as FormSubmissionData;
+
+    const changes = service.compare(schema, before, after);
+
+    expect(changes.map(change => [change.type, change.path, change.fromIndex, change.toIndex])).toEqual([
+      ['modified', 'contacts.2.phone', 1, 2],
+      ['moved', 'contacts.1', 0, 1]
+    ]);
+    expect(service.isRowChange(changes[1])).toBeTrue();
+  });
+
+  it('should diff table rows cell by cell', () => {
+    const changes = service.compare(
+      schema,
+      { employee: { equipment: [{ item: 'Dock', quantity: 1 }] } },
+      { employee: { equipment: [{ item: 'Dock', quantity: 2 }, { item: 'Headset', quantity: 1 }] } }
+    );
+
+    expect(changes.map(change => [change.type, change.path, change.fieldId, change.label])).toEqual([
+      ['modified', 'employee.equipment.0.quantity', 'equipment', 'Employee › Equipment, row 1 › Qty'],
+      ['added', 'employee.equipment.1', 'equipment', 'Employee › Equipment, row 2']
+    ]);
+    expect(changes[1].newDisplay).toBe('Headset, 1');
+  });
+
+  it('should show the option labels of fields loading their options', () => {
+    TestBed.inject(OptionsResolverService).register('/test-offices', () => of([{ value: 'lon', label: 'London' }, { value: 'par', label: 'Paris' }]));
+    const officeSchema: FormSchema = {
+      ...schema,
+      sections: [{
+        id: 'employee',
+        title: 'Employee',
+        fields: [{ id: 'office', label: 'Office', type: 'select', optionsSource: { endpoint: '/test-offices' } }]
+      }]
+    };
+    let changes: FormChange[] = [];
+
+    service.diff(officeSchema, { employee: { office: 'lon' } }, { employee: { office: 'par' } }).subscribe(result => changes = result);
+
+    expect(changes.map(change => [change.path, change.oldDisplay, change.newDisplay])).toEqual([['employee.office', 'London', 'Paris']]);
+  });
+
+  it('should find no changes when a form with read-only and rule-disabled fields is saved unchanged', () => {
+    const dynamicFormService = TestBed.inject(DynamicFormService);
+    const ticketSchema: FormSchema = {
+      id: 'ticket',
+      title: 'Ticket',
+      version: '1.0.0',
+      sections: [{
+        id: 'basic_information',
+        title: 'Basic Information',
+        fields: [
+          { id: 'ticket_id', label: 'Ticket ID', type: 'text', readOnly: true },
+          { id: 'locked', label: 'Locked', type: 'checkbox' },
+          { id: 'summary', label: 'Summary', type: 'text', disabledWhen: [{ fieldId: 'basic_information.locked', operator: 'equals', value: true }] },
+          { id: 'quantity', label: 'Quantity', type: 'number' },
+          { id: 'total', label: 'Total', type: 'number', calculated: 'quantity * 2' }
+        ]
+      }]
+    };
+    const stored: FormSubmissionData = { basic_information: { ticket_id: 'TCK-1', locked: true, summary: 'New laptop', quantity: 2, total: 4 } };
+    const form = dynamicFormService.createFormFromSchema(ticketSchema, { schemaValidation: { enabled: false } });
+    dynamicFormService.populateForm(form, stored);
+
+    expect(service.compare(ticketSchema, stored, dynamicFormService.convertToSubmissionData(form))).toEqual([]);
+
+    form.get('basic_information.quantity')!.setValue(3);
+    const changes = service.compare(ticketSchema, stored, dynamicFormService.convertToSubmissionData(form));
+    expect(changes.map(change => [change.type, change.path])).toEqual([
+      ['modified', 'basic_information.quantity'],
+      ['modified', 'basic_information.total']
+    ]);
+    dynamicFormService.destroyForm(form);
+  });
+});
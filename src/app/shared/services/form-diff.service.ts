@@ -0,0 +1,403 @@
+/**
+ * Form Diff Service
+ * Compares two versions of form data field by field, against the schema they were entered with
+ *
+ * Changes carry the stored values and how the form shows them (option labels, formatted amounts and
+ * dates, user and ticket names). Rows of repeatable sections and tables have no IDs, so they are matched
+ * by content: rows that kept their order are compared field by field, identical rows found at another
+ * position are reported as moved, and the rows left over as added or removed.
+ */
+
+import { Injectable, inject } from '@angular/core';
+import { Observable, catchError, forkJoin, map, of } from 'rxjs';
+
+import { FieldOptions, FormChange, FormField, FormSchema, FormSubmissionData, JsonValue, SectionData } from '../models';
+import { DateTimeService } from './date-time.service';
+import { DirectoryService } from './directory.service';
+import { FieldFormatService } from './field-format.service';
+import { MarkdownService } from './markdown.service';
+import { OptionsResolverService } from './options-resolver.service';
+
+// Where the fields being compared sit: a section, a row of a repeatable section, or a row of a table
+interface DiffScope {
+  sectionId: string;
+  fieldId?: string; // Table of the rows
+  path: string;
+  label: string;
+  fromIndex?: number;
+  toIndex?: number;
+}
+
+// Separates the section, field and column parts of change labels
+const LABEL_SEPARATOR = ' › ';
+
+// Longer display values (rich text, long lists) are cut off
+const MAX_DISPLAY_LENGTH = 120;
+
+// Paths of whole rows end at the row index
+const ROW_PATH_PATTERN = /\.\d+$/;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class FormDiffService {
+  private readonly directoryService = inject(DirectoryService);
+  private readonly fieldFormatService = inject(FieldFormatService);
+  private readonly dateTimeService = inject(DateTimeService);
+  private readonly markdownService = inject(MarkdownService);
+  private readonly optionsResolver = inject(OptionsResolverService);
+
+  /**
+   * Changes from one version of form data to another, in schema order, with user and ticket names
+   * and the option labels of optionsSource fields looked up
+   */
+  diff(schema: FormSchema, before: FormSubmissionData, after: FormSubmissionData): Observable<FormChange[]> {
+    const userIds = this.collectReferences(schema, [before, after], 'user-picker');
+    const ticketIds = this.collectReferences(schema, [before, after], 'ticket-picker');
+
+    return forkJoin([
+      this.withSourceOptions(schema),
+      this.directoryService.getUsers(userIds),
+      this.directoryService.getTickets(ticketIds)
+    ]).pipe(
+      map(([resolvedSchema, users, tickets]) => this.compare(resolvedSchema, before, after, new Map([
+        ...users.map(user => [user.id, user.name] as const),
+        ...tickets.map(ticket => [ticket.id, `${ticket.ticketNumber} ${ticket.title}`] as const)
+      ])))
+    );
+  }
+
+  /**
+   * Changes from one version of form data to another, in schema order.
+   * User and ticket pickers show the names given, or their IDs.
+   */
+  compare(
+    schema: FormSchema,
+    before: FormSubmissionData,
+    after: FormSubmissionData,
+    names: Map<string, string> = new Map()
+  ): FormChange[] {
+    const changes: FormChange[] = [];
+
+    schema.sections.forEach(section => {
+      const scope: DiffScope = { sectionId: section.id, path: section.id, label: section.title };
+      if (section.repeatable) {
+        this.compareRows(section.fields, this.toRows(before[section.id]), this.toRows(after[section.id]), scope, changes, names);
+      } else {
+        this.compareFields(section.fields, this.toRow(before[section.id]), this.toRow(after[section.id]), scope, changes, names);
+      }
+    });
+
+    return changes;
+  }
+
+  /**
+   * Check whether a change concerns a whole row of a repeatable section or table
+   */
+  isRowChange(change: FormChange): boolean {
+    return ROW_PATH_PATTERN.test(change.path);
+  }
+
+  /**
+   * One-line description of a change, e.g. "Employee Details › Full Name: John Smith → Jon Smith"
+   */
+  describe(change: FormChange): string {
+    const isRow = this.isRowChange(change);
+
+    switch (change.type) {
+      case 'added':
+        return isRow ? `${change.label} added: ${change.newDisplay}` : `${change.label} set to ${change.newDisplay}`;
+      case 'removed':
+        return isRow ? `${change.label} removed: ${change.oldDisplay}` : `${change.label} cleared (was ${change.oldDisplay})`;
+      case 'modified':
+        return `${change.label}: ${change.oldDisplay} → ${change.newDisplay}`;
+      case 'moved':
+        return `${change.label} moved from position ${change.fromIndex! + 1} to ${change.toIndex! + 1}`;
+    }
+  }
+
+  /**
+   * Display value of a stored field value, as the form shows it
+   */
+  formatValue(field: FormField, value: JsonValue | undefined, names: Map<string, string> = new Map()): string {
+    if (this.isEmptyValue(value)) return '';
+
+    const list = (values: JsonValue[], format: (item: JsonValue) => string) => values.map(format).filter(Boolean).join(', ');
+    const optionLabel = (item: JsonValue) =>
+      FieldOptions.flatten(field.options || []).find(option => option.value === item)?.label ?? String(item);
+    const values = Array.isArray(value) ? value : [value!];
+
+    let display: string;
+    switch (field.type) {
+      case 'checkbox':
+        display = value ? 'Yes' : 'No';
+        break;
+      case 'select':
+      case 'radio':
+      case 'multiselect':
+      case 'checkbox-group':
+        display = list(values, optionLabel);
+        break;
+      case 'currency':
+        display = this.fieldFormatService.formatCurrency(value);
+        break;
+      case 'percentage':
+        display = this.fieldFormatService.formatPercentage(value);
+        break;
+      case 'phone':
+        display = this.fieldFormatService.formatPhone(value);
+        break;
+      case 'date':
+        display = this.dateTimeService.formatDate(value);
+        break;
+      case 'datetime':
+        display = this.dateTimeService.formatDateTime(value);
+        break;
+      case 'daterange': {
+        const range = this.dateTimeService.toDateRange(value);
+        display = `${this.dateTimeService.formatDate(range.start)} – ${this.dateTimeService.formatDate(range.end)}`;
+        break;
+      }
+      case 'richtext':
+        display = this.markdownService.toPlainText(String(value));
+        break;
+      case 'user-picker':
+      case 'ticket-picker':
+        display = list(values, item => names.get(String(item)) ?? String(item));
+        break;
+      case 'file':
+        display = list(values, item => (this.isObject(item) ? String(item['fileName'] ?? '') : String(item)));
+        break;
+      case 'table':
+        display = `${values.length} ${values.length === 1 ? 'row' : 'rows'}`;
+        break;
+      default:
+        display = list(values, item => (typeof item === 'object' ? JSON.stringify(item) : String(item)));
+    }
+
+    return display.length > MAX_DISPLAY_LENGTH ? `${display.slice(0, MAX_DISPLAY_LENGTH - 1)}…` : display;
+  }
+
+  // === PRIVATE HELPER METHODS ===
+
+  private compareFields(
+    fields: FormField[],
+    before: SectionData,
+    after: SectionData,
+    scope: DiffScope,
+    changes: FormChange[],
+    names: Map<string, string>
+  ): void {
+    fields.forEach(field => {
+      const path = `${scope.path}.${field.id}`;
+      const label = `${scope.label}${LABEL_SEPARATOR}${field.label}`;
+
+      if (field.type === 'table') {
+        const tableScope: DiffScope = { sectionId: scope.sectionId, fieldId: field.id, path, label };
+        this.compareRows(field.columns || [], this.toRows(before[field.id]), this.toRows(after[field.id]), tableScope, changes, names);
+        return;
+      }
+
+      const oldValue = before[field.id] ?? null;
+      const newValue = after[field.id] ?? null;
+      const oldEmpty = this.isEmptyValue(oldValue);
+      const newEmpty = this.isEmptyValue(newValue);
+      if ((oldEmpty && newEmpty) || this.toKey(oldValue) === this.toKey(newValue)) return;
+
+      changes.push({
+        type: oldEmpty ? 'added' : newEmpty ? 'removed' : 'modified',
+        path,
+        sectionId: scope.sectionId,
+        fieldId: scope.fieldId ?? field.id,
+        label,
+        oldValue,
+        newValue,
+        oldDisplay: this.formatValue(field, oldValue, names),
+        newDisplay: this.formatValue(field, newValue, names),
+        ...(scope.fromIndex !== undefined && { fromIndex: scope.fromIndex, toIndex: scope.toIndex })
+      });
+    });
+  }
+
+  /**
+   * Matches old and new rows by content (see the header comment) and reports the differences
+   */
+  private compareRows(
+    fields: FormField[],
+    before: SectionData[],
+    after: SectionData[],
+    scope: DiffScope,
+    changes: FormChange[],
+    names: Map<string, string>
+  ): void {
+    const oldKeys = before.map(row => this.toKey(row));
+    const newKeys = after.map(row => this.toKey(row));
+    const matchedOld = new Set<number>();
+    const matchedNew = new Set<number>();
+
+    this.findCommonRows(oldKeys, newKeys).forEach(([oldIndex, newIndex]) => {
+      matchedOld.add(oldIndex);
+      matchedNew.add(newIndex);
+    });
+
+    // Identical rows out of order were moved
+    const moves: [number, number][] = [];
+    newKeys.forEach((key, newIndex) => {
+      if (matchedNew.has(newIndex)) return;
+      const oldIndex = oldKeys.findIndex((candidate, index) => candidate === key && !matchedOld.has(index));
+      if (oldIndex !== -1) {
+        matchedOld.add(oldIndex);
+        matchedNew.add(newIndex);
+        moves.push([oldIndex, newIndex]);
+      }
+    });
+
+    // The remaining rows are paired up in order and compared field by field
+    const oldRemaining = before.map((_, index) => index).filter(index => !matchedOld.has(index));
+    const newRemaining = after.map((_, index) => index).filter(index => !matchedNew.has(index));
+    const paired = Math.min(oldRemaining.length, newRemaining.length);
+
+    for (let i = 0; i < paired; i++) {
+      const [oldIndex, newIndex] = [oldRemaining[i], newRemaining[i]];
+      this.compareFields(fields, before[oldIndex], after[newIndex], {
+        ...scope,
+        path: `${scope.path}.${newIndex}`,
+        label: this.getRowLabel(scope, newIndex),
+        fromIndex: oldIndex,
+        toIndex: newIndex
+      }, changes, names);
+    }
+
+    newRemaining.slice(paired).forEach(newIndex => {
+      changes.push(this.createRowChange('added', fields, after[newIndex], scope, { toIndex: newIndex }, names));
+    });
+    oldRemaining.slice(paired).forEach(oldIndex => {
+      changes.push(this.createRowChange('removed', fields, before[oldIndex], scope, { fromIndex: oldIndex }, names));
+    });
+    moves.forEach(([oldIndex, newIndex]) => {
+      changes.push(this.createRowChange('moved', fields, after[newIndex], scope, { fromIndex: oldIndex, toIndex: newIndex }, names));
+    });
+  }
+
+  /**
+   * Index pairs of the longest sequence of identical rows in the same order in both versions
+   */
+  private findCommonRows(oldKeys: string[], newKeys: string[]): [number, number][] {
+    const lengths = Array.from({ length: oldKeys.length + 1 }, () => new Array<number>(newKeys.length + 1).fill(0));
+    for (let i = oldKeys.length - 1; i >= 0; i--) {
+      for (let j = newKeys.length - 1; j >= 0; j--) {
+        lengths[i][j] = oldKeys[i] === newKeys[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const pairs: [number, number][] = [];
+    for (let i = 0, j = 0; i < oldKeys.length && j < newKeys.length;) {
+      if (oldKeys[i] === newKeys[j]) {
+        pairs.push([i++, j++]);
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+    return pairs;
+  }
+
+  private createRowChange(
+    type: 'added' | 'removed' | 'moved',
+    fields: FormField[],
+    row: SectionData,
+    scope: DiffScope,
+    indices: { fromIndex?: number; toIndex?: number },
+    names: Map<string, string>
+  ): FormChange {
+    const index = indices.toIndex ?? indices.fromIndex!;
+    const display = fields.map(field => this.formatValue(field, row[field.id], names)).filter(Boolean).join(', ');
+
+    return {
+      type,
+      path: `${scope.path}.${index}`,
+      sectionId: scope.sectionId,
+      ...(scope.fieldId !== undefined && { fieldId: scope.fieldId }),
+      label: this.getRowLabel(scope, index),
+      ...(type === 'added' ? {} : { oldValue: row, oldDisplay: display }),
+      ...(type === 'removed' ? {} : { newValue: row, newDisplay: display }),
+      ...indices
+    };
+  }
+
+  private getRowLabel(scope: DiffScope, index: number): string {
+    return `${scope.label}, row ${index + 1}`;
+  }
+
+  /**
+   * The schema with the options of optionsSource fields (and table columns) filled in from the whole list
+   * of their source, so their values show as labels. Values of sources failing to load show as they are.
+   */
+  private withSourceOptions(schema: FormSchema): Observable<FormSchema> {
+    const fields = schema.sections
+      .flatMap(section => section.fields.flatMap(field => [field, ...(field.columns || [])]))
+      .filter(field => field.optionsSource && !field.options?.length);
+    if (!fields.length) return of(schema);
+
+    return forkJoin(fields.map(field => this.optionsResolver.resolve(field.optionsSource!).pipe(catchError(() => of([]))))).pipe(
+      map(resolved => {
+        const options = new Map(fields.map((field, index) => [field, resolved[index]]));
+        const withOptions = (field: FormField): FormField => ({
+          ...field,
+          ...(options.has(field) && { options: options.get(field) }),
+          ...(field.columns && { columns: field.columns.map(withOptions) })
+        });
+        return { ...schema, sections: schema.sections.map(section => ({ ...section, fields: section.fields.map(withOptions) })) };
+      })
+    );
+  }
+
+  /**
+   * IDs held by the user or ticket pickers of the schema, in any of the data versions
+   */
+  private collectReferences(schema: FormSchema, versions: FormSubmissionData[], type: 'user-picker' | 'ticket-picker'): string[] {
+    const ids = new Set<string>();
+
+    schema.sections.forEach(section => {
+      const pickers = section.fields.filter(field => field.type === type);
+      if (!pickers.length) return;
+
+      versions
+        .flatMap(data => (section.repeatable ? this.toRows(data[section.id]) : [this.toRow(data[section.id])]))
+        .forEach(row => pickers.forEach(field => {
+          const value = row[field.id];
+          (Array.isArray(value) ? value : [value]).forEach(id => {
+            if (typeof id === 'string' && id) ids.add(id);
+          });
+        }));
+    });
+
+    return [...ids];
+  }
+
+  private toRow(value: JsonValue | undefined): SectionData {
+    return this.isObject(value) ? value : {};
+  }
+
+  private toRows(value: JsonValue | undefined): SectionData[] {
+    return Array.isArray(value) ? value.map(row => this.toRow(row)) : [];
+  }
+
+  private isObject(value: unknown): value is SectionData {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private isEmptyValue(value: JsonValue | undefined): boolean {
+    return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+  }
+
+  /**
+   * Comparable form of a value; object keys are sorted so their order does not matter
+   */
+  private toKey(value: JsonValue | undefined): string {
+    return JSON.stringify(value ?? null, (_, item: unknown): unknown => (this.isObject(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item));
+  }
+}
@@ -0,0 +1,48 @@
+import { TestBed } from '@angular/core/testing';
+
+import { FormField, FormSection } from '../models';
+import { FormLayoutService } from './form-layout.service';
+
+describe('FormLayoutService', () => {
+  let service: FormLayoutService;
+
+  const field = (id: string, extra: Partial<FormField> = {}): FormField => ({ id, label: id, type: 'text', ...extra });
+  const section = (extra: Partial<FormSection> = {}): FormSection => ({ id: 'contact_details', title: 'Contact', fields: [], ...extra });
+
+  beforeEach(() => {
+    service = TestBed.inject(FormLayoutService);
+  });
+
+  it('should inherit responsive values from smaller breakpoints', () => {
+    expect(service.resolve({ xs: 1, md: 3 }, 'sm')).toBe(1);
+    expect(service.resolve({ xs: 1, md: 3 }, 'xl')).toBe(3);
+    expect(service.resolve({ md: 3 }, 'xs')).toBeUndefined();
+    expect(service.resolve(2, 'lg')).toBe(2);
+  });
+
+  it('should cap spans at the section columns and fall back to full-width types', () => {
+    const layoutSection = section({ layout: { columns: { xs: 1, lg: 3 } } });
+
+    expect(service.getColumns(section(), 'xs')).toBe(1);
+    expect(service.getColumns(section(), 'md')).toBe(2);
+    expect(service.getFieldSpan(field('name', { layout: { span: 2 } }), layoutSection, 'xs')).toBe(1);
+    expect(service.getFieldSpan(field('name', { layout: { span: 2 } }), layoutSection, 'lg')).toBe(2);
+    expect(service.getFieldSpan(field('notes', { type: 'textarea' }), layoutSection, 'lg')).toBe(3);
+    expect(service.getFieldSpan(field('name'), layoutSection, 'lg')).toBe(1);
+  });
+
+  it('should group fields and resolve section icons', () => {
+    const grouped = section({
+      icon: 'person',
+      groups: [{ id: 'empty' }, { id: 'emergency', title: 'Emergency' }],
+      fields: [field('name'), field('emergency_phone', { layout: { group: 'emergency' } }), field('other', { layout: { group: 'missing' } })]
+    });
+
+    expect(service.getFieldGroups(grouped).map(entry => [entry.group?.id, entry.fields.map(f => f.id)])).toEqual([
+      [undefined, ['name', 'other']],
+      ['emergency', ['emergency_phone']]
+    ]);
+    expect(service.getSectionIcon(grouped)).toBe('person');
+    expect(service.getSectionIcon(section())).toBe('contact_mail');
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Form Layout Service
+ * Resolves the schema-declared layout of form sections for the current screen width
+ *
+ * Sections lay their fields out on a grid whose columns, like the field spans, may differ per
+ * breakpoint of APP_CONSTANTS.UI.BREAKPOINTS. Values are mobile-first: { xs: 1, md: 2 } is one
+ * column up to MD and two from there. Schemas without a layout fall back to the heuristics
+ * below (section icons guessed from the ID, full-width field types from FieldComponentRegistryService).
+ */
+
+import { Injectable, inject } from '@angular/core';
+import { BreakpointObserver } from '@angular/cdk/layout';
+import { Observable, distinctUntilChanged, map, shareReplay } from 'rxjs';
+
+import { APP_CONSTANTS } from '../../core/config/app.config';
+import { FieldGroup, FormField, FormSection, LAYOUT_BREAKPOINTS, LayoutBreakpoint, ResponsiveValue } from '../models';
+import { FieldComponentRegistryService } from './field-component-registry.service';
+
+// Fields of a section as rendered: the ungrouped fields first (group null), then each declared group
+export interface SectionFieldGroup {
+  group: FieldGroup | null;
+  fields: FormField[];
+}
+
+// Minimum screen width of each breakpoint; xs starts at 0, so screens narrower than XS get it too
+const BREAKPOINT_MIN_WIDTHS: { [breakpoint in LayoutBreakpoint]: number } = {
+  xs: 0,
+  sm: APP_CONSTANTS.UI.BREAKPOINTS.SM,
+  md: APP_CONSTANTS.UI.BREAKPOINTS.MD,
+  lg: APP_CONSTANTS.UI.BREAKPOINTS.LG,
+  xl: APP_CONSTANTS.UI.BREAKPOINTS.XL
+};
+
+// Columns of sections without a layout: one on phones, two from SM
+const DEFAULT_SECTION_COLUMNS: ResponsiveValue = { xs: 1, sm: 2 };
+
+// Header icons guessed from section IDs, first match wins
+const SECTION_ICON_FALLBACKS: { keywords: string[]; icon: string }[] = [
+  { keywords: ['basic', 'general'], icon: 'info' },
+  { keywords: ['employee', 'personal'], icon: 'badge' },
+  { keywords: ['employment', 'work'], icon: 'business_center' },
+  { keywords: ['contact'], icon: 'contact_mail' },
+  { keywords: ['address'], icon: 'place' }
+];
+const DEFAULT_SECTION_ICON = 'article';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class FormLayoutService {
+  private readonly breakpointObserver = inject(BreakpointObserver);
+  private readonly fieldComponentRegistry = inject(FieldComponentRegistryService);
+
+  /**
+   * Current breakpoint, emitted again whenever the screen crosses one
+   */
+  readonly breakpoint$: Observable<LayoutBreakpoint> = this.breakpointObserver
+    .observe(LAYOUT_BREAKPOINTS.map(breakpoint => this.getMediaQuery(breakpoint)))
+    .pipe(
+      map(() => this.getCurrentBreakpoint()),
+      distinctUntilChanged(),
+      shareReplay({ bufferSize: 1, refCount: true })
+    );
+
+  /**
+   * Largest breakpoint whose minimum width the screen reaches
+   */
+  getCurrentBreakpoint(): LayoutBreakpoint {
+    return [...LAYOUT_BREAKPOINTS].reverse()
+      .find(breakpoint => this.breakpointObserver.isMatched(this.getMediaQuery(breakpoint))) ?? 'xs';
+  }
+
+  /**
+   * Value of a responsive setting at a breakpoint, inherited from the closest smaller breakpoint
+   * @returns undefined when no breakpoint up to the given one sets a value
+   */
+  resolve(value: ResponsiveValue | undefined, breakpoint: LayoutBreakpoint): number | undefined {
+    if (value === undefined || typeof value === 'number') {
+      return value;
+    }
+
+    const candidates = LAYOUT_BREAKPOINTS.slice(0, LAYOUT_BREAKPOINTS.indexOf(breakpoint) + 1).reverse();
+    return candidates.map(candidate => value[candidate]).find(candidate => candidate !== undefined);
+  }
+
+  /**
+   * Grid columns of a section at a breakpoint
+   */
+  getColumns(section: FormSection, breakpoint: LayoutBreakpoint): number {
+    const columns = this.resolve(section.layout?.columns, breakpoint) ?? this.resolve(DEFAULT_SECTION_COLUMNS, breakpoint)!;
+    return Math.max(1, Math.floor(columns));
+  }
+
+  /**
+   * Grid columns a field takes at a breakpoint, capped at the section columns.
+   * Without a declared span, full-width field types take the whole row and others one column.
+   */
+  getFieldSpan(field: FormField, section: FormSection, breakpoint: LayoutBreakpoint): number {
+    const columns = this.getColumns(section, breakpoint);
+    const span = this.resolve(field.layout?.span, breakpoint)
+      ?? (this.fieldComponentRegistry.get(field.type)?.fullWidth ? columns : 1);
+    return Math.min(Math.max(1, Math.floor(span)), columns);
+  }
+
+  /**
+   * Fields of a section split into its groups; groups without fields are left out.
+   * Fields naming an unknown group are shown with the ungrouped ones.
+   */
+  getFieldGroups(section: FormSection): SectionFieldGroup[] {
+    const groups = section.groups || [];
+    const groupIds = new Set(groups.map(group => group.id));
+    const ungrouped = section.fields.filter(field => !field.layout?.group || !groupIds.has(field.layout.group));
+
+    return [
+      { group: null, fields: ungrouped },
+      ...groups.map(group => ({ group, fields: section.fields.filter(field => field.layout?.group === group.id) }))
+    ].filter(entry => entry.fields.length > 0);
+  }
+
+  /**
+   * Header icon of a section: the declared one, or one guessed from the section ID
+   */
+  getSectionIcon(section: FormSection): string {
+    if (section.icon) {
+      return section.icon;
+    }
+
+    const sectionId = section.id.toLowerCase();
+    return SECTION_ICON_FALLBACKS.find(fallback => fallback.keywords.some(keyword => sectionId.includes(keyword)))?.icon
+      ?? DEFAULT_SECTION_ICON;
+  }
+
+  // === PRIVATE HELPER METHODS ===
+
+  private getMediaQuery(breakpoint: LayoutBreakpoint): string {
+    return `(min-width: ${BREAKPOINT_MIN_WIDTHS[breakpoint]}px)`;
+  }
+}
@@ -0,0 +1,66 @@
+import { TestBed } from '@angular/core/testing';
+
+import { FormSubmissionData } from '../models';
+import { FormSchemaMigrationService } from './form-schema-migration.service';
+
+describe('FormSchemaMigrationService', () => {
+  let service: FormSchemaMigrationService;
+
+  const data: FormSubmissionData = {
+    employee: { full_name: 'Ada King Lovelace', phone: '555-0100', location: 'new_york' },
+    access: { building: 'B2', floor: '4' }
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(FormSchemaMigrationService);
+
+    service.register({
+      schemaId: 'schema_001',
+      from: '1.0.0',
+      to: '1.1.0',
+      steps: [
+        { type: 'renameField', section: 'employee', from: 'phone', to: 'mobile' },
+        { type: 'mapOptionValues', field: 'employee.location', values: { new_york: 'nyc' } }
+      ]
+    });
+    service.register({
+      schemaId: 'schema_001',
+      from: '1.1.0',
+      to: '2.0.0',
+      steps: [
+        { type: 'splitField', field: 'employee.full_name', into: ['employee.first_name', 'employee.last_name'] },
+        { type: 'mergeFields', fields: ['access.building', 'access.floor'], into: 'access.desk', separator: '/' },
+        { type: 'moveField', from: 'employee.mobile', to: 'contact.mobile' }
+      ]
+    });
+  });
+
+  it('should chain migrations up to the target version', () => {
+    const result = service.migrate('schema_001', data, '1.0.0', '2.0.0');
+
+    expect(result.applied.length).toBe(2);
+    expect(result.data as unknown).toEqual({
+      employee: { location: 'nyc', first_name: 'Ada', last_name: 'King Lovelace' },
+      access: { desk: 'B2/4' },
+      contact: { mobile: '555-0100' }
+    });
+  });
+
+  it('should not modify the input data', () => {
+    service.migrate('schema_001', data, '1.0.0', '2.0.0');
+    expect(data['employee']['phone'] as unknown).toBe('555-0100');
+  });
+
+  it('should migrate every row of repeatable sections', () => {
+    const rows = { employee: [{ phone: '1' }, { phone: '2' }] } as unknown as FormSubmissionData;
+    const result = service.migrate('schema_001', rows, '1.0.0', '1.1.0');
+
+    expect(result.data['employee'] as unknown).toEqual([{ mobile: '1' }, { mobile: '2' }]);
+  });
+
+  it('should reject unknown version paths', () => {
+    expect(service.canMigrate('schema_001', '0.9.0', '2.0.0')).toBeFalse();
+    expect(() => service.migrate('schema_001', data, '0.9.0', '2.0.0')).toThrowError(/no migration path/);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Form Schema Migration Service
+ * Registry of schema versions and the declarative steps upgrading stored form data between them
+ *
+ * Tickets keep the schema version their form data was saved with. When a schema renames or
+ * restructures fields, a migration is registered for that version bump and old form data is
+ * upgraded step by step (1.0.0 -> 1.1.0 -> 2.0.0) before it is bound to the current form.
+ */
+
+import { Injectable } from '@angular/core';
+
+import {
+  FormDataMigrationResult,
+  FormDataMigrationStep,
+  FormSchemaMigration,
+  FormSubmissionData,
+  JsonValue,
+  SectionData
+} from '../models';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class FormSchemaMigrationService {
+  private readonly migrations = new Map<string, FormSchemaMigration[]>();
+
+  /**
+   * Register a migration (replaces an existing one for the same schema and source version)
+   */
+  register(migration: FormSchemaMigration): void {
+    const migrations = (this.migrations.get(migration.schemaId) || [])
+      .filter(existing => existing.from !== migration.from);
+    this.migrations.set(migration.schemaId, [...migrations, migration]);
+  }
+
+  /**
+   * Get the registered migrations of a schema
+   */
+  getMigrations(schemaId: string): FormSchemaMigration[] {
+    return [...(this.migrations.get(schemaId) || [])];
+  }
+
+  /**
+   * Check whether form data can be upgraded between two versions
+   */
+  canMigrate(schemaId: string, fromVersion: string, toVersion: string): boolean {
+    return this.findPath(schemaId, fromVersion, toVersion) !== null;
+  }
+
+  /**
+   * Upgrade form data from its stored version to the target version.
+   * The input is not modified.
+   */
+  migrate(schemaId: string, data: FormSubmissionData, fromVersion: string, toVersion: string): FormDataMigrationResult {
+    const path = this.findPath(schemaId, fromVersion, toVersion);
+    if (!path) {
+      throw new Error(`FormSchemaMigration: no migration path for schema "${schemaId}" from ${fromVersion} to ${toVersion}`);
+    }
+
+    const migrated = structuredClone(data);
+    path.forEach(migration => migration.steps.forEach(step => this.applyStep(migrated, step)));
+
+    return { data: migrated, fromVersion, toVersion, applied: path };
+  }
+
+  /**
+   * Describe a step for history entries and logs
+   */
+  describeStep(step: FormDataMigrationStep): string {
+    switch (step.type) {
+      case 'renameField':
+        return `Renamed ${step.section}.${step.from} to ${step.section}.${step.to}`;
+      case 'moveField':
+        return `Moved ${step.from} to ${step.to}`;
+      case 'mapOptionValues':
+        return `Mapped option values of ${step.field}`;
+      case 'splitField':
+        return `Split ${step.field} into ${step.into.join(', ')}`;
+      case 'mergeFields':
+        return `Merged ${step.fields.join(', ')} into ${step.into}`;
+    }
+  }
+
+  // === PRIVATE HELPER METHODS ===
+
+  /**
+   * Chains migrations from one version to the next until the target is reached
+   */
+  private findPath(schemaId: string, fromVersion: string, toVersion: string): FormSchemaMigration[] | null {
+    const migrations = this.migrations.get(schemaId) || [];
+    const path: FormSchemaMigration[] = [];
+    const visited = new Set<string>();
+    let version = fromVersion;
+
+    while (version !== toVersion) {
+      const next = migrations.find(migration => migration.from === version);
+      if (!next || visited.has(version)) return null;
+
+      visited.add(version);
+      path.push(next);
+      version = next.to;
+    }
+
+    return path;
+  }
+
+  private applyStep(data: FormSubmissionData, step: FormDataMigrationStep): void {
+    switch (step.type) {
+      case 'renameField':
+        this.getRecords(data, step.section).forEach(record => this.moveValue(record, step.from, record, step.to));
+        break;
+
+      case 'moveField': {
+        const [from, to] = [this.splitPath(step.from), this.splitPath(step.to)];
+        if (from.sectionId === to.sectionId) {
+          this.getRecords(data, from.sectionId).forEach(record => this.moveValue(record, from.fieldId, record, to.fieldId));
+        } else {
+          this.moveValue(this.getRecord(data, from.sectionId), from.fieldId, this.getRecord(data, to.sectionId), to.fieldId);
+        }
+        break;
+      }
+
+      case 'mapOptionValues': {
+        const { sectionId, fieldId } = this.splitPath(step.field);
+        const mapValue = (value: JsonValue): JsonValue =>
+          Object.prototype.hasOwnProperty.call(step.values, String(value)) ? step.values[String(value)] : value;
+
+        this.getRecords(data, sectionId).forEach(record => {
+          if (!(fieldId in record)) return;
+          const value = record[fieldId];
+          // Multi-value fields store arrays of option values
+          record[fieldId] = Array.isArray(value) ? value.map(mapValue) : mapValue(value);
+        });
+        break;
+      }
+
+      case 'splitField':
+        this.applySplit(data, step.field, step.into, step.separator ?? ' ');
+        break;
+
+      case 'mergeFields':
+        this.applyMerge(data, step.fields, step.into, step.separator ?? ' ');
+        break;
+    }
+  }
+
+  private applySplit(data: FormSubmissionData, field: string, into: string[], separator: string): void {
+    const source = this.splitPath(field);
+    const targets = into.map(path => this.splitPath(path));
+
+    this.forEachRecordGroup(data, [source, ...targets], resolve => {
+      const record = resolve(source.sectionId);
+      if (!(source.fieldId in record)) return;
+
+      const value = record[source.fieldId];
+      const parts = value === null || value === undefined || value === '' ? [] : String(value).split(separator);
+      delete record[source.fieldId];
+
+      targets.forEach((target, index) => {
+        const isLast = index === targets.length - 1;
+        const part = isLast ? parts.slice(index).join(separator) : parts[index];
+        resolve(target.sectionId)[target.fieldId] = part ?? '';
+      });
+    });
+  }
+
+  private applyMerge(data: FormSubmissionData, fields: string[], into: string, separator: string): void {
+    const sources = fields.map(path => this.splitPath(path));
+    const target = this.splitPath(into);
+
+    this.forEachRecordGroup(data, [...sources, target], resolve => {
+      const present = sources.filter(source => source.fieldId in resolve(source.sectionId));
+      if (present.length === 0) return;
+
+      const merged = present
+        .map(source => resolve(source.sectionId)[source.fieldId])
+        .filter(value => value !== null && value !== undefined && value !== '')
+        .map(value => String(value))
+        .join(separator);
+
+      present.forEach(source => delete resolve(source.sectionId)[source.fieldId]);
+      resolve(target.sectionId)[target.fieldId] = merged;
+    });
+  }
+
+  /**
+   * Runs an operation once per row when all paths share a section, otherwise once on the section records
+   */
+  private forEachRecordGroup(
+    data: FormSubmissionData,
+    paths: { sectionId: string; fieldId: string }[],
+    operation: (resolve: (sectionId: string) => SectionData) => void
+  ): void {
+    const sectionIds = new Set(paths.map(path => path.sectionId));
+
+    if (sectionIds.size === 1) {
+      this.getRecords(data, paths[0].sectionId).forEach(record => operation(() => record));
+    } else {
+      operation(sectionId => this.getRecord(data, sectionId));
+    }
+  }
+
+  private moveValue(source: SectionData, sourceId: string, target: SectionData, targetId: string): void {
+    if (!(sourceId in source)) return;
+
+    const value = source[sourceId];
+    delete source[sourceId];
+    target[targetId] = value;
+  }
+
+  /**
+   * Gets the records of a section: one per row for repeatable sections
+   */
+  private getRecords(data: FormSubmissionData, sectionId: string): SectionData[] {
+    const section: unknown = data[sectionId];
+    if (Array.isArray(section)) return section as SectionData[];
+    return section ? [section as SectionData] : [];
+  }
+
+  /**
+   * Gets the record of a non-repeatable section, creating it when missing
+   */
+  private getRecord(data: FormSubmissionData, sectionId: string): SectionData {
+    if (Array.isArray(data[sectionId])) {
+      throw new Error(`FormSchemaMigration: cannot move values across repeatable section "${sectionId}"`);
+    }
+    return (data[sectionId] ??= {});
+  }
+
+  private splitPath(path: string): { sectionId: string; fieldId: string } {
+    const [sectionId, fieldId] = path.split('.');
+    if (!sectionId || !fieldId) {
+      throw new Error(`FormSchemaMigration: expected a "section.field" path, got "${path}"`);
+    }
+    return { sectionId, fieldId };
+  }
+}
@@ -0,0 +1,139 @@
+import { TestBed } from '@angular/core/testing';
+
+import { FormField, FormSchema, FormSection, SchemaDiagnostic } from '../models';
+import { FormSchemaValidatorService } from './form-schema-validator.service';
+
+describe('FormSchemaValidatorService', () => {
+  let service: FormSchemaValidatorService;
+
+  const field = (id: string, extra: Partial<FormField> = {}): FormField => ({ id, label: id, type: 'text', ...extra });
+  const schema = (sections: FormSection[], extra: Partial<FormSchema> = {}): FormSchema =>
+    ({ id: 'test', title: 'Test', version: '1.0.0', sections, ...extra });
+  const summarize = (diagnostics: SchemaDiagnostic[]) =>
+    diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.code, diagnostic.path]);
+
+  beforeEach(() => {
+    service = TestBed.inject(FormSchemaValidatorService);
+  });
+
+  it('should accept a clean schema', () => {
+    const clean = schema([{
+      id: 'employee',
+      title: 'Employee',
+      fields: [
+        field('has_manager', { type: 'checkbox' }),
+        field('manager', { visibleWhen: [{ fieldId: 'employee.has_manager', operator: 'equals', value: true }] })
+      ]
+    }]);
+
+    expect(service.validate(clean)).toEqual([]);
+  });
+
+  it('should report conditions referencing unknown fields', () => {
+    const diagnostics = service.validate(schema([{
+      id: 'employee',
+      title: 'Employee',
+      fields: [
+        field('has_manager', { type: 'checkbox' }),
+        field('manager', { visibleWhen: [{ fieldId: 'has_manager', operator: 'equals', value: true }] })
+      ]
+    }]));
+
+    expect(summarize(diagnostics)).toEqual([['error', 'DANGLING_REFERENCE', 'employee.manager.visibleWhen']]);
+    expect(diagnostics[0].message).toContain('did you mean "employee.has_manager"?');
+  });
+
+  it('should report calculated expressions that do not parse', () => {
+    const diagnostics = service.validate(schema([{
+      id: 'equipment',
+      title: 'Equipment',
+      fields: [field('quantity', { type: 'number' }), field('total', { type: 'number', calculated: 'quantity *' })]
+    }]));
+
+    expect(summarize(diagnostics)).toEqual([['error', 'INVALID_EXPRESSION', 'equipment.total.calculated']]);
+  });
+
+  it('should reject calculated fields in repeatable sections', () => {
+    const diagnostics = service.validate(schema([{
+      id: 'equipment',
+      title: 'Equipment',
+      repeatable: true,
+      fields: [field('quantity', { type: 'number' }), field('total', { type: 'number', calculated: 'quantity * 2' })]
+    }]));
+
+    expect(summarize(diagnostics)).toEqual([['error', 'INVALID_EXPRESSION', 'equipment.total.calculated']]);
+    expect(diagnostics[0].message).toBe('Calculated fields are not supported in repeatable sections');
+  });
+
+  it('should report unknown validators and invalid validator args', () => {
+    const diagnostics = service.validate(schema([{
+      id: 'employee',
+      title: 'Employee',
+      fields: [field('name', { validators: [{ name: 'notAValidator' }, { name: 'minlength', args: 'two' }] })]
+    }]));
+
+    expect(summarize(diagnostics)).toEqual([
+      ['error', 'UNKNOWN_VALIDATOR', 'employee.name.validators[0]'],
+      ['error', 'INVALID_VALIDATOR_ARGS', 'employee.name.validators[1]']
+    ]);
+  });
+
+  it('should report dependency cycles once', () => {
+    const diagnostics = service.validate(schema([{
+      id: 'employee',
+      title: 'Employee',
+      fields: [
+        field('a', { visibleWhen: [{ fieldId: 'employee.b', operator: 'isNotEmpty', value: null }] }),
+        field('b', { requiredWhen: [{ fieldId: 'employee.a', operator: 'isNotEmpty', value: null }] })
+      ]
+    }]));
+
+    expect(summarize(diagnostics)).toEqual([['error', 'CYCLIC_DEPENDENCY', 'employee.a']]);
+    expect(diagnostics[0].message).toBe('Dependency cycle: employee.a -> employee.b -> employee.a');
+  });
+
+  it('should report cycles through aggregates and calculated fields', () => {
+    const diagnostics = service.validate(schema([
+      {
+        id: 'household',
+        title: 'Household',
+        fields: [
+          field('hasChildren', {
+            type: 'checkbox',
+            visibleWhen: { count: 'dependents', where: [{ fieldId: 'dependents.relationship', operator: 'equals', value: 'child' }], operator: 'greaterThan', value: 0 }
+          }),
+          field('quantity', { type: 'number', visibleWhen: [{ fieldId: 'household.total', operator: 'isNotEmpty', value: null }] }),
+          field('total', { type: 'number', calculated: 'quantity * 2' })
+        ]
+      },
+      {
+        id: 'dependents',
+        title: 'Dependents',
+        repeatable: true,
+        fields: [field('relationship', { disabledWhen: [{ fieldId: 'household.hasChildren', operator: 'equals', value: true }] })]
+      }
+    ]));
+
+    expect(summarize(diagnostics)).toEqual([
+      ['error', 'CYCLIC_DEPENDENCY', 'household.hasChildren'],
+      ['error', 'CYCLIC_DEPENDENCY', 'household.quantity']
+    ]);
+  });
+
+  it('should report bad steps and sections no step covers', () => {
+    const sections: FormSection[] = ['basics', 'employee', 'equipment'].map(id => ({ id, title: id, fields: [field('name')] }));
+    const diagnostics = service.validate(schema(sections, {
+      presentation: 'wizard',
+      steps: [
+        { id: 'start', title: 'Start', sections: ['basics', 'missing'] },
+        { id: 'start', title: 'Employee', sections: ['employee'] }
+      ]
+    }));
+
+    expect(summarize(diagnostics)).toEqual([
+      ['error', 'DANGLING_REFERENCE', 'steps[0]'],
+      ['error', 'DUPLICATE_ID', 'steps[1]'],
+      ['warning', 'UNCOVERED_SECTION', 'equipment']
+    ]);
+  });
+});
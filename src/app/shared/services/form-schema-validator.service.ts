@@ -0,0 +1,535 @@
+/**
+ * Form Schema Validator Service
+ * Static checks for form schemas, run before a form is built from them
+ *
+ * Broken schemas otherwise fail silently at runtime (rules pointing at missing fields never fire,
+ * duplicate IDs overwrite controls), so problems are reported as structured diagnostics instead.
+ */
+
+import { Injectable, inject } from '@angular/core';
+import { FormControl } from '@angular/forms';
+
+import { APP_CONSTANTS } from '../../core/config/app.config';
+import {
+  Condition,
+  CrossFieldValidator,
+  FieldOptions,
+  FieldType,
+  FieldValidators,
+  FormField,
+  FormSchema,
+  FormSection,
+  LAYOUT_BREAKPOINTS,
+  LayoutBreakpoint,
+  ResponsiveValue,
+  SchemaDiagnostic,
+  SchemaDiagnosticCode,
+  VALIDATION_SEVERITIES
+} from '../models';
+import { ExpressionEvaluatorService } from './expression-evaluator.service';
+import { FieldFormatService } from './field-format.service';
+import { OptionsResolverService } from './options-resolver.service';
+import { ValidatorRegistryService } from './validator-registry.service';
+
+// Callback used by the individual checks to record a diagnostic
+type DiagnosticReporter = (
+  severity: SchemaDiagnostic['severity'],
+  code: SchemaDiagnosticCode,
+  path: string,
+  message: string
+) => void;
+
+// Field types that render the options list
+const OPTION_FIELD_TYPES: FieldType[] = ['select', 'radio', 'multiselect', 'checkbox-group'];
+
+// Field types a table column can have
+const TABLE_COLUMN_TYPES: FieldType[] = ['text', 'email', 'number', 'currency', 'percentage', 'date', 'select', 'checkbox'];
+
+// Cross-field validators comparing exactly two fields
+const COMPARISON_VALIDATORS = ['lessThan', 'lessThanOrEqual', 'greaterThan', 'greaterThanOrEqual', 'equals', 'notEquals'];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class FormSchemaValidatorService {
+  private readonly validatorRegistry = inject(ValidatorRegistryService);
+  private readonly expressionEvaluator = inject(ExpressionEvaluatorService);
+  private readonly optionsResolver = inject(OptionsResolverService);
+  private readonly fieldFormatService = inject(FieldFormatService);
+
+  /**
+   * Validates a schema and returns all diagnostics (empty when the schema is clean)
+   */
+  validate(schema: FormSchema): SchemaDiagnostic[] {
+    const diagnostics: SchemaDiagnostic[] = [];
+    const report: DiagnosticReporter = (severity, code, path, message) =>
+      diagnostics.push({ severity, code, path, message });
+
+    const fieldPaths = this.collectFieldPaths(schema);
+    const repeatableSectionIds = new Set(schema.sections.filter(section => section.repeatable).map(section => section.id));
+
+    this.checkLimits(schema, report);
+    this.checkDuplicateIds(schema, report);
+
+    schema.sections.forEach(section => {
+      this.checkLayout(section, report);
+      this.checkCondition(section.visibleWhen, section.id, `${section.id}.visibleWhen`, fieldPaths, repeatableSectionIds, report);
+      section.validators?.forEach((validator, index) =>
+        this.checkCrossFieldValidator(validator, `${section.id}.validators[${index}]`, fieldId =>
+          fieldPaths.has(`${section.id}.${fieldId}`), report)
+      );
+
+      section.fields.forEach(field => {
+        const path = `${section.id}.${field.id}`;
+        (['visibleWhen', 'requiredWhen', 'disabledWhen', 'readOnlyWhen'] as const).forEach(property =>
+          this.checkCondition(field[property], section.id, `${path}.${property}`, fieldPaths, repeatableSectionIds, report)
+        );
+        field.options?.forEach((entry, index) =>
+          (['visibleWhen', 'disabledWhen'] as const).forEach(property => {
+            this.checkCondition(entry[property], section.id, `${path}.options[${index}].${property}`, fieldPaths, repeatableSectionIds, report);
+            if (FieldOptions.isGroup(entry)) {
+              entry.options.forEach((option, optionIndex) =>
+                this.checkCondition(option[property], section.id, `${path}.options[${index}].options[${optionIndex}].${property}`,
+                  fieldPaths, repeatableSectionIds, report)
+              );
+            }
+          })
+        );
+        this.checkCalculated(field, section, path, fieldPaths, report);
+        this.checkValidators(field, path, report);
+        this.checkOptions(field, path, fieldPaths, report);
+        this.checkFormat(field, path, report);
+        this.checkColumns(field, path, report);
+        this.checkDefault(field, path, report);
+      });
+    });
+
+    schema.validators?.forEach((validator, index) =>
+      this.checkCrossFieldValidator(validator, `validators[${index}]`, path => fieldPaths.has(path), report)
+    );
+
+    this.checkSteps(schema, report);
+    this.checkCycles(schema, fieldPaths, report);
+
+    return diagnostics;
+  }
+
+  /**
+   * Checks whether diagnostics contain at least one error
+   */
+  hasErrors(diagnostics: SchemaDiagnostic[]): boolean {
+    return diagnostics.some(diagnostic => diagnostic.severity === 'error');
+  }
+
+  // === PRIVATE HELPER METHODS ===
+
+  private collectFieldPaths(schema: FormSchema): Set<string> {
+    const paths = new Set<string>();
+    schema.sections.forEach(section =>
+      section.fields.forEach(field => paths.add(`${section.id}.${field.id}`))
+    );
+    return paths;
+  }
+
+  private checkLimits(schema: FormSchema, report: DiagnosticReporter): void {
+    const { MAX_SECTIONS, MAX_FIELDS_PER_SECTION, MAX_OPTIONS_PER_FIELD } = APP_CONSTANTS.FORMS;
+
+    if (schema.sections.length > MAX_SECTIONS) {
+      report('error', 'LIMIT_EXCEEDED', 'sections', `Schema has ${schema.sections.length} sections (max ${MAX_SECTIONS})`);
+    }
+
+    schema.sections.forEach(section => {
+      if (section.fields.length > MAX_FIELDS_PER_SECTION) {
+        report('error', 'LIMIT_EXCEEDED', section.id,
+          `Section has ${section.fields.length} fields (max ${MAX_FIELDS_PER_SECTION})`);
+      }
+
+      section.fields.forEach(field => {
+        const optionCount = FieldOptions.flatten(field.options || []).length;
+        if (optionCount > MAX_OPTIONS_PER_FIELD) {
+          report('error', 'LIMIT_EXCEEDED', `${section.id}.${field.id}.options`,
+            `Field has ${optionCount} options (max ${MAX_OPTIONS_PER_FIELD})`);
+        }
+      });
+    });
+  }
+
+  private checkDuplicateIds(schema: FormSchema, report: DiagnosticReporter): void {
+    const sectionIds = new Set<string>();
+
+    schema.sections.forEach(section => {
+      if (sectionIds.has(section.id)) {
+        report('error', 'DUPLICATE_ID', section.id, `Duplicate section ID "${section.id}"`);
+      }
+      sectionIds.add(section.id);
+
+      const fieldIds = new Set<string>();
+      section.fields.forEach(field => {
+        if (fieldIds.has(field.id)) {
+          report('error', 'DUPLICATE_ID', `${section.id}.${field.id}`,
+            `Duplicate field ID "${field.id}" in section "${section.id}"`);
+        }
+        fieldIds.add(field.id);
+      });
+    });
+  }
+
+  private checkCondition(
+    condition: Condition | undefined,
+    sectionId: string,
+    path: string,
+    fieldPaths: Set<string>,
+    repeatableSectionIds: Set<string>,
+    report: DiagnosticReporter
+  ): void {
+    if (!condition) return;
+
+    Condition.fieldIds(condition).forEach(fieldId => {
+      if (fieldPaths.has(fieldId)) return;
+
+      // Rules are resolved from the form root, so bare field IDs never match
+      const hint = fieldPaths.has(`${sectionId}.${fieldId}`) ? ` (did you mean "${sectionId}.${fieldId}"?)` : '';
+      report('error', 'DANGLING_REFERENCE', path, `Condition references unknown field "${fieldId}"${hint}`);
+    });
+
+    Condition.aggregates(condition).forEach(aggregate => {
+      if (!repeatableSectionIds.has(aggregate.count)) {
+        report('error', 'DANGLING_REFERENCE', path, `Aggregate counts rows of "${aggregate.count}", which is not a repeatable section`);
+      }
+    });
+  }
+
+  private checkCalculated(
+    field: FormField,
+    section: FormSection,
+    path: string,
+    fieldPaths: Set<string>,
+    report: DiagnosticReporter
+  ): void {
+    if (!field.calculated) return;
+    if (section.repeatable) {
+      report('error', 'INVALID_EXPRESSION', `${path}.calculated`, 'Calculated fields are not supported in repeatable sections');
+      return;
+    }
+
+    try {
+      const expression = this.expressionEvaluator.compile(field.calculated);
+      expression.references.forEach(reference => {
+        const referencePath = reference.includes('.') ? reference : `${section.id}.${reference}`;
+        if (!fieldPaths.has(referencePath)) {
+          report('error', 'DANGLING_REFERENCE', `${path}.calculated`, `Expression references unknown field "${reference}"`);
+        }
+      });
+    } catch (error) {
+      report('error', 'INVALID_EXPRESSION', `${path}.calculated`, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private checkValidators(field: FormField, path: string, report: DiagnosticReporter): void {
+    field.validators?.forEach((validator, index) => {
+      const validatorPath = `${path}.validators[${index}]`;
+
+      if (!this.validatorRegistry.has(validator.name)) {
+        report('error', 'UNKNOWN_VALIDATOR', validatorPath, `Unknown validator "${validator.name}"`);
+      } else if (!this.validatorRegistry.hasValidArgs(validator)) {
+        report('error', 'INVALID_VALIDATOR_ARGS', validatorPath,
+          `Invalid args ${JSON.stringify(validator.args)} for validator "${validator.name}"`);
+      }
+
+      if (validator.severity !== undefined && !VALIDATION_SEVERITIES.includes(validator.severity)) {
+        report('error', 'INVALID_VALIDATOR_ARGS', `${validatorPath}.severity`, `Unknown severity "${validator.severity}"`);
+      } else if (FieldValidators.isAdvisory(validator) && this.validatorRegistry.isAsync(validator.name)) {
+        report('warning', 'INVALID_VALIDATOR_ARGS', `${validatorPath}.severity`,
+          `Async validator "${validator.name}" cannot be advisory and is skipped`);
+      }
+    });
+  }
+
+  private checkCrossFieldValidator(
+    validator: CrossFieldValidator,
+    path: string,
+    exists: (field: string) => boolean,
+    report: DiagnosticReporter
+  ): void {
+    const expected = COMPARISON_VALIDATORS.includes(validator.name) ? 'exactly 2' : 'at least 2';
+    const count = validator.fields.length;
+    if (expected === 'exactly 2' ? count !== 2 : count < 2) {
+      report('error', 'INVALID_VALIDATOR_ARGS', path, `Validator "${validator.name}" needs ${expected} fields, got ${count}`);
+    }
+
+    [...validator.fields, ...(validator.errorField ? [validator.errorField] : [])].forEach(field => {
+      if (!exists(field)) {
+        report('error', 'DANGLING_REFERENCE', path, `Validator references unknown field "${field}"`);
+      }
+    });
+  }
+
+  private checkOptions(field: FormField, path: string, fieldPaths: Set<string>, report: DiagnosticReporter): void {
+    const expectsOptions = OPTION_FIELD_TYPES.includes(field.type);
+
+    if (field.options && !expectsOptions) {
+      report('warning', 'UNEXPECTED_OPTIONS', `${path}.options`, `Options are ignored for field type "${field.type}"`);
+    } else if (field.optionsSource && !expectsOptions) {
+      report('warning', 'UNEXPECTED_OPTIONS', `${path}.optionsSource`, `Option sources are ignored for field type "${field.type}"`);
+    } else if (expectsOptions && !field.options?.length && !field.optionsSource) {
+      report('warning', 'MISSING_OPTIONS', path, `Field type "${field.type}" has no options`);
+    } else if (field.type !== 'select' && field.options?.some(FieldOptions.isGroup)) {
+      report('warning', 'UNEXPECTED_OPTIONS', `${path}.options`, `Option groups render as a flat list for field type "${field.type}"`);
+    }
+
+    if (!field.optionsSource) return;
+
+    if (!this.optionsResolver.has(field.optionsSource.endpoint)) {
+      report('error', 'UNKNOWN_OPTIONS_SOURCE', `${path}.optionsSource`,
+        `No options loader registered for "${field.optionsSource.endpoint}"`);
+    }
+    Object.values(field.optionsSource.dependsOn || {}).forEach(parent => {
+      if (!fieldPaths.has(parent)) {
+        report('error', 'DANGLING_REFERENCE', `${path}.optionsSource`, `Option source depends on unknown field "${parent}"`);
+      }
+    });
+  }
+
+  /**
+   * Format attributes of formatted field types (masks, currency codes, default phone country)
+   */
+  private checkFormat(field: FormField, path: string, report: DiagnosticReporter): void {
+    const attributes = field.attributes || {};
+
+    if (field.type === 'masked' && !this.fieldFormatService.isValidMask(attributes['mask'])) {
+      report('error', 'INVALID_FORMAT', `${path}.attributes.mask`,
+        'Masked fields need a mask with at least one "#", "A" or "*" token');
+    }
+
+    if (field.type === 'currency') {
+      const listed: unknown = attributes['currencies'];
+      const listedCodes: unknown[] = Array.isArray(listed) ? listed : [];
+      const currencies = [attributes['currency'] as unknown, ...listedCodes].filter(code => code !== undefined);
+      currencies.filter(code => !this.fieldFormatService.isValidCurrency(code)).forEach(code =>
+        report('error', 'INVALID_FORMAT', `${path}.attributes`, `Unknown ISO 4217 currency code ${JSON.stringify(code)}`)
+      );
+    }
+
+    if (field.type === 'phone' && attributes['defaultCountry'] !== undefined
+      && !this.fieldFormatService.getCallingCode(this.fieldFormatService.getDefaultCountry(field))) {
+      report('warning', 'INVALID_FORMAT', `${path}.attributes.defaultCountry`,
+        `No calling code known for "${attributes['defaultCountry']}"; national numbers will not be completed`);
+    }
+  }
+
+  /**
+   * Columns of table fields: unique IDs, supported cell types, and the checks every field gets
+   */
+  private checkColumns(field: FormField, path: string, report: DiagnosticReporter): void {
+    if (field.type !== 'table') {
+      if (field.columns) {
+        report('warning', 'INVALID_COLUMNS', `${path}.columns`, `Columns are ignored for field type "${field.type}"`);
+      }
+      return;
+    }
+
+    if (!field.columns?.length) {
+      report('error', 'INVALID_COLUMNS', path, 'Table fields need at least one column');
+      return;
+    }
+
+    const columnIds = new Set<string>();
+    field.columns.forEach(column => {
+      const columnPath = `${path}.columns.${column.id}`;
+      if (columnIds.has(column.id)) {
+        report('error', 'DUPLICATE_ID', columnPath, `Duplicate column ID "${column.id}" in table "${field.id}"`);
+      }
+      columnIds.add(column.id);
+
+      if (!TABLE_COLUMN_TYPES.includes(column.type)) {
+        report('error', 'INVALID_COLUMNS', columnPath, `Field type "${column.type}" is not supported in table columns`);
+      }
+      if (column.visibleWhen || column.requiredWhen || column.disabledWhen || column.readOnlyWhen || column.calculated) {
+        report('warning', 'INVALID_COLUMNS', columnPath, 'Conditions and calculations are ignored on table columns');
+      }
+      if (column.optionsSource) {
+        report('error', 'INVALID_COLUMNS', `${columnPath}.optionsSource`, 'Table columns only support static options');
+      }
+
+      this.checkValidators(column, columnPath, report);
+      if (!column.optionsSource) this.checkOptions(column, columnPath, new Set(), report);
+      this.checkFormat(column, columnPath, report);
+      this.checkDefault(column, columnPath, report);
+    });
+  }
+
+  /**
+   * Section columns, field spans and rows, and the groups fields are placed in
+   */
+  private checkLayout(section: FormSection, report: DiagnosticReporter): void {
+    this.checkResponsiveValue(section.layout?.columns, `${section.id}.layout.columns`, report);
+
+    const groupIds = new Set<string>();
+    section.groups?.forEach((group, index) => {
+      if (groupIds.has(group.id)) {
+        report('error', 'DUPLICATE_ID', `${section.id}.groups[${index}]`, `Duplicate group ID "${group.id}"`);
+      }
+      groupIds.add(group.id);
+    });
+
+    section.fields.forEach(field => {
+      const path = `${section.id}.${field.id}.layout`;
+      const layout = field.layout;
+      if (!layout) return;
+
+      this.checkResponsiveValue(layout.span, `${path}.span`, report);
+      if (layout.row !== undefined && !this.isPositiveInteger(layout.row)) {
+        report('error', 'INVALID_LAYOUT', `${path}.row`, `Row ${JSON.stringify(layout.row)} is not a positive whole number`);
+      }
+      if (layout.group !== undefined && !groupIds.has(layout.group)) {
+        report('error', 'DANGLING_REFERENCE', `${path}.group`, `Field references unknown group "${layout.group}"`);
+      }
+    });
+
+    section.groups?.forEach((group, index) => {
+      if (!section.fields.some(field => field.layout?.group === group.id)) {
+        report('warning', 'INVALID_LAYOUT', `${section.id}.groups[${index}]`, `Group "${group.id}" has no fields`);
+      }
+    });
+  }
+
+  /**
+   * A positive whole number, or one per known breakpoint
+   */
+  private checkResponsiveValue(value: ResponsiveValue | undefined, path: string, report: DiagnosticReporter): void {
+    if (value === undefined) return;
+
+    const entries = typeof value === 'object' && value !== null ? Object.entries(value) : [['', value] as const];
+    entries.forEach(([breakpoint, amount]) => {
+      const entryPath = breakpoint ? `${path}.${breakpoint}` : path;
+      if (breakpoint && !LAYOUT_BREAKPOINTS.includes(breakpoint as LayoutBreakpoint)) {
+        report('error', 'INVALID_LAYOUT', entryPath, `Unknown breakpoint "${breakpoint}" (expected ${LAYOUT_BREAKPOINTS.join(', ')})`);
+      } else if (!this.isPositiveInteger(amount)) {
+        report('error', 'INVALID_LAYOUT', entryPath, `${JSON.stringify(amount)} is not a positive whole number`);
+      }
+    });
+  }
+
+  private isPositiveInteger(value: unknown): boolean {
+    return typeof value === 'number' && Number.isInteger(value) && value > 0;
+  }
+
+  private checkDefault(field: FormField, path: string, report: DiagnosticReporter): void {
+    // Empty defaults mean "not filled in yet", which is not a schema problem
+    if (field.default === undefined || field.default === null || field.default === '') return;
+
+    // Multi-value fields default to an array of option values
+    const defaults = Array.isArray(field.default) ? field.default : [field.default];
+    const options = FieldOptions.flatten(field.options || []);
+    if (OPTION_FIELD_TYPES.includes(field.type) && options.length
+      && !defaults.every(value => options.some(option => option.value === value))) {
+      report('error', 'INVALID_DEFAULT', `${path}.default`,
+        `Default ${JSON.stringify(field.default)} is not one of the field options`);
+      return;
+    }
+
+    // Defaults may trigger warnings, e.g. a due date that is soon
+    const validators = (field.validators || [])
+      .filter(validator => !this.validatorRegistry.isAsync(validator.name) && !FieldValidators.isAdvisory(validator))
+      .map(validator => this.validatorRegistry.createValidator(validator))
+      .filter(validator => validator !== null);
+    const errors = new FormControl(field.default, validators).errors;
+
+    if (errors) {
+      report('error', 'INVALID_DEFAULT', `${path}.default`,
+        `Default ${JSON.stringify(field.default)} fails validators: ${Object.keys(errors).join(', ')}`);
+    }
+  }
+
+  private checkSteps(schema: FormSchema, report: DiagnosticReporter): void {
+    const sectionIds = new Set(schema.sections.map(section => section.id));
+    const stepIds = new Set<string>();
+
+    schema.steps?.forEach((step, index) => {
+      if (stepIds.has(step.id)) {
+        report('error', 'DUPLICATE_ID', `steps[${index}]`, `Duplicate step ID "${step.id}"`);
+      }
+      stepIds.add(step.id);
+
+      step.sections.forEach(sectionId => {
+        if (!sectionIds.has(sectionId)) {
+          report('error', 'DANGLING_REFERENCE', `steps[${index}]`, `Step references unknown section "${sectionId}"`);
+        }
+      });
+    });
+
+    // Sections left out of the declared steps are still part of the form and its validation
+    if (!schema.steps?.length) return;
+    const steppedSectionIds = new Set(schema.steps.flatMap(step => step.sections));
+    schema.sections
+      .filter(section => !steppedSectionIds.has(section.id))
+      .forEach(section => report('warning', 'UNCOVERED_SECTION', section.id,
+        `Section "${section.id}" is in no step; the wizard shows it in a step after the declared ones`));
+  }
+
+  /**
+   * Detects dependency cycles between conditions, calculated fields and cascading option sources.
+   * A field also depends on the visibility of its own section, and an aggregate on every field of the counted section.
+   */
+  private checkCycles(schema: FormSchema, fieldPaths: Set<string>, report: DiagnosticReporter): void {
+    const edges = new Map<string, string[]>();
+    const addEdges = (node: string, targets: string[]) =>
+      edges.set(node, [...(edges.get(node) || []), ...targets.filter(target => fieldPaths.has(target))]);
+    const conditionTargets = (condition: Condition): string[] => [
+      ...Condition.fieldIds(condition),
+      ...Condition.aggregates(condition).flatMap(aggregate =>
+        (schema.sections.find(section => section.id === aggregate.count)?.fields || [])
+          .map(field => `${aggregate.count}.${field.id}`))
+    ];
+
+    schema.sections.forEach(section => {
+      if (section.visibleWhen) {
+        addEdges(`section:${section.id}`, conditionTargets(section.visibleWhen));
+      }
+
+      section.fields.forEach(field => {
+        const path = `${section.id}.${field.id}`;
+        [field.visibleWhen, field.requiredWhen, field.disabledWhen, field.readOnlyWhen].forEach(condition => {
+          if (condition) addEdges(path, conditionTargets(condition));
+        });
+        FieldOptions.conditions(field.options || []).forEach(condition => addEdges(path, conditionTargets(condition)));
+        if (field.optionsSource?.dependsOn) {
+          addEdges(path, Object.values(field.optionsSource.dependsOn));
+        }
+        if (section.visibleWhen) {
+          edges.set(path, [...(edges.get(path) || []), `section:${section.id}`]);
+        }
+        if (field.calculated) {
+          try {
+            const references = this.expressionEvaluator.compile(field.calculated).references;
+            addEdges(path, references.map(reference => (reference.includes('.') ? reference : `${section.id}.${reference}`)));
+          } catch {
+            // Reported by checkCalculated
+          }
+        }
+      });
+    });
+
+    const state = new Map<string, 'visiting' | 'done'>();
+    const reported = new Set<string>();
+
+    const visit = (node: string, chain: string[]): void => {
+      if (state.get(node) === 'done') return;
+      if (state.get(node) === 'visiting') {
+        const cycle = [...chain.slice(chain.indexOf(node)), node];
+        const key = [...cycle].slice(0, -1).sort().join('|');
+        if (!reported.has(key)) {
+          reported.add(key);
+          report('error', 'CYCLIC_DEPENDENCY', node.replace('section:', ''), `Dependency cycle: ${cycle.join(' -> ')}`);
+        }
+        return;
+      }
+
+      state.set(node, 'visiting');
+      (edges.get(node) || []).forEach(target => visit(target, [...chain, node]));
+      state.set(node, 'done');
+    };
+
+    edges.forEach((_, node) => visit(node, []));
+  }
+}
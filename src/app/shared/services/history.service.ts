@@ -49,7 +49,8 @@ export class HistoryService {
       ticketId, 
       request.action, 
       request.actor, 
-      request.details
+      request.details,
+      request.changes
     );
     
     // Simulate API delay and return the created item
@@ -0,0 +1,44 @@
+import { TestBed } from '@angular/core/testing';
+
+import { MarkdownService } from './markdown.service';
+
+describe('MarkdownService', () => {
+  let service: MarkdownService;
+
+  beforeEach(() => {
+    service = TestBed.inject(MarkdownService);
+  });
+
+  it('should render the toolbar subset of markdown', () => {
+    const html = service.toHtml('## Scope\n**Bold** and _italic_ with `code`\n\n- one\n- two\n\n[Docs](https://example.com)');
+
+    expect(html).toContain('<h2>Scope</h2>');
+    expect(html).toContain('<p><strong>Bold</strong> and <em>italic</em> with <code>code</code></p>');
+    expect(html).toContain('<ul><li>one</li><li>two</li></ul>');
+    expect(html).toContain('<a href="https://example.com" target="_blank" rel="noopener noreferrer">Docs</a>');
+  });
+
+  it('should show raw HTML as text and drop unsafe links', () => {
+    const html = service.toHtml('<img src=x onerror=alert(1)> [click](javascript:void)');
+
+    expect(html).not.toContain('<img');
+    expect(html).toContain('&lt;img');
+    expect(html).not.toContain('href');
+  });
+
+  it('should not turn text that looks like a link placeholder into a link', () => {
+    const html = service.toHtml('[Docs](https://example.com) [fake]&link0;');
+
+    expect(html).toContain('>Docs</a>');
+    expect(html).toContain('[fake]&amp;link0;');
+    expect(html.match(/<a /g)?.length).toBe(1);
+  });
+
+  it('should keep plain textarea text as entered', () => {
+    const text = 'Needs 2 * 3 monitors\nuser_name stays as is';
+
+    expect(service.toHtml(text)).toBe('<p>Needs 2 * 3 monitors<br>user_name stays as is</p>');
+    expect(service.toPlainText(text)).toBe(text);
+    expect(service.toPlainText('## **Bold** [link](https://example.com)')).toBe('Bold link');
+  });
+});
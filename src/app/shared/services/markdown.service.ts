@@ -0,0 +1,173 @@
+/**
+ * Markdown Service
+ * Renders the markdown stored by richtext fields to sanitized HTML
+ *
+ * Supports the subset offered by the editor toolbar: headings, bold, italic, strikethrough,
+ * inline and fenced code, links, bulleted and numbered lists, quotes and rules. Source text is
+ * HTML-escaped before rendering, so markup typed by users is shown as text, and the result is
+ * passed through Angular's HTML sanitizer. Single line breaks are kept, so plain text saved by
+ * textarea fields renders as it was entered.
+ */
+
+import { Injectable, SecurityContext, inject } from '@angular/core';
+import { DomSanitizer } from '@angular/platform-browser';
+
+// Link targets allowed in rendered markdown; anything else renders as plain text
+const SAFE_URL_PATTERN = /^(https?:\/\/|mailto:|\/|#)/i;
+
+const FENCE_PATTERN = /^\s*```/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+const QUOTE_PATTERN = /^\s*>\s?(.*)$/;
+const BULLET_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+const RULE_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LINK_PATTERN = /\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class MarkdownService {
+  private readonly sanitizer = inject(DomSanitizer);
+
+  /**
+   * Render markdown to sanitized HTML
+   */
+  toHtml(markdown: string | null | undefined): string {
+    if (!markdown) return '';
+    const html = this.renderBlocks(this.toLines(markdown));
+    return this.sanitizer.sanitize(SecurityContext.HTML, html) ?? '';
+  }
+
+  /**
+   * Get the visible text of markdown, without markup (used for counters and length validators)
+   */
+  toPlainText(markdown: string | null | undefined): string {
+    if (!markdown) return '';
+
+    return this.toLines(markdown)
+      .filter(line => !FENCE_PATTERN.test(line) && !RULE_PATTERN.test(line))
+      .map(line => line
+        .replace(HEADING_PATTERN, '$2')
+        .replace(QUOTE_PATTERN, '$1')
+        .replace(BULLET_PATTERN, '$1')
+        .replace(NUMBERED_PATTERN, '$1'))
+      .map(line => this.stripInlineMarkup(line))
+      .join('\n')
+      .trim();
+  }
+
+  // === PRIVATE HELPER METHODS ===
+
+  private toLines(markdown: string): string[] {
+    return markdown.replace(/\r\n?/g, '\n').split('\n');
+  }
+
+  private renderBlocks(lines: string[]): string {
+    const blocks: string[] = [];
+    let index = 0;
+
+    // Collects consecutive lines matching a pattern, returning their captured content
+    const collect = (pattern: RegExp): string[] => {
+      const items: string[] = [];
+      while (index < lines.length && pattern.test(lines[index])) {
+        items.push(lines[index].match(pattern)![1]);
+        index++;
+      }
+      return items;
+    };
+
+    while (index < lines.length) {
+      const line = lines[index];
+
+      if (!line.trim()) {
+        index++;
+      } else if (FENCE_PATTERN.test(line)) {
+        const code: string[] = [];
+        index++;
+        while (index < lines.length && !FENCE_PATTERN.test(lines[index])) {
+          code.push(lines[index++]);
+        }
+        index++; // Closing fence (or end of text)
+        blocks.push(`<pre><code>${this.escapeHtml(code.join('\n'))}</code></pre>`);
+      } else if (HEADING_PATTERN.test(line)) {
+        const [, hashes, text] = line.match(HEADING_PATTERN)!;
+        blocks.push(`<h${hashes.length}>${this.renderInline(text)}</h${hashes.length}>`);
+        index++;
+      } else if (RULE_PATTERN.test(line)) {
+        blocks.push('<hr>');
+        index++;
+      } else if (QUOTE_PATTERN.test(line)) {
+        blocks.push(`<blockquote>${this.renderBlocks(collect(QUOTE_PATTERN))}</blockquote>`);
+      } else if (BULLET_PATTERN.test(line)) {
+        blocks.push(`<ul>${collect(BULLET_PATTERN).map(item => `<li>${this.renderInline(item)}</li>`).join('')}</ul>`);
+      } else if (NUMBERED_PATTERN.test(line)) {
+        blocks.push(`<ol>${collect(NUMBERED_PATTERN).map(item => `<li>${this.renderInline(item)}</li>`).join('')}</ol>`);
+      } else {
+        const paragraph: string[] = [];
+        while (index < lines.length && lines[index].trim() && !this.startsBlock(lines[index])) {
+          paragraph.push(lines[index++]);
+        }
+        blocks.push(`<p>${paragraph.map(text => this.renderInline(text)).join('<br>')}</p>`);
+      }
+    }
+
+    return blocks.join('');
+  }
+
+  private startsBlock(line: string): boolean {
+    return [FENCE_PATTERN, HEADING_PATTERN, QUOTE_PATTERN, BULLET_PATTERN, NUMBERED_PATTERN, RULE_PATTERN]
+      .some(pattern => pattern.test(line));
+  }
+
+  /**
+   * Renders inline markup; code spans are rendered verbatim and link targets are kept out of emphasis
+   */
+  private renderInline(text: string): string {
+    return text.split(/(`[^`]+`)/).map(part => {
+      if (part.startsWith('`') && part.endsWith('`') && part.length > 1) {
+        return `<code>${this.escapeHtml(part.slice(1, -1))}</code>`;
+      }
+
+      // Escaped text has no bare '&', so a link placeholder cannot come from the input itself
+      const links: string[] = [];
+      const withPlaceholders = this.escapeHtml(part).replace(LINK_PATTERN, (match, label: string, url: string) => {
+        links.push(url);
+        return `[${label}]&link${links.length - 1};`;
+      });
+
+      return this.renderEmphasis(withPlaceholders, '<strong>$1</strong>', '<em>$1</em>', '<del>$1</del>')
+        .replace(/\[([^\]]+)\]&link(\d+);/g, (match, label: string, linkIndex: string) => {
+          const url = links[Number(linkIndex)];
+          return SAFE_URL_PATTERN.test(url) ? `<a href="${url}" target="_blank" rel="noopener noreferrer">${label}</a>` : label;
+        });
+    }).join('');
+  }
+
+  private stripInlineMarkup(text: string): string {
+    const withoutLinks = text
+      .replace(/`([^`]+)`/g, '$1')
+      .replace(LINK_PATTERN, '$1');
+    return this.renderEmphasis(withoutLinks, '$1', '$1', '$1');
+  }
+
+  /**
+   * Replaces bold, italic and strikethrough markers; underscores inside words (snake_case) are left alone
+   */
+  private renderEmphasis(text: string, bold: string, italic: string, strikethrough: string): string {
+    return text
+      .replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*/g, bold)
+      .replace(/(?<!\w)__(?=\S)(.+?)(?<=\S)__(?!\w)/g, bold)
+      .replace(/\*(?=\S)(.+?)(?<=\S)\*/g, italic)
+      .replace(/(?<!\w)_(?=\S)(.+?)(?<=\S)_(?!\w)/g, italic)
+      .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, strikethrough);
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -6,7 +6,10 @@ import {
   Comment, 
   TicketStatus,
   User,
-  TicketType
+  TicketType,
+  TicketReference,
+  OptionRecord,
+  FormChange
 } from '../models';
 import { HistoryItem } from '../models/history.interface';
 
@@ -70,6 +73,20 @@ export class MockDataService {
     return of(this.createCurrentUser()).pipe(delay(800)); // 0.8 seconds
   }
 
+  /**
+   * Get mock option lists keyed by endpoint (used by OptionsResolverService)
+   */
+  getOptionListsData(): { [endpoint: string]: OptionRecord[] } {
+    return this.createMockOptionLists();
+  }
+
+  /**
+   * Get mock users and tickets of the directory (used by DirectoryService)
+   */
+  getDirectoryData(): { users: User[]; tickets: TicketReference[] } {
+    return this.createMockDirectory();
+  }
+
   // === HELPER METHODS FOR OTHER SERVICES ===
   // These methods help other services create new entities with proper structure
 
@@ -83,7 +100,7 @@ export class MockDataService {
   /**
    * Create a new history item with proper structure (used by HistoryService)
    */
-  createNewHistoryItem(ticketId: string, action: string, actor: string, details?: string): HistoryItem {
+  createNewHistoryItem(ticketId: string, action: string, actor: string, details?: string, changes?: FormChange[]): HistoryItem {
     return {
       id: Date.now(), // Simple ID generation for mock
       ticketId,
@@ -97,7 +114,8 @@ export class MockDataService {
         minute: '2-digit',
         hour12: true
       }),
-      details
+      details,
+      changes
     };
   }
 
@@ -170,6 +188,7 @@ export class MockDataService {
   private createMockFormSchema(): FormSchema {
     return {
       id: 'employee_onboarding_v1',
+      version: '1.0.0',
       title: 'Employee Onboarding - John Smith',
       description: 'Complete employee onboarding form',
       sections: [
@@ -226,16 +245,24 @@ export class MockDataService {
               label: 'Due Date',
               type: 'date',
               default: '2024-02-15',
-              validators: [{ name: 'required', message: 'Due date is required' }]
+              validators: [
+                { name: 'required', message: 'Due date is required' },
+                { name: 'minDate', args: 'today+3d', severity: 'warning', message: 'Due date is less than 3 days away' }
+              ]
             }
           ]
         },
         {
           id: 'employee_details',
           title: 'Employee Details',
+          description: 'Personal details of the new hire and who to contact in an emergency',
+          icon: 'badge',
           collapsible: true,
           collapsed: true,
           repeatable: false,
+          groups: [
+            { id: 'emergency_contact', title: 'Emergency Contact', divider: true }
+          ],
           fields: [
             {
               id: 'full_name',
@@ -243,6 +270,7 @@ export class MockDataService {
               type: 'text',
               default: 'John Smith',
               placeholder: 'Enter full name',
+              layout: { span: { xs: 1, sm: 2 }, row: 1 },
               validators: [
                 { name: 'required', message: 'Full name is required' },
                 { name: 'minlength', message: 'Name must be at least 2 characters', args: 2 }
@@ -251,9 +279,10 @@ export class MockDataService {
             {
               id: 'employee_id',
               label: 'Employee ID',
-              type: 'text',
+              type: 'masked',
               default: 'EMP-2024-001',
               placeholder: 'e.g., EMP-2024-001',
+              attributes: { mask: 'EMP-####-###' },
               validators: [{ name: 'required', message: 'Employee ID is required' }]
             },
             {
@@ -262,6 +291,7 @@ export class MockDataService {
               type: 'text',
               default: 'john.smith@acmecorp.com',
               placeholder: 'Enter email address',
+              validateOn: 'onBlur',
               validators: [
                 { name: 'required', message: 'Email address is required' },
                 { name: 'email', message: 'Please enter a valid email address' }
@@ -270,7 +300,7 @@ export class MockDataService {
             {
               id: 'phone_number',
               label: 'Phone Number',
-              type: 'text',
+              type: 'phone',
               default: '+1 (555) 123-4567',
               placeholder: '+1 (555) 000-0000',
               validators: [{ name: 'required', message: 'Phone number is required' }]
@@ -288,14 +318,16 @@ export class MockDataService {
               type: 'text',
               default: 'Jane Smith',
               placeholder: 'Emergency contact full name',
+              layout: { group: 'emergency_contact' },
               validators: [{ name: 'required', message: 'Emergency contact is required' }]
             },
             {
               id: 'emergency_phone',
               label: 'Emergency Contact Phone',
-              type: 'text',
+              type: 'phone',
               default: '+1 (555) 987-6543',
               placeholder: '+1 (555) 000-0000',
+              layout: { group: 'emergency_contact' },
               validators: [{ name: 'required', message: 'Emergency contact phone is required' }]
             }
           ]
@@ -306,6 +338,7 @@ export class MockDataService {
           collapsible: true,
           collapsed: true,
           repeatable: false,
+          layout: { columns: { xs: 1, sm: 2, xl: 3 } },
           fields: [
             {
               id: 'start_date',
@@ -349,6 +382,14 @@ export class MockDataService {
               placeholder: 'Enter manager name',
               validators: [{ name: 'required', message: 'Reporting manager is required' }]
             },
+            {
+              id: 'onboarding_buddy',
+              label: 'Onboarding Buddy',
+              type: 'user-picker',
+              placeholder: 'Search by name or email',
+              attributes: { department: 'Engineering', hint: 'Engineering team member who helps during the first weeks' },
+              validators: []
+            },
             {
               id: 'work_location',
               label: 'Work Location',
@@ -400,20 +441,30 @@ export class MockDataService {
               default: true,
               validators: []
             },
+            {
+              id: 'related_tickets',
+              label: 'Related Tickets',
+              type: 'ticket-picker',
+              placeholder: 'Search by number or title',
+              attributes: { multiple: true },
+              validators: [{ name: 'maxItems', args: 5, message: 'Link at most 5 tickets' }]
+            },
             {
               id: 'additional_notes',
               label: 'Additional Notes',
-              type: 'textarea',
+              type: 'richtext',
               default: 'New hire with 5+ years experience in React and Node.js. Will be working on the core platform team.',
               placeholder: 'Enter any additional information, special requirements, or notes...',
-              attributes: { rows: 4 },
-              validators: []
+              attributes: { rows: 4, hint: 'Markdown supported' },
+              validators: [{ name: 'maxlength', args: 1000 }]
             }
           ]
         },
         {
           id: 'equipment_access',
           title: 'Equipment & Access Requirements',
+          description: 'Hardware and system access to have ready by the start date',
+          icon: 'devices',
           collapsible: true,
           collapsed: true,
           repeatable: false,
@@ -453,6 +504,26 @@ export class MockDataService {
               attributes: { rows: 3 },
               validators: []
             },
+            {
+              id: 'additional_equipment',
+              label: 'Additional Equipment',
+              type: 'table',
+              attributes: { hint: 'Accessories ordered on top of the standard kit' },
+              columns: [
+                { id: 'item', label: 'Item', type: 'text', validators: [{ name: 'required', message: 'Item is required' }] },
+                {
+                  id: 'quantity',
+                  label: 'Qty',
+                  type: 'number',
+                  default: 1,
+                  attributes: { total: true },
+                  validators: [{ name: 'min', args: 1, message: 'At least 1' }]
+                },
+                { id: 'unit_cost', label: 'Unit Cost', type: 'currency', attributes: { total: true }, validators: [] },
+                { id: 'approved', label: 'Approved', type: 'checkbox', default: false, validators: [] }
+              ],
+              validators: [{ name: 'maxItems', args: 10, message: 'No more than 10 items per request' }]
+            },
             {
               id: 'special_requirements',
               label: 'Special Equipment Requirements',
@@ -595,6 +666,72 @@ export class MockDataService {
     ];
   }
 
+  private createMockDirectory(): { users: User[]; tickets: TicketReference[] } {
+    const users = [
+      this.createMockUser('user_001', 'John Doe', 'john.doe@example.com', 'Engineering'),
+      this.createMockUser('user_002', 'Jane Smith', 'jane.smith@example.com'),
+      this.createMockUser('user_003', 'Sarah Johnson', 'sarah.johnson@example.com', 'Engineering'),
+      this.createMockUser('user_004', 'Michael Chen', 'michael.chen@example.com', 'Engineering'),
+      this.createMockUser('user_005', 'Priya Patel', 'priya.patel@example.com', 'Product Management'),
+      this.createMockUser('user_006', 'Carlos Rivera', 'carlos.rivera@example.com', 'Design & UX'),
+      this.createMockUser('user_007', 'Emma Wilson', 'emma.wilson@example.com', 'Finance'),
+      this.createMockUser('user_008', 'David Kim', 'david.kim@example.com', 'IT Operations'),
+      this.createMockUser('user_009', 'Olivia Brown', 'olivia.brown@example.com', 'Engineering', false)
+    ];
+    const tickets: TicketReference[] = [
+      { id: 'ticket_001', ticketNumber: 'TICK-2024-001', title: 'Employee Onboarding - John Smith', status: 'new' },
+      { id: 'ticket_002', ticketNumber: 'TICK-2024-002', title: 'Laptop Provisioning - John Smith', status: 'in_progress' },
+      { id: 'ticket_003', ticketNumber: 'TICK-2024-003', title: 'Badge Access - New York Office', status: 'assigned' },
+      { id: 'ticket_004', ticketNumber: 'TICK-2024-004', title: 'AWS Console Access Request', status: 'manual_review' },
+      { id: 'ticket_005', ticketNumber: 'TICK-2023-187', title: 'Employee Offboarding - Mark Lee', status: 'completed' },
+      { id: 'ticket_006', ticketNumber: 'TICK-2023-192', title: 'VPN Certificate Renewal', status: 'failed' }
+    ];
+    return { users, tickets };
+  }
+
+  private createMockOptionLists(): { [endpoint: string]: OptionRecord[] } {
+    const departments: OptionRecord[] = [
+      { value: 'engineering', label: 'Engineering' },
+      { value: 'product', label: 'Product Management' },
+      { value: 'design', label: 'Design & UX' },
+      { value: 'marketing', label: 'Marketing' },
+      { value: 'sales', label: 'Sales' },
+      { value: 'hr', label: 'Human Resources' },
+      { value: 'finance', label: 'Finance' }
+    ];
+    const countries: OptionRecord[] = [
+      { value: 'us', label: 'United States' },
+      { value: 'gb', label: 'United Kingdom' },
+      { value: 'de', label: 'Germany' },
+      { value: 'in', label: 'India' }
+    ];
+    const offices: OptionRecord[] = [
+      { value: 'new_york', label: 'New York Office', attributes: { country: 'us' } },
+      { value: 'san_francisco', label: 'San Francisco Office', attributes: { country: 'us' } },
+      { value: 'chicago', label: 'Chicago Office', attributes: { country: 'us' } },
+      { value: 'london', label: 'London Office', attributes: { country: 'gb' } },
+      { value: 'manchester', label: 'Manchester Office', attributes: { country: 'gb' } },
+      { value: 'berlin', label: 'Berlin Office', attributes: { country: 'de' } },
+      { value: 'munich', label: 'Munich Office', attributes: { country: 'de' } },
+      { value: 'bangalore', label: 'Bangalore Office', attributes: { country: 'in' } },
+      { value: 'hyderabad', label: 'Hyderabad Office', attributes: { country: 'in' } }
+    ];
+    // Large enough to need search: ten cost centers per department
+    const costCenters: OptionRecord[] = departments.flatMap(department =>
+      Array.from({ length: 10 }, (_, index) => {
+        const code = `${department.value.slice(0, 3).toUpperCase()}-${String(index + 1).padStart(3, '0')}`;
+        return { value: code, label: `${code} ${department.label}`, attributes: { department: department.value } };
+      })
+    );
+
+    return {
+      '/departments': departments,
+      '/countries': countries,
+      '/offices': offices,
+      '/cost-centers': costCenters
+    };
+  }
+
   private createNewComment(text: string, isInternal: boolean): Comment {
     return {
       id: Date.now(), // Simple ID generation for mock
@@ -626,7 +763,7 @@ export class MockDataService {
     };
   }
 
-  private createMockUser(id: string, name: string, email: string): User {
+  private createMockUser(id: string, name: string, email: string, department: string = 'HR', isActive: boolean = true): User {
     const now = new Date();
     const [firstName, lastName] = name.split(' ');
     
@@ -644,8 +781,8 @@ export class MockDataService {
       name,
       avatar: 'https://via.placeholder.com/40',
       roles: ['user'],
-      department: 'HR',
-      isActive: true
+      department,
+      isActive
     };
   }
 
@@ -690,10 +827,12 @@ export class MockDataService {
         department: 'engineering',
         position_title: 'Senior Software Engineer',
         reporting_manager: 'Sarah Johnson',
+        onboarding_buddy: 'user_004',
         work_location: 'new_york',
         employment_type: 'full-time',
         salary_range: '100k-120k',
         benefits_eligible: true,
+        related_tickets: ['ticket_002', 'ticket_003'],
         additional_notes: 'New hire with 5+ years experience in React and Node.js. Will be working on the core platform team.'
       },
       equipment_access: {
@@ -701,6 +840,10 @@ export class MockDataService {
         monitor_needed: true,
         phone_needed: false,
         access_systems: 'GitHub, Jira, Confluence, Slack, Google Workspace, AWS Console',
+        additional_equipment: [
+          { item: 'USB-C dock', quantity: 1, unit_cost: { amount: 249, currency: 'USD' }, approved: true },
+          { item: 'Noise-cancelling headset', quantity: 1, unit_cost: { amount: 199.99, currency: 'USD' }, approved: false }
+        ],
         special_requirements: ''
       }
     };
@@ -0,0 +1,68 @@
+import { Injectable, inject } from '@angular/core';
+import { FormSubmissionData, ValidationError } from '../models';
+import { MockDataService } from './mock-data.service';
+
+// Checks a server makes on saved form data, which the form cannot make itself
+type FormDataCheck = (formData: FormSubmissionData) => ValidationError[];
+
+// Largest quantity of an additional equipment item that can be requested on an onboarding ticket
+const MAX_EQUIPMENT_QUANTITY = 5;
+
+/**
+ * MockServerValidationService - Simulates the validation a server runs when form data is saved
+ *
+ * Checks are keyed by form schema ID; data of schemas without checks is accepted as is.
+ * TicketService rejects a save with the returned errors, the way the API would.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MockServerValidationService {
+  private readonly mockDataService = inject(MockDataService);
+
+  private readonly checks = new Map<string, FormDataCheck>([
+    ['schema_001', formData => this.checkEmployeeOnboarding(formData)]
+  ]);
+
+  /**
+   * Validate form data of a schema
+   * @param schemaId - The form schema ID
+   * @param formData - The form data being saved
+   * @returns Validation errors, empty when the data is accepted
+   */
+  validate(schemaId: string, formData: FormSubmissionData): ValidationError[] {
+    return this.checks.get(schemaId)?.(formData) ?? [];
+  }
+
+  // === PRIVATE HELPER METHODS ===
+
+  /**
+   * Onboarding buddies must be active employees; large equipment orders go through procurement
+   */
+  private checkEmployeeOnboarding(formData: FormSubmissionData): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    const inactiveUsers = this.mockDataService.getDirectoryData().users.filter(user => !user.isActive).map(user => user.id);
+    if (inactiveUsers.includes(formData['employment_information']?.['onboarding_buddy'] as string)) {
+      errors.push({
+        field: 'employment_information.onboarding_buddy',
+        code: 'INACTIVE_USER',
+        message: 'Onboarding buddy is no longer an active employee'
+      });
+    }
+
+    const equipment = formData['equipment_access']?.['additional_equipment'];
+    (Array.isArray(equipment) ? equipment : []).forEach((item, index) => {
+      const quantity = typeof item === 'object' && item !== null && !Array.isArray(item) ? item['quantity'] : null;
+      if (typeof quantity === 'number' && quantity > MAX_EQUIPMENT_QUANTITY) {
+        errors.push({
+          field: `equipment_access.additional_equipment[${index}].quantity`,
+          code: 'QUANTITY_EXCEEDED',
+          message: `Orders of more than ${MAX_EQUIPMENT_QUANTITY} units go through procurement`
+        });
+      }
+    });
+
+    return errors;
+  }
+}
@@ -0,0 +1,59 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { firstValueFrom, of, throwError } from 'rxjs';
+
+import { FieldOption } from '../models';
+import { FieldOptionsQuery, OptionsResolverService } from './options-resolver.service';
+
+describe('OptionsResolverService', () => {
+  let service: OptionsResolverService;
+
+  beforeEach(() => {
+    service = TestBed.inject(OptionsResolverService);
+  });
+
+  it('should filter mock records by parent values and search term', fakeAsync(() => {
+    let options: FieldOption[] = [];
+    service.resolve({ endpoint: '/offices' }, { country: 'gb' }, ' man ').subscribe(result => (options = result));
+
+    tick(400);
+    expect(options as unknown).toEqual([{ value: 'manchester', label: 'Manchester Office' }]);
+  }));
+
+  it('should cache responses per query and drop them when the loader is replaced', async () => {
+    const queries: FieldOptionsQuery[] = [];
+    service.register('/teams', query => {
+      queries.push(query);
+      return of([{ value: 'platform', label: 'Platform' }]);
+    });
+
+    await firstValueFrom(service.resolve({ endpoint: '/teams', params: { active: true } }, { department: 'engineering' }));
+    await firstValueFrom(service.resolve({ endpoint: '/teams', params: { active: true } }, { department: 'engineering' }));
+    await firstValueFrom(service.resolve({ endpoint: '/teams', params: { active: true } }, { department: 'design' }));
+    await firstValueFrom(service.resolve({ endpoint: '/teams', cache: false }, { department: 'design' }));
+
+    expect(queries.map(query => query.params) as unknown).toEqual([
+      { active: true, department: 'engineering' },
+      { active: true, department: 'design' },
+      { department: 'design' }
+    ]);
+
+    service.register('/teams', () => of([]));
+    const replaced = await firstValueFrom(service.resolve({ endpoint: '/teams', params: { active: true } }, { department: 'design' }));
+    expect(replaced.length).toBe(0);
+  });
+
+  it('should retry failed requests instead of caching them', async () => {
+    let calls = 0;
+    service.register('/teams', () => (++calls === 1 ? throwError(() => new Error('Offline')) : of([{ value: 'platform', label: 'Platform' }])));
+
+    await expectAsync(firstValueFrom(service.resolve({ endpoint: '/teams' }))).toBeRejectedWithError('Offline');
+    expect(await firstValueFrom(service.resolve({ endpoint: '/teams' })) as unknown).toEqual([{ value: 'platform', label: 'Platform' }]);
+    expect(calls).toBe(2);
+  });
+
+  it('should fail for endpoints without a loader', async () => {
+    expect(service.has('/unknown')).toBeFalse();
+    await expectAsync(firstValueFrom(service.resolve({ endpoint: '/unknown' })))
+      .toBeRejectedWithError('OptionsResolverService: no loader registered for "/unknown"');
+  });
+});
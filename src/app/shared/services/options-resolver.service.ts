@@ -0,0 +1,123 @@
+/**
+ * Options Resolver Service
+ * Loads select/radio options declared through FormField.optionsSource
+ *
+ * Every endpoint is served by a registered loader. Loaders backed by MockDataService are registered
+ * by default; register a loader for the same endpoint to replace one, e.g.
+ * optionsResolver.register('/offices', query => http.get<FieldOption[]>('/api/offices', { params: ... }))
+ */
+
+import { Injectable, inject } from '@angular/core';
+import { Observable, catchError, delay, map, of, shareReplay, throwError } from 'rxjs';
+
+import { FieldOption, FieldOptionsSource, JsonValue, OptionRecord } from '../models';
+import { MockDataService } from './mock-data.service';
+
+// Query passed to a loader: static params merged with the current parent field values
+export interface FieldOptionsQuery {
+  params: { [param: string]: JsonValue };
+  search: string;
+}
+
+export type FieldOptionsLoader = (query: FieldOptionsQuery) => Observable<FieldOption[]>;
+
+// Simulated latency of the mock loaders
+const MOCK_LATENCY_MS = 400;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class OptionsResolverService {
+  private readonly mockDataService = inject(MockDataService);
+  private readonly loaders = new Map<string, FieldOptionsLoader>();
+  private readonly cache = new Map<string, Observable<FieldOption[]>>();
+
+  constructor() {
+    this.registerMockLoaders();
+  }
+
+  /**
+   * Register (or replace) the loader of an endpoint; cached responses of the endpoint are dropped
+   */
+  register(endpoint: string, loader: FieldOptionsLoader): void {
+    this.loaders.set(endpoint, loader);
+    this.clearCache(endpoint);
+  }
+
+  /**
+   * Check whether a loader is registered for an endpoint
+   */
+  has(endpoint: string): boolean {
+    return this.loaders.has(endpoint);
+  }
+
+  /**
+   * Resolve the options of a source for the given parent values and search term
+   */
+  resolve(source: FieldOptionsSource, params: { [param: string]: JsonValue } = {}, search: string = ''): Observable<FieldOption[]> {
+    const loader = this.loaders.get(source.endpoint);
+    if (!loader) {
+      return throwError(() => new Error(`OptionsResolverService: no loader registered for "${source.endpoint}"`));
+    }
+
+    const query: FieldOptionsQuery = { params: { ...source.params, ...params }, search: search.trim() };
+    if (source.cache === false) {
+      return loader(query);
+    }
+
+    const key = this.getCacheKey(source.endpoint, query);
+    let options$ = this.cache.get(key);
+    if (!options$) {
+      options$ = loader(query).pipe(
+        // Failed requests are not cached so that the next resolve retries
+        catchError((error: unknown) => {
+          this.cache.delete(key);
+          return throwError(() => error);
+        }),
+        shareReplay(1)
+      );
+      this.cache.set(key, options$);
+    }
+    return options$;
+  }
+
+  /**
+   * Drop cached responses, of one endpoint or all of them
+   */
+  clearCache(endpoint?: string): void {
+    if (!endpoint) {
+      this.cache.clear();
+      return;
+    }
+    [...this.cache.keys()]
+      .filter(key => key.startsWith(`${endpoint}?`))
+      .forEach(key => this.cache.delete(key));
+  }
+
+  // === PRIVATE HELPER METHODS ===
+
+  private registerMockLoaders(): void {
+    Object.entries(this.mockDataService.getOptionListsData()).forEach(([endpoint, records]) =>
+      this.loaders.set(endpoint, query => of(records).pipe(
+        delay(MOCK_LATENCY_MS),
+        map(list => this.filterRecords(list, query))
+      ))
+    );
+  }
+
+  /**
+   * Keeps records whose attributes match every query parameter and whose label contains the search term
+   */
+  private filterRecords(records: OptionRecord[], query: FieldOptionsQuery): FieldOption[] {
+    const search = query.search.toLowerCase();
+    return records
+      .filter(record => Object.entries(query.params).every(([param, value]) => record.attributes?.[param] === String(value)))
+      .filter(record => !search || record.label.toLowerCase().includes(search))
+      .map(record => ({ value: record.value, label: record.label }));
+  }
+
+  private getCacheKey(endpoint: string, query: FieldOptionsQuery): string {
+    const params = Object.keys(query.params).sort().map(param => [param, query.params[param]]);
+    return `${endpoint}?${JSON.stringify(params)}&search=${query.search}`;
+  }
+}
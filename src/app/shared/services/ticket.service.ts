@@ -1,8 +1,12 @@
 import { Injectable, inject } from '@angular/core';
 import { Observable, BehaviorSubject, of, throwError, EMPTY } from 'rxjs';
-import { map, catchError, tap, delay, startWith, filter } from 'rxjs/operators';
-import { Ticket, FormSchema, FormSubmissionData } from '../models';
+import { map, catchError, tap, delay, filter, switchMap, take, timeout } from 'rxjs/operators';
+import { APP_CONSTANTS } from '../../core/config/app.config';
+import { ApiResponse, Ticket, FormSchema, FormSubmissionData, FormChange } from '../models';
 import { MockDataService } from './mock-data.service';
+import { MockServerValidationService } from './mock-server-validation.service';
+import { HistoryService } from './history.service';
+import { FormSchemaMigrationService } from './form-schema-migration.service';
 
 /**
  * TicketService - Dedicated service for handling all ticket-related operations
@@ -15,6 +19,9 @@ import { MockDataService } from './mock-data.service';
 })
 export class TicketService {
   private mockDataService = inject(MockDataService);
+  private mockServerValidationService = inject(MockServerValidationService);
+  private historyService = inject(HistoryService);
+  private formSchemaMigrationService = inject(FormSchemaMigrationService);
   
   // State management for tickets
   private ticketsState = new Map<string, BehaviorSubject<Ticket>>();
@@ -51,9 +58,13 @@ export class TicketService {
       const initialSchema$ = new BehaviorSubject<FormSchema | null>(null);
       this.formSchemasState.set(schemaId, initialSchema$ as BehaviorSubject<FormSchema>);
       
-      // Load schema from mock data service
-      this.loadFormSchemaFromMock(schemaId).subscribe(schema => {
-        initialSchema$.next(schema);
+      // Load schema from mock data service; a failed load is passed on and retried by the next caller
+      this.loadFormSchemaFromMock(schemaId).subscribe({
+        next: schema => initialSchema$.next(schema),
+        error: error => {
+          this.formSchemasState.delete(schemaId);
+          initialSchema$.error(error);
+        }
       });
     }
     
@@ -66,9 +77,10 @@ export class TicketService {
    * Save ticket data
    * @param ticketId - The ticket ID
    * @param formData - The form data to save
+   * @param changes - Field changes from the saved data (see FormDiffService), recorded in the ticket history
    * @returns Observable of updated ticket
    */
-  saveTicket(ticketId: string, formData: FormSubmissionData): Observable<Ticket> {
+  saveTicket(ticketId: string, formData: FormSubmissionData, changes: FormChange[] = []): Observable<Ticket> {
     // Get current ticket
     const ticketSubject = this.ticketsState.get(ticketId);
     if (!ticketSubject || !ticketSubject.value) {
@@ -85,14 +97,27 @@ export class TicketService {
       version: currentTicket.version + 1
     };
     
-    // Simulate API delay and save
+    // Simulate API delay and save; data failing the server checks is rejected with validation errors
     return of(updatedTicket).pipe(
       delay(1000),
+      switchMap(ticket => {
+        const errors = this.mockServerValidationService.validate(currentTicket.formSchemaId, formData);
+        if (errors.length) {
+          const response: ApiResponse<null> = { data: null, success: false, message: 'Validation failed', errors };
+          return throwError(() => response);
+        }
+        return of(ticket);
+      }),
       tap(ticket => {
         // Update local state
         ticketSubject.next(ticket);
+        this.recordFormUpdate(ticketId, changes);
       }),
       catchError(error => {
+        // Validation errors are passed on, so they can be shown on the fields they concern
+        if (ApiResponse.isValidationFailure(error)) {
+          return throwError(() => error);
+        }
         console.error('Failed to save ticket:', error);
         return throwError(() => new Error('Failed to save ticket. Please try again.'));
       })
@@ -285,11 +310,77 @@ export class TicketService {
   
   // === PRIVATE HELPER METHODS ===
   
+  /**
+   * Upgrade the ticket's form data to the current version of its schema.
+   * The ticket is loaded as stored when its schema fails to load in time.
+   */
+  private upgradeFormData(ticket: Ticket): Observable<Ticket> {
+    return this.getFormSchema(ticket.formSchemaId).pipe(
+      filter(schema => !!schema),
+      take(1),
+      timeout(APP_CONSTANTS.API.TIMEOUT),
+      map(schema => {
+        if (!schema.version || schema.version === ticket.formSchemaVersion) {
+          return ticket;
+        }
+
+        try {
+          const result = this.formSchemaMigrationService.migrate(
+            ticket.formSchemaId, ticket.formData, ticket.formSchemaVersion, schema.version
+          );
+          this.recordMigration(ticket.id, result.fromVersion, result.toVersion,
+            result.applied.flatMap(migration => migration.steps.map(step => this.formSchemaMigrationService.describeStep(step))));
+
+          return { ...ticket, formData: result.data, formSchemaVersion: result.toVersion };
+        } catch (error) {
+          // Keep the stored data; fields that still match the schema remain usable
+          console.error('Failed to migrate ticket form data:', error);
+          return ticket;
+        }
+      }),
+      catchError(error => {
+        console.error('Failed to load form schema for migration:', error);
+        return of(ticket);
+      })
+    );
+  }
+
+  /**
+   * Record the field changes of a save in the ticket history, as made by the current user
+   */
+  private recordFormUpdate(ticketId: string, changes: FormChange[]): void {
+    if (!changes.length) return;
+
+    this.mockDataService.getCurrentUserData().pipe(
+      switchMap(user => this.historyService.addHistoryItem(ticketId, {
+        action: 'Form Updated',
+        actor: user.name,
+        details: `${changes.length} ${changes.length === 1 ? 'change' : 'changes'} saved`,
+        changes
+      }))
+    ).subscribe();
+  }
+
+  /**
+   * Record a form data migration in the ticket history
+   */
+  private recordMigration(ticketId: string, fromVersion: string, toVersion: string, changes: string[]): void {
+    const details = `Form data upgraded from schema version ${fromVersion} to ${toVersion}`
+      + (changes.length ? `: ${changes.join('; ')}` : '');
+
+    this.historyService.addHistoryItem(ticketId, {
+      action: 'Form Data Migrated',
+      actor: 'System',
+      details
+    }).subscribe();
+  }
+
   /**
    * Load ticket from mock data service
    */
   private loadTicketFromMock(ticketId: string): Observable<Ticket> {
     return this.mockDataService.getTicketData(ticketId).pipe(
+      switchMap(ticket => this.upgradeFormData(ticket)),
       catchError(error => {
         console.error('Failed to load ticket from mock service:', error);
         return throwError(() => new Error('Failed to load ticket'));
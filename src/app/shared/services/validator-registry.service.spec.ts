@@ -0,0 +1,81 @@
+import { TestBed } from '@angular/core/testing';
+import { AbstractControl, FormControl, ValidationErrors, Validators } from '@angular/forms';
+import { Observable, firstValueFrom, of } from 'rxjs';
+
+import { ValidatorRegistryService } from './validator-registry.service';
+
+describe('ValidatorRegistryService', () => {
+  let service: ValidatorRegistryService;
+
+  beforeEach(() => {
+    service = TestBed.inject(ValidatorRegistryService);
+  });
+
+  it('should create registered sync validators from their args', () => {
+    service.register('employeeIdFormat', {
+      factory: args => (typeof args === 'string' ? Validators.pattern(new RegExp(`^${args}-\\d{4}$`)) : null),
+      message: '{label} must look like EMP-1234'
+    });
+
+    const validator = service.createValidator({ name: 'employeeIdFormat', args: 'EMP' })!;
+
+    expect(service.has('employeeIdFormat')).toBeTrue();
+    expect(service.isAsync('employeeIdFormat')).toBeFalse();
+    expect(validator(new FormControl('EMP-1234'))).toBeNull();
+    expect(validator(new FormControl('1234'))).not.toBeNull();
+    expect(service.createAsyncValidator({ name: 'employeeIdFormat', args: 'EMP' })).toBeNull();
+    expect(service.getDefaultMessage('employeeIdFormat', 'Employee ID')).toBe('Employee ID must look like EMP-1234');
+  });
+
+  it('should create registered async validators from their args', async () => {
+    const taken = ['ada@example.com'];
+    service.registerAsync('uniqueEmail', {
+      factory: () => (control: AbstractControl): Observable<ValidationErrors | null> =>
+        of(taken.includes(String(control.value)) ? { uniqueEmail: true } : null),
+      message: '{label} is already in use'
+    });
+
+    const validator = service.createAsyncValidator({ name: 'uniqueEmail' })!;
+
+    expect(service.isAsync('uniqueEmail')).toBeTrue();
+    expect(service.createValidator({ name: 'uniqueEmail' })).toBeNull();
+    expect(await firstValueFrom(validator(new FormControl('ada@example.com')) as Observable<ValidationErrors | null>))
+      .toEqual({ uniqueEmail: true });
+    expect(await firstValueFrom(validator(new FormControl('grace@example.com')) as Observable<ValidationErrors | null>))
+      .toBeNull();
+  });
+
+  it('should replace a validator registered under the same name', () => {
+    service.registerAsync('employeeIdFormat', { factory: () => () => of(null) });
+    service.register('employeeIdFormat', { factory: () => control => (control.value ? null : { employeeIdFormat: true }) });
+
+    expect(service.isAsync('employeeIdFormat')).toBeFalse();
+    expect(service.createAsyncValidator({ name: 'employeeIdFormat' })).toBeNull();
+  });
+
+  it('should include the configured bound in the default messages', () => {
+    const min = service.createValidator({ name: 'min', args: 5 })!;
+    const maxlength = service.createValidator({ name: 'maxlength', args: 3 })!;
+
+    const minError: unknown = min(new FormControl(2))?.['min'];
+    const maxlengthError: unknown = maxlength(new FormControl('abcd'))?.['maxlength'];
+
+    expect(service.getDefaultMessage('min', 'Quantity', minError)).toBe('Quantity must be at least 5');
+    expect(service.getDefaultMessage('maxlength', 'Code', maxlengthError)).toBe('Code must not exceed 3 characters');
+    expect(service.getDefaultMessage('required', 'Title')).toBe('Title is required');
+  });
+
+  it('should reject invalid args and unknown names', () => {
+    service.registerAsync('uniqueIn', {
+      factory: args => (typeof args === 'string' ? () => of(null) : null)
+    });
+
+    expect(service.hasValidArgs({ name: 'uniqueIn', args: '/users' })).toBeTrue();
+    expect(service.hasValidArgs({ name: 'uniqueIn', args: 5 })).toBeFalse();
+    expect(service.hasValidArgs({ name: 'min', args: 'five' })).toBeFalse();
+    expect(service.hasValidArgs({ name: 'pattern', args: '([' })).toBeFalse();
+    expect(service.hasValidArgs({ name: 'blackoutDates', args: ['2024-02-30'] })).toBeFalse();
+    expect(service.has('unknownValidator')).toBeFalse();
+    expect(service.createValidator({ name: 'unknownValidator' })).toBeNull();
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Validator Registry Service
+ * Maps validator names used in form schemas to Angular validator factories
+ *
+ * Built-in validators are registered up front. Apps register their own named validators
+ * (e.g. "employeeIdFormat", or an async "uniqueEmail" lookup) and reference them from
+ * FieldValidator.name with optional args. Validators must report errors under their own name.
+ */
+
+import { Injectable, inject } from '@angular/core';
+import { AbstractControl, AsyncValidatorFn, ValidationErrors, ValidatorFn, Validators } from '@angular/forms';
+
+import { APP_CONSTANTS } from '../../core/config/app.config';
+import { FieldValidator, JsonValue } from '../models';
+import { DateTimeService } from './date-time.service';
+import { FieldFormatService } from './field-format.service';
+
+// Synchronous validator registration
+export interface ValidatorDefinition {
+  /** Builds the validator from schema args; return null when the args are invalid */
+  factory: (args?: JsonValue) => ValidatorFn | null;
+  /** Default message, "{label}" is replaced with the field label and "{key}" with that property of the error */
+  message?: string;
+}
+
+// Asynchronous validator registration
+export interface AsyncValidatorDefinition {
+  /** Builds the validator from schema args; return null when the args are invalid */
+  factory: (args?: JsonValue) => AsyncValidatorFn | null;
+  /** Default message, "{label}" is replaced with the field label and "{key}" with that property of the error */
+  message?: string;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ValidatorRegistryService {
+  private readonly dateTimeService = inject(DateTimeService);
+  private readonly fieldFormatService = inject(FieldFormatService);
+  private readonly validators = new Map<string, ValidatorDefinition>();
+  private readonly asyncValidators = new Map<string, AsyncValidatorDefinition>();
+
+  constructor() {
+    this.registerBuiltInValidators();
+  }
+
+  /**
+   * Register a named synchronous validator (replaces an existing one with the same name)
+   */
+  register(name: string, definition: ValidatorDefinition): void {
+    this.asyncValidators.delete(name);
+    this.validators.set(name, definition);
+  }
+
+  /**
+   * Register a named asynchronous validator (replaces an existing one with the same name)
+   */
+  registerAsync(name: string, definition: AsyncValidatorDefinition): void {
+    this.validators.delete(name);
+    this.asyncValidators.set(name, definition);
+  }
+
+  /**
+   * Check whether a validator name is registered
+   */
+  has(name: string): boolean {
+    return this.validators.has(name) || this.asyncValidators.has(name);
+  }
+
+  /**
+   * Check whether a validator name refers to an async validator
+   */
+  isAsync(name: string): boolean {
+    return this.asyncValidators.has(name);
+  }
+
+  /**
+   * Create the synchronous validator for a schema declaration
+   * @returns null when the name is unknown, async, or the args are invalid
+   */
+  createValidator(validator: FieldValidator): ValidatorFn | null {
+    return this.validators.get(validator.name)?.factory(validator.args) ?? null;
+  }
+
+  /**
+   * Create the asynchronous validator for a schema declaration
+   * @returns null when the name is unknown, sync, or the args are invalid
+   */
+  createAsyncValidator(validator: FieldValidator): AsyncValidatorFn | null {
+    return this.asyncValidators.get(validator.name)?.factory(validator.args) ?? null;
+  }
+
+  /**
+   * Check whether the args of a declaration are accepted by its validator
+   */
+  hasValidArgs(validator: FieldValidator): boolean {
+    return this.isAsync(validator.name)
+      ? this.createAsyncValidator(validator) !== null
+      : this.createValidator(validator) !== null;
+  }
+
+  /**
+   * Get the registered default message for a validator
+   * @param error The validation error, whose properties fill the message placeholders (e.g. "{min}")
+   */
+  getDefaultMessage(name: string, label: string, error?: unknown): string | undefined {
+    const message = (this.validators.get(name) ?? this.asyncValidators.get(name))?.message;
+    const details = error && typeof error === 'object' ? error as Record<string, unknown> : {};
+    return message?.replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+      const value = key === 'label' ? label : details[key];
+      return typeof value === 'string' || typeof value === 'number' ? String(value) : placeholder;
+    });
+  }
+
+  // === PRIVATE HELPER METHODS ===
+
+  private registerBuiltInValidators(): void {
+    const numeric = (factory: (value: number) => ValidatorFn) =>
+      (args?: JsonValue) => (typeof args === 'number' ? factory(args) : null);
+
+    // Placeholders are the properties of the Angular validation errors
+    this.register('required', { factory: () => control => Validators.required(control), message: '{label} is required' });
+    this.register('email', { factory: () => control => Validators.email(control), message: '{label} must be a valid email address' });
+    this.register('min', { factory: numeric(min => Validators.min(min)), message: '{label} must be at least {min}' });
+    this.register('max', { factory: numeric(max => Validators.max(max)), message: '{label} must be at most {max}' });
+    this.register('minlength', {
+      factory: numeric(length => Validators.minLength(length)),
+      message: '{label} must be at least {requiredLength} characters'
+    });
+    this.register('maxlength', {
+      factory: numeric(length => Validators.maxLength(length)),
+      message: '{label} must not exceed {requiredLength} characters'
+    });
+
+    // Item counts for array values (multiselect, checkbox-group, tags)
+    this.register('minItems', {
+      factory: numeric(min => this.itemCountValidator('minItems', count => count >= min)),
+      message: '{label} needs more items'
+    });
+    this.register('maxItems', {
+      factory: numeric(max => this.itemCountValidator('maxItems', count => count <= max)),
+      message: '{label} has too many items'
+    });
+
+    // Date constraints for date, datetime and daterange values; bounds are resolved on every check so "today" moves
+    const dateBound = (name: string, compare: (date: string, limit: string) => boolean) =>
+      (args?: JsonValue) => (this.dateTimeService.resolveDateBound(args) === null ? null : this.dateValidator(name, date => {
+        const limit = this.dateTimeService.resolveDateBound(args);
+        return !limit || compare(date, limit);
+      }));
+    this.register('minDate', {
+      factory: dateBound('minDate', (date, min) => date >= min),
+      message: '{label} is before the earliest allowed date'
+    });
+    this.register('maxDate', {
+      factory: dateBound('maxDate', (date, max) => date <= max),
+      message: '{label} is after the latest allowed date'
+    });
+    this.register('weekdaysOnly', {
+      factory: () => this.dateValidator('weekdaysOnly', date => this.dateTimeService.isWeekday(date)),
+      message: '{label} must be a weekday'
+    });
+    this.register('blackoutDates', {
+      factory: args => {
+        if (!Array.isArray(args)) return null;
+        const dates = args.map(date => this.dateTimeService.toIsoDate(date));
+        return dates.includes(null) ? null : this.dateValidator('blackoutDates', date => !dates.includes(date));
+      },
+      message: '{label} falls on an unavailable date'
+    });
+
+    // Registered for every daterange field: both ends set, start not after end
+    this.register('dateRange', {
+      factory: () => (control: AbstractControl): ValidationErrors | null => {
+        const value: unknown = control.value;
+        if (!value) return null;
+        const { start, end } = this.dateTimeService.toDateRange(value);
+        if (!start && !end) return null;
+        return start && end && start <= end ? null : { dateRange: { start, end } };
+      },
+      message: '{label} needs a start date on or before the end date'
+    });
+
+    this.register('pattern', {
+      factory: args => {
+        if (typeof args !== 'string') return null;
+        try {
+          return Validators.pattern(new RegExp(args));
+        } catch {
+          return null;
+        }
+      },
+      message: '{label} format is invalid'
+    });
+
+    this.register('email-strict', {
+      factory: () => this.patternValidator('email-strict', APP_CONSTANTS.VALIDATION.EMAIL.PATTERN),
+      message: '{label} must be a valid email address'
+    });
+
+    this.register('url', {
+      factory: () => this.patternValidator('url', APP_CONSTANTS.VALIDATION.URL.PATTERN),
+      message: '{label} must be a valid URL'
+    });
+
+    // Spaces, dashes, dots and parentheses are formatting only
+    this.register('phone', {
+      factory: () => this.patternValidator('phone', APP_CONSTANTS.VALIDATION.PHONE.PATTERN, value => value.replace(/[\s\-().]/g, '')),
+      message: '{label} must be a valid phone number'
+    });
+
+    // Registered for every phone field, which stores numbers that could be normalized as E.164
+    this.register('e164', {
+      factory: () => (control: AbstractControl): ValidationErrors | null => {
+        const value: unknown = control.value;
+        if (value === null || value === undefined || value === '') return null;
+        return this.fieldFormatService.toE164(value) === value ? null : { e164: { actualValue: value } };
+      },
+      message: '{label} must be a valid phone number including the country code'
+    });
+
+    // Registered for every masked field with its attributes.mask
+    this.register('mask', {
+      factory: args => (this.fieldFormatService.isValidMask(args) ? (control: AbstractControl): ValidationErrors | null => {
+        const value: unknown = control.value;
+        if (value === null || value === undefined || value === '') return null;
+        return this.fieldFormatService.matchesMask(String(value), args) ? null : { mask: { requiredMask: args, actualValue: value } };
+      } : null),
+      message: '{label} does not match the required format'
+    });
+  }
+
+  /**
+   * Array length validator; empty values are left to "required"
+   */
+  private itemCountValidator(name: string, isValid: (count: number) => boolean): ValidatorFn {
+    return (control: AbstractControl): ValidationErrors | null => {
+      const value: unknown = control.value;
+      if (!Array.isArray(value) || value.length === 0) {
+        return null;
+      }
+      return isValid(value.length) ? null : { [name]: { actualCount: value.length } };
+    };
+  }
+
+  /**
+   * Checks every calendar date of a value (both ends of a date range); empty values are left to "required"
+   */
+  private dateValidator(name: string, isValid: (isoDate: string) => boolean): ValidatorFn {
+    return (control: AbstractControl): ValidationErrors | null => {
+      const value: unknown = control.value;
+      const range = value && typeof value === 'object' && !(value instanceof Date)
+        ? this.dateTimeService.toDateRange(value)
+        : null;
+      const dates = range ? [range.start, range.end] : [this.dateTimeService.toIsoDate(value)];
+
+      const invalidDate = dates.find(date => date !== null && !isValid(date));
+      return invalidDate ? { [name]: { actualDate: invalidDate } } : null;
+    };
+  }
+
+  /**
+   * Regex validator that reports errors under its own name instead of "pattern"
+   */
+  private patternValidator(name: string, pattern: RegExp, normalize: (value: string) => string = value => value): ValidatorFn {
+    return (control: AbstractControl): ValidationErrors | null => {
+      const value: unknown = control.value;
+      if (value === null || value === undefined || value === '') {
+        return null;
+      }
+      return pattern.test(normalize(String(value))) ? null : { [name]: { actualValue: value } };
+    };
+  }
+}